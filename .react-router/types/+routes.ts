@@ -13,15 +13,133 @@ type Pages = {
   "/": {
     params: {};
   };
+  "/articles/:id": {
+    params: {
+      "id": string;
+    };
+  };
+  "/blogs/:id": {
+    params: {
+      "id": string;
+    };
+  };
+  "/reports/:id": {
+    params: {
+      "id": string;
+    };
+  };
+  "/saved": {
+    params: {};
+  };
+  "/theme": {
+    params: {};
+  };
+  "/accessibility": {
+    params: {};
+  };
+  "/date-format": {
+    params: {};
+  };
+  "/api/articles": {
+    params: {};
+  };
+  "/api/articles/:id": {
+    params: {
+      "id": string;
+    };
+  };
+  "/feed.xml": {
+    params: {};
+  };
+  "/atom.xml": {
+    params: {};
+  };
+  "/feed.json": {
+    params: {};
+  };
+  "/sitemap.xml": {
+    params: {};
+  };
+  "/robots.txt": {
+    params: {};
+  };
+  "/health": {
+    params: {};
+  };
+  "/ready": {
+    params: {};
+  };
 };
 
 type RouteFiles = {
   "root.tsx": {
     id: "root";
-    page: "/";
+    page: "/" | "/articles/:id" | "/blogs/:id" | "/reports/:id" | "/saved" | "/theme" | "/accessibility" | "/date-format" | "/api/articles" | "/api/articles/:id" | "/feed.xml" | "/atom.xml" | "/feed.json" | "/sitemap.xml" | "/robots.txt" | "/health" | "/ready";
   };
   "routes/_index.tsx": {
     id: "routes/_index";
     page: "/";
   };
+  "routes/articles.$id.tsx": {
+    id: "routes/articles.$id";
+    page: "/articles/:id";
+  } | {
+    id: "blog-detail";
+    page: "/blogs/:id";
+  } | {
+    id: "report-detail";
+    page: "/reports/:id";
+  };
+  "routes/saved.tsx": {
+    id: "routes/saved";
+    page: "/saved";
+  };
+  "routes/theme.ts": {
+    id: "routes/theme";
+    page: "/theme";
+  };
+  "routes/accessibility.ts": {
+    id: "routes/accessibility";
+    page: "/accessibility";
+  };
+  "routes/date-format.ts": {
+    id: "routes/date-format";
+    page: "/date-format";
+  };
+  "routes/api.articles.ts": {
+    id: "routes/api.articles";
+    page: "/api/articles";
+  };
+  "routes/api.articles.$id.ts": {
+    id: "routes/api.articles.$id";
+    page: "/api/articles/:id";
+  };
+  "routes/feed.xml.ts": {
+    id: "routes/feed.xml";
+    page: "/feed.xml";
+  };
+  "routes/atom.xml.ts": {
+    id: "routes/atom.xml";
+    page: "/atom.xml";
+  };
+  "routes/feed.json.ts": {
+    id: "routes/feed.json";
+    page: "/feed.json";
+  };
+  "routes/sitemap.xml.ts": {
+    id: "routes/sitemap.xml";
+    page: "/sitemap.xml";
+  };
+  "routes/robots.txt.ts": {
+    id: "routes/robots.txt";
+    page: "/robots.txt";
+  };
+  "routes/health.ts": {
+    id: "routes/health";
+    page: "/health";
+  };
+  "routes/ready.ts": {
+    id: "routes/ready";
+    page: "/ready";
+  };
 };
\ No newline at end of file
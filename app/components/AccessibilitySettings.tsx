@@ -0,0 +1,69 @@
+import { css } from "styled-system/css";
+import { useAccessibilityPreferences } from "~/hooks";
+import type { ContrastPreference, MotionPreference } from "~/types";
+import { PreferenceToggle } from "./PreferenceToggle";
+
+const MOTION_LABELS: Record<MotionPreference, string> = {
+  system: "System",
+  reduce: "Reduced",
+  full: "Full",
+};
+
+const CONTRAST_LABELS: Record<ContrastPreference, string> = {
+  system: "System",
+  more: "More",
+  standard: "Standard",
+};
+
+/**
+ * Motion and contrast overrides for the footer. It renders nothing outside
+ * AccessibilityPreferencesProvider.
+ */
+export function AccessibilitySettings() {
+  const preferences = useAccessibilityPreferences();
+
+  if (!preferences) return null;
+
+  const settingStyles = css({
+    display: "flex",
+    alignItems: "center",
+    gap: "2",
+  });
+
+  return (
+    <div
+      className={css({
+        display: "flex",
+        flexWrap: "wrap",
+        justifyContent: "center",
+        gap: "6",
+        marginBottom: "6",
+        fontSize: "sm",
+        color: "fg.muted",
+      })}
+    >
+      <div className={settingStyles}>
+        <span aria-hidden="true">Motion</span>
+        <PreferenceToggle
+          label="Motion"
+          action="/accessibility"
+          name="motion"
+          options={MOTION_LABELS}
+          value={preferences.motion}
+          onChange={(motion) => preferences.setPreferences({ motion })}
+        />
+      </div>
+      <div className={settingStyles}>
+        <span aria-hidden="true">Contrast</span>
+        <PreferenceToggle
+          label="Contrast"
+          action="/accessibility"
+          name="contrast"
+          options={CONTRAST_LABELS}
+          value={preferences.contrast}
+          onChange={(contrast) => preferences.setPreferences({ contrast })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,98 @@
 import { css } from "styled-system/css";
-import type { SpaceflightArticle } from "~/types";
-import { formatDate, getImageUrlWithFallback } from "~/utils";
-import { useIntersectionObserver } from "~/hooks";
+import type { ContentType, SpaceflightArticle } from "~/types";
+import {
+  CONTENT_TYPE_LABELS,
+  formatAuthorNames,
+  getContentPath,
+  getFeedHref,
+  getImageUrlWithFallback,
+  hasLaterUpdate,
+} from "~/utils";
+import {
+  useBookmarks,
+  useDateFormatter,
+  useHighContrast,
+  useIntersectionObserver,
+  useReducedMotion,
+} from "~/hooks";
+import { FormattedDate } from "./FormattedDate";
 
 interface ArticleCardProps {
   article: SpaceflightArticle;
+  contentType?: ContentType;
   className?: string;
 }
 
-export function ArticleCard({ article, className }: ArticleCardProps) {
+export function ArticleCard({
+  article,
+  contentType = "articles",
+  className,
+}: ArticleCardProps) {
+  // Reports rarely have an image, so they lead with their summary instead
+  const isTextFirst = contentType === "reports" || !article.image_url;
+  const byline = formatAuthorNames(article.authors);
+  const launches = article.launches ?? [];
+  const events = article.events ?? [];
+  // The toggle only appears once the saved list has loaded in the browser
+  const bookmarks = useBookmarks();
+  const isSaved = bookmarks?.isSaved(contentType, article.id) ?? false;
+  const reducedMotion = useReducedMotion();
+  const highContrast = useHighContrast();
+  const { formatDate } = useDateFormatter();
+
+  // Over the image when there is one; text-first cards have the Save toggle
+  // in that corner, so the ribbon joins the badges instead
+  const featuredRibbon = article.featured && (
+    <span
+      className={`${css({
+        paddingX: "2",
+        paddingY: "0.5",
+        fontSize: "xs",
+        fontWeight: "bold",
+        textTransform: "uppercase",
+        letterSpacing: "wide",
+        color: "amber.900",
+        backgroundColor: "amber.300",
+        borderRadius: "sm",
+      })} ${
+        isTextFirst
+          ? ""
+          : css({
+              position: "absolute",
+              top: "3",
+              right: "3",
+              zIndex: "1",
+              shadow: "sm",
+              pointerEvents: "none",
+            })
+      }`}
+    >
+      Featured
+    </span>
+  );
+
+  const chipStyles = css({
+    display: "inline-block",
+    paddingX: "2",
+    paddingY: "0.5",
+    fontSize: "xs",
+    fontWeight: "medium",
+    color: "fg.body",
+    backgroundColor: "bg.subtle",
+    border: "1px solid",
+    borderColor: "border.default",
+    borderRadius: "full",
+    _hover: {
+      backgroundColor: "bg.muted",
+      textDecoration: "none",
+    },
+    _focus: {
+      outline: "2px solid",
+      outlineColor: "blue.500",
+      outlineOffset: "2px",
+    },
+  });
+
   // Use intersection observer for performance optimization
   const { elementRef, hasIntersected } = useIntersectionObserver({
     threshold: 0.1,
@@ -33,13 +117,14 @@ export function ArticleCard({ article, className }: ArticleCardProps) {
       className={css(
         {
           // Mobile-first responsive design
+          position: "relative",
           display: "flex",
           flexDirection: "column",
-          border: "1px solid",
-          borderColor: "gray.200",
+          border: highContrast ? "2px solid" : "1px solid",
+          borderColor: "border.default",
           borderRadius: { base: "md", md: "lg" },
           overflow: "hidden",
-          bg: "white",
+          bg: "bg.surface",
           shadow: "sm",
           transition: "all 0.2s ease-in-out",
           height: "100%",
@@ -47,13 +132,21 @@ export function ArticleCard({ article, className }: ArticleCardProps) {
           width: "100%",
           maxWidth: { base: "100%", sm: "400px", md: "100%" },
           mx: { base: "auto", md: "0" },
-          // Animation based on intersection
+          // Animation based on intersection; reduced motion only fades in
           opacity: hasIntersected ? 1 : 0,
-          transform: hasIntersected ? "translateY(0)" : "translateY(20px)",
+          transform: reducedMotion
+            ? "none"
+            : hasIntersected
+              ? "translateY(0)"
+              : "translateY(20px)",
           _hover: {
             shadow: "md",
-            transform: hasIntersected ? "translateY(-2px)" : "translateY(20px)",
-            borderColor: "gray.300",
+            transform: reducedMotion
+              ? "none"
+              : hasIntersected
+                ? "translateY(-2px)"
+                : "translateY(20px)",
+            borderColor: "border.strong",
           },
           _focus: {
             outline: "2px solid",
@@ -64,89 +157,93 @@ export function ArticleCard({ article, className }: ArticleCardProps) {
         className || "",
       )}
     >
+      {!isTextFirst && featuredRibbon}
+
       {/* Image Container */}
-      <div
-        className={css({
-          position: "relative",
-          // Mobile-first aspect ratios
-          aspectRatio: { base: "16/9", sm: "4/3", md: "16/9" },
-          overflow: "hidden",
-          flexShrink: 0,
-        })}
-      >
-        {/* Lazy load images only when in view */}
-        {hasIntersected ? (
-          <img
-            src={getImageUrlWithFallback(article.image_url)}
-            alt={`${article.title} - Click to read full article`}
+      {!isTextFirst && (
+        <div
+          className={css({
+            position: "relative",
+            // Mobile-first aspect ratios
+            aspectRatio: { base: "16/9", sm: "4/3", md: "16/9" },
+            overflow: "hidden",
+            flexShrink: 0,
+          })}
+        >
+          {/* Lazy load images only when in view */}
+          {hasIntersected ? (
+            <img
+              src={getImageUrlWithFallback(article.image_url)}
+              alt={`${article.title} - Click to read full article`}
+              className={css({
+                width: "100%",
+                height: "100%",
+                objectFit: "cover",
+                cursor: "pointer",
+                transition: "transform 0.3s ease-in-out",
+                _hover: {
+                  transform: reducedMotion ? "none" : "scale(1.05)",
+                },
+              })}
+              onClick={handleImageClick}
+              onKeyDown={handleKeyDown}
+              tabIndex={0}
+              role="button"
+              aria-label={`Read full article: ${article.title}`}
+              loading="lazy"
+            />
+          ) : (
+            // Placeholder while image loads
+            <div
+              className={css({
+                width: "100%",
+                height: "100%",
+                backgroundColor: "bg.muted",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                cursor: "pointer",
+              })}
+              onClick={handleImageClick}
+              onKeyDown={handleKeyDown}
+              tabIndex={0}
+              role="button"
+              aria-label={`Read full article: ${article.title}`}
+            >
+              <div
+                className={css({
+                  width: "12",
+                  height: "12",
+                  backgroundColor: "bg.emphasis",
+                  borderRadius: "md",
+                  animation: reducedMotion ? "none" : "pulse 2s infinite",
+                })}
+              />
+            </div>
+          )}
+
+          {/* Overlay for better accessibility */}
+          <div
             className={css({
-              width: "100%",
-              height: "100%",
-              objectFit: "cover",
+              position: "absolute",
+              top: 0,
+              left: 0,
+              right: 0,
+              bottom: 0,
+              bg: "rgba(0, 0, 0, 0)",
+              transition: "background-color 0.2s",
               cursor: "pointer",
-              transition: "transform 0.3s ease-in-out",
               _hover: {
-                transform: "scale(1.05)",
+                bg: "rgba(0, 0, 0, 0.1)",
               },
             })}
             onClick={handleImageClick}
             onKeyDown={handleKeyDown}
-            tabIndex={0}
-            role="button"
-            aria-label={`Read full article: ${article.title}`}
-            loading="lazy"
+            tabIndex={-1}
+            aria-hidden="true"
           />
-        ) : (
-          // Placeholder while image loads
-          <div
-            className={css({
-              width: "100%",
-              height: "100%",
-              backgroundColor: "gray.200",
-              display: "flex",
-              alignItems: "center",
-              justifyContent: "center",
-              cursor: "pointer",
-            })}
-            onClick={handleImageClick}
-            onKeyDown={handleKeyDown}
-            tabIndex={0}
-            role="button"
-            aria-label={`Read full article: ${article.title}`}
-          >
-            <div
-              className={css({
-                width: "12",
-                height: "12",
-                backgroundColor: "gray.300",
-                borderRadius: "md",
-                animation: "pulse 2s infinite",
-              })}
-            />
-          </div>
-        )}
-
-        {/* Overlay for better accessibility */}
-        <div
-          className={css({
-            position: "absolute",
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            bg: "rgba(0, 0, 0, 0)",
-            transition: "background-color 0.2s",
-            cursor: "pointer",
-            _hover: {
-              bg: "rgba(0, 0, 0, 0.1)",
-            },
-          })}
-          onClick={handleImageClick}
-          onKeyDown={handleKeyDown}
-          tabIndex={-1}
-          aria-hidden="true"
-        />
-      </div>
+        </div>
+      )}
 
       {/* Content Container */}
       <div
@@ -158,13 +255,90 @@ export function ArticleCard({ article, className }: ArticleCardProps) {
           gap: { base: 2, md: 3 },
         })}
       >
+        <div
+          className={css({
+            display: "flex",
+            alignItems: "center",
+            gap: "2",
+          })}
+        >
+          {/* Content type badge */}
+          <span
+            className={css({
+              alignSelf: "flex-start",
+              paddingX: "2",
+              paddingY: "0.5",
+              fontSize: "xs",
+              fontWeight: "semibold",
+              textTransform: "uppercase",
+              letterSpacing: "wide",
+              borderRadius: "full",
+              color:
+                contentType === "reports"
+                  ? "purple.800"
+                  : contentType === "blogs"
+                    ? "green.800"
+                    : "blue.800",
+              backgroundColor:
+                contentType === "reports"
+                  ? "purple.100"
+                  : contentType === "blogs"
+                    ? "green.100"
+                    : "blue.100",
+            })}
+          >
+            {CONTENT_TYPE_LABELS[contentType].singular}
+          </span>
+          {isTextFirst && featuredRibbon}
+
+          {bookmarks?.status === "ready" && (
+            <button
+              type="button"
+              onClick={() => bookmarks.toggle(article, contentType)}
+              aria-pressed={isSaved}
+              aria-label={
+                isSaved
+                  ? `Remove "${article.title}" from saved`
+                  : `Save "${article.title}" for later`
+              }
+              className={css({
+                display: "inline-flex",
+                alignItems: "center",
+                gap: "1",
+                paddingX: "2",
+                paddingY: "0.5",
+                fontSize: "xs",
+                fontWeight: "medium",
+                color: isSaved ? "amber.900" : "fg.body",
+                backgroundColor: isSaved ? "amber.100" : "bg.surface",
+                border: "1px solid",
+                borderColor: isSaved ? "amber.300" : "border.strong",
+                marginLeft: "auto",
+                borderRadius: "full",
+                cursor: "pointer",
+                _hover: {
+                  backgroundColor: isSaved ? "amber.200" : "bg.subtle",
+                },
+                _focus: {
+                  outline: "2px solid",
+                  outlineColor: "blue.500",
+                  outlineOffset: "2px",
+                },
+              })}
+            >
+              <span aria-hidden="true">{isSaved ? "★" : "☆"}</span>
+              {isSaved ? "Saved" : "Save"}
+            </button>
+          )}
+        </div>
+
         {/* Title */}
         <h3
           className={css({
             fontSize: { base: "md", sm: "lg", md: "xl" },
             fontWeight: "semibold",
             lineHeight: "tight",
-            color: "gray.900",
+            color: "fg.default",
             // Ensure title doesn't get too long on mobile
             display: "-webkit-box",
             WebkitLineClamp: { base: 3, md: 2 },
@@ -174,19 +348,43 @@ export function ArticleCard({ article, className }: ArticleCardProps) {
           })}
           title={article.title}
         >
-          {article.title}
+          {/* In-app detail page gives every article a shareable URL */}
+          <a
+            href={getContentPath(contentType, article.id)}
+            className={css({
+              color: "inherit",
+              _hover: {
+                color: "fg.accentEmphasis",
+              },
+            })}
+          >
+            {article.title}
+          </a>
         </h3>
 
+        {byline && (
+          <p
+            className={css({
+              fontSize: "sm",
+              color: "fg.muted",
+            })}
+          >
+            By {byline}
+          </p>
+        )}
+
         {/* Summary */}
         <p
           className={css({
-            color: "gray.600",
+            color: "fg.muted",
             fontSize: { base: "sm", md: "base" },
             lineHeight: "relaxed",
             flex: 1,
             // Responsive text truncation
             display: "-webkit-box",
-            WebkitLineClamp: { base: 3, sm: 4, md: 3 },
+            WebkitLineClamp: isTextFirst
+              ? { base: 6, md: 8 }
+              : { base: 3, sm: 4, md: 3 },
             overflow: "hidden",
             textOverflow: "ellipsis",
           })}
@@ -195,6 +393,44 @@ export function ArticleCard({ article, className }: ArticleCardProps) {
           {article.summary}
         </p>
 
+        {/* Related launches and events link to the rest of their coverage */}
+        {(launches.length > 0 || events.length > 0) && (
+          <ul
+            aria-label="Related launches and events"
+            className={css({
+              display: "flex",
+              flexWrap: "wrap",
+              gap: "2",
+              listStyle: "none",
+            })}
+          >
+            {launches.map((launch) => (
+              <li key={launch.launch_id}>
+                <a
+                  href={getFeedHref(contentType, {
+                    launchId: launch.launch_id,
+                  })}
+                  title={`More coverage of this launch (${launch.provider})`}
+                  className={chipStyles}
+                >
+                  🚀 Launch
+                </a>
+              </li>
+            ))}
+            {events.map((event) => (
+              <li key={event.event_id}>
+                <a
+                  href={getFeedHref(contentType, { eventId: event.event_id })}
+                  title={`More coverage of this event (${event.provider})`}
+                  className={chipStyles}
+                >
+                  📅 Event
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+
         {/* Metadata */}
         <div
           className={css({
@@ -204,33 +440,42 @@ export function ArticleCard({ article, className }: ArticleCardProps) {
             flexDirection: { base: "column", sm: "row" },
             gap: { base: 1, sm: 2 },
             fontSize: { base: "xs", md: "sm" },
-            color: "gray.500",
+            color: "fg.subtle",
             mt: "auto",
             pt: 2,
             borderTop: "1px solid",
-            borderColor: "gray.100",
+            borderColor: "border.subtle",
           })}
         >
           <span
             className={css({
               fontWeight: "medium",
-              color: "gray.600",
+              color: "fg.muted",
               fontSize: { base: "xs", md: "sm" },
             })}
             title={`Source: ${article.news_site}`}
           >
             {article.news_site}
           </span>
-          <time
+          <FormattedDate
             className={css({
               fontSize: { base: "xs", md: "sm" },
-              color: "gray.500",
+              color: "fg.subtle",
             })}
             dateTime={article.published_at}
-            title={`Published: ${formatDate(article.published_at)}`}
-          >
-            {formatDate(article.published_at)}
-          </time>
+            format="relative"
+          />
+          {hasLaterUpdate(article) && (
+            <time
+              className={css({
+                fontSize: { base: "xs", md: "sm" },
+                color: "fg.subtle",
+              })}
+              dateTime={article.updated_at}
+            >
+              Updated {formatDate(article.updated_at)}
+            </time>
+          )}
         </div>
       </div>
     </article>
@@ -1,18 +1,34 @@
 import { css } from "styled-system/css";
-import type { SpaceflightArticle } from "~/types";
+import { useReducedMotion } from "~/hooks";
+import type { ContentType, SpaceflightArticle } from "~/types";
 import { ArticleCard } from "./ArticleCard";
+import { LoadMoreSentinel } from "./LoadMoreSentinel";
+import type { LoadMoreSentinelProps } from "./LoadMoreSentinel";
 
 interface ArticlesListProps {
   articles: SpaceflightArticle[];
+  contentType?: ContentType;
+  /** Content type per card, for lists that mix articles, blogs and reports */
+  getContentType?: (article: SpaceflightArticle) => ContentType;
   searchTerm?: string;
+  /** Total number of matches on the server; defaults to the articles shown */
+  totalCount?: number;
   className?: string;
+  /** Enables infinite scrolling with a sentinel after the last card */
+  infiniteScroll?: Omit<LoadMoreSentinelProps, "loadedCount">;
 }
 
 export function ArticlesList({
   articles,
+  contentType = "articles",
+  getContentType,
   searchTerm,
+  totalCount,
   className,
+  infiniteScroll,
 }: ArticlesListProps) {
+  const resultCount = totalCount ?? articles.length;
+  const reducedMotion = useReducedMotion();
 
   if (articles.length === 0) {
     return null;
@@ -31,11 +47,11 @@ export function ArticlesList({
           <p
             className={css({
               fontSize: "sm",
-              color: "gray.600",
+              color: "fg.muted",
             })}
           >
-            Found {articles.length} article
-            {articles.length !== 1 ? "s" : ""}
+            Found {resultCount} article
+            {resultCount !== 1 ? "s" : ""}
             {searchTerm && ` matching "${searchTerm}"`}
           </p>
         </div>
@@ -74,16 +90,33 @@ export function ArticlesList({
         role="region"
         aria-label="Articles list"
       >
-        {articles.map((article, index) => (
-          <ArticleCard
-            key={article.id}
-            article={article}
-            className={css({
-              animation: `fadeInUp 0.3s ease-out ${index * 0.05}s both`,
-            })}
-          />
-        ))}
+        {articles.map((article, index) => {
+          const cardContentType = getContentType?.(article) ?? contentType;
+          return (
+            <ArticleCard
+              key={`${cardContentType}:${article.id}`}
+              article={article}
+              contentType={cardContentType}
+              className={
+                reducedMotion
+                  ? undefined
+                  : css({
+                      // Cap the stagger so cards appended by infinite scroll appear promptly
+                      animation: `fadeInUp 0.3s ease-out ${Math.min(index, 10) * 0.05}s both`,
+                    })
+              }
+            />
+          );
+        })}
       </div>
+
+      {infiniteScroll && (
+        <LoadMoreSentinel
+          {...infiniteScroll}
+          loadedCount={articles.length}
+          contentType={contentType}
+        />
+      )}
     </div>
   );
 }
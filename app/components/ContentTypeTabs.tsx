@@ -0,0 +1,55 @@
+import { css } from "styled-system/css";
+import type { ContentType } from "~/types";
+import { CONTENT_TYPE_LABELS } from "~/utils";
+
+interface ContentTypeTabsProps {
+  active: ContentType;
+  getTabHref: (contentType: ContentType) => string;
+  className?: string;
+}
+
+export function ContentTypeTabs({
+  active,
+  getTabHref,
+  className,
+}: ContentTypeTabsProps) {
+  return (
+    <nav
+      aria-label="Content type"
+      className={`${css({
+        display: "flex",
+        gap: "6",
+      })} ${className || ""}`}
+    >
+      {(Object.keys(CONTENT_TYPE_LABELS) as ContentType[]).map(
+        (contentType) => (
+          <a
+            key={contentType}
+            href={getTabHref(contentType)}
+            aria-current={contentType === active ? "page" : undefined}
+            className={css({
+              paddingY: "3",
+              fontSize: "sm",
+              fontWeight: "medium",
+              borderBottom: "2px solid",
+              borderColor: contentType === active ? "blue.600" : "transparent",
+              color: contentType === active ? "fg.accentEmphasis" : "fg.muted",
+              transition: "all 0.2s",
+              _hover: {
+                color: "fg.default",
+                textDecoration: "none",
+              },
+              _focus: {
+                outline: "2px solid",
+                outlineColor: "blue.500",
+                outlineOffset: "2px",
+              },
+            })}
+          >
+            {CONTENT_TYPE_LABELS[contentType].plural}
+          </a>
+        ),
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,67 @@
+import { css } from "styled-system/css";
+import { useDateFormat } from "~/hooks";
+import type { DateDisplay, TimestampStyle } from "~/types";
+import { PreferenceToggle } from "./PreferenceToggle";
+
+const DISPLAY_LABELS: Record<DateDisplay, string> = {
+  local: "Local",
+  iso: "ISO (UTC)",
+};
+
+const TIMESTAMP_LABELS: Record<TimestampStyle, string> = {
+  relative: "Relative",
+  absolute: "Absolute",
+};
+
+/**
+ * Date display and timestamp style switches for the footer. It renders
+ * nothing outside DateFormatProvider.
+ */
+export function DateFormatSettings() {
+  const dateFormat = useDateFormat();
+
+  if (!dateFormat) return null;
+
+  const settingStyles = css({
+    display: "flex",
+    alignItems: "center",
+    gap: "2",
+  });
+
+  return (
+    <div
+      className={css({
+        display: "flex",
+        flexWrap: "wrap",
+        justifyContent: "center",
+        gap: "6",
+        marginBottom: "6",
+        fontSize: "sm",
+        color: "fg.muted",
+      })}
+    >
+      <div className={settingStyles}>
+        <span aria-hidden="true">Dates</span>
+        <PreferenceToggle
+          label="Dates"
+          action="/date-format"
+          name="display"
+          options={DISPLAY_LABELS}
+          value={dateFormat.display}
+          onChange={(display) => dateFormat.setDateFormat({ display })}
+        />
+      </div>
+      <div className={settingStyles}>
+        <span aria-hidden="true">Timestamps</span>
+        <PreferenceToggle
+          label="Timestamps"
+          action="/date-format"
+          name="timestamps"
+          options={TIMESTAMP_LABELS}
+          value={dateFormat.timestamps}
+          onChange={(timestamps) => dateFormat.setDateFormat({ timestamps })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { css } from "styled-system/css";
+import type { ArticleFilters, DateRangePreset } from "~/types";
+
+export type DateRangeValue = Pick<
+  ArticleFilters,
+  "datePreset" | "publishedFrom" | "publishedTo"
+>;
+
+interface DateRangeFilterProps {
+  value: DateRangeValue;
+  onChange: (value: DateRangeValue) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const PRESET_LABELS: Record<DateRangePreset, string> = {
+  "24h": "24h",
+  "7d": "7 days",
+  "30d": "30 days",
+};
+
+const PRESET_DESCRIPTIONS: Record<DateRangePreset, string> = {
+  "24h": "Show articles from the last 24 hours",
+  "7d": "Show articles from the last 7 days",
+  "30d": "Show articles from the last 30 days",
+};
+
+export function DateRangeFilter({
+  value,
+  onChange,
+  disabled = false,
+  className,
+}: DateRangeFilterProps) {
+  const { datePreset, publishedFrom, publishedTo } = value;
+  const hasRange = Boolean(datePreset || publishedFrom || publishedTo);
+
+  const chipBaseStyles = css({
+    paddingX: "3",
+    paddingY: "1",
+    fontSize: "sm",
+    fontWeight: "medium",
+    border: "1px solid",
+    borderRadius: "full",
+    transition: "all 0.2s",
+    cursor: "pointer",
+    _focus: {
+      outline: "none",
+      ring: "2",
+      ringOffset: "2",
+      ringColor: "blue.500",
+    },
+    _disabled: {
+      opacity: "0.6",
+      cursor: "not-allowed",
+    },
+  });
+
+  const activeChipStyles = css({
+    color: "white",
+    backgroundColor: "blue.600",
+    borderColor: "blue.600",
+  });
+
+  const inactiveChipStyles = css({
+    color: "fg.body",
+    backgroundColor: "bg.surface",
+    borderColor: "border.strong",
+    _hover: {
+      backgroundColor: "bg.canvas",
+    },
+  });
+
+  const dateInputStyles = css({
+    paddingX: "2",
+    paddingY: "1",
+    fontSize: "sm",
+    color: "fg.body",
+    backgroundColor: "bg.surface",
+    border: "1px solid",
+    borderColor: "border.strong",
+    borderRadius: "md",
+    _focus: {
+      outline: "none",
+      ring: "2",
+      ringColor: "blue.500",
+    },
+  });
+
+  const labelStyles = css({
+    display: "flex",
+    alignItems: "center",
+    gap: "1",
+    fontSize: "sm",
+    color: "fg.body",
+  });
+
+  const handlePresetClick = (preset: DateRangePreset) => {
+    // Clicking the active preset turns it off again
+    onChange(preset === datePreset ? {} : { datePreset: preset });
+  };
+
+  return (
+    <div
+      role="group"
+      aria-label="Filter by publication date"
+      className={`${css({
+        display: "flex",
+        flexWrap: "wrap",
+        gap: "2",
+        alignItems: "center",
+      })} ${className || ""}`}
+    >
+      {(Object.keys(PRESET_LABELS) as DateRangePreset[]).map((preset) => (
+        <button
+          key={preset}
+          type="button"
+          onClick={() => handlePresetClick(preset)}
+          disabled={disabled}
+          aria-pressed={datePreset === preset}
+          aria-label={PRESET_DESCRIPTIONS[preset]}
+          className={`${chipBaseStyles} ${
+            datePreset === preset ? activeChipStyles : inactiveChipStyles
+          }`}
+        >
+          {PRESET_LABELS[preset]}
+        </button>
+      ))}
+
+      <label className={labelStyles}>
+        From
+        <input
+          type="date"
+          name="from"
+          value={publishedFrom ?? ""}
+          max={publishedTo}
+          disabled={disabled}
+          onChange={(event) =>
+            onChange({
+              publishedFrom: event.target.value || undefined,
+              publishedTo,
+            })
+          }
+          className={dateInputStyles}
+        />
+      </label>
+
+      <label className={labelStyles}>
+        To
+        <input
+          type="date"
+          name="to"
+          value={publishedTo ?? ""}
+          min={publishedFrom}
+          disabled={disabled}
+          onChange={(event) =>
+            onChange({
+              publishedFrom,
+              publishedTo: event.target.value || undefined,
+            })
+          }
+          className={dateInputStyles}
+        />
+      </label>
+
+      {hasRange && (
+        <button
+          type="button"
+          onClick={() => onChange({})}
+          disabled={disabled}
+          className={css({
+            fontSize: "sm",
+            color: "fg.accent",
+            cursor: "pointer",
+            _hover: {
+              textDecoration: "underline",
+            },
+          })}
+        >
+          Any time
+        </button>
+      )}
+    </div>
+  );
+}
@@ -38,7 +38,7 @@ export function EmptyState({
           className={css({
             height: { base: "12", md: "16" },
             width: { base: "12", md: "16" },
-            color: "gray.400",
+            color: "fg.faint",
           })}
           fill="none"
           stroke="currentColor"
@@ -59,7 +59,7 @@ export function EmptyState({
         className={css({
           fontSize: { base: "lg", md: "xl" },
           fontWeight: "semibold",
-          color: "gray.900",
+          color: "fg.default",
           marginBottom: "2",
         })}
       >
@@ -70,7 +70,7 @@ export function EmptyState({
       <p
         className={css({
           fontSize: { base: "sm", md: "base" },
-          color: "gray.500",
+          color: "fg.subtle",
           maxWidth: "md",
           lineHeight: "relaxed",
           marginBottom: action ? "6" : "0",
@@ -89,16 +89,16 @@ export function EmptyState({
             paddingY: "2",
             fontSize: "sm",
             fontWeight: "medium",
-            color: "blue.600",
-            backgroundColor: "white",
+            color: "fg.accent",
+            backgroundColor: "bg.surface",
             border: "1px solid",
             borderColor: "blue.600",
             borderRadius: "md",
             transition: "all 0.2s",
             _hover: {
-              backgroundColor: "blue.50",
+              backgroundColor: "bg.accent",
               borderColor: "blue.700",
-              color: "blue.700",
+              color: "fg.accentEmphasis",
             },
             _focus: {
               outline: "none",
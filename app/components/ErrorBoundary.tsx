@@ -39,20 +39,20 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
           className={css({
             maxWidth: "md",
             width: "full",
-            backgroundColor: "white",
+            backgroundColor: "bg.surface",
             boxShadow: "lg",
             borderRadius: "lg",
             padding: "8",
             textAlign: "center",
             border: "1px solid",
-            borderColor: "red.200",
+            borderColor: "border.danger",
           })}
         >
           <div
             className={css({
               width: "16",
               height: "16",
-              backgroundColor: "red.100",
+              backgroundColor: "bg.danger",
               borderRadius: "full",
               display: "flex",
               alignItems: "center",
@@ -65,7 +65,7 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
               className={css({
                 width: "8",
                 height: "8",
-                color: "red.600",
+                color: "fg.danger",
               })}
               fill="none"
               stroke="currentColor"
@@ -84,7 +84,7 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
             className={css({
               fontSize: "2xl",
               fontWeight: "bold",
-              color: "gray.900",
+              color: "fg.default",
               marginBottom: "2",
             })}
           >
@@ -93,7 +93,7 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
 
           <p
             className={css({
-              color: "gray.600",
+              color: "fg.muted",
               marginBottom: "6",
               fontSize: "lg",
             })}
@@ -139,8 +139,8 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
             <a
               href="/"
               className={css({
-                backgroundColor: "gray.100",
-                color: "gray.700",
+                backgroundColor: "bg.subtle",
+                color: "fg.body",
                 paddingX: "6",
                 paddingY: "2",
                 borderRadius: "md",
@@ -148,7 +148,7 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
                 transition: "colors",
                 textDecoration: "none",
                 _hover: {
-                  backgroundColor: "gray.200",
+                  backgroundColor: "bg.muted",
                 },
                 _focus: {
                   outline: "2px solid",
@@ -180,20 +180,20 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
         className={css({
           maxWidth: "md",
           width: "full",
-          backgroundColor: "white",
+          backgroundColor: "bg.surface",
           boxShadow: "lg",
           borderRadius: "lg",
           padding: "8",
           textAlign: "center",
           border: "1px solid",
-          borderColor: "red.200",
+          borderColor: "border.danger",
         })}
       >
         <div
           className={css({
             width: "16",
             height: "16",
-            backgroundColor: "red.100",
+            backgroundColor: "bg.danger",
             borderRadius: "full",
             display: "flex",
             alignItems: "center",
@@ -206,7 +206,7 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
             className={css({
               width: "8",
               height: "8",
-              color: "red.600",
+              color: "fg.danger",
             })}
             fill="none"
             stroke="currentColor"
@@ -225,7 +225,7 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
           className={css({
             fontSize: "2xl",
             fontWeight: "bold",
-            color: "gray.900",
+            color: "fg.default",
             marginBottom: "2",
           })}
         >
@@ -234,7 +234,7 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
 
         <p
           className={css({
-            color: "gray.600",
+            color: "fg.muted",
             marginBottom: "6",
             fontSize: "lg",
           })}
@@ -277,8 +277,8 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
           <a
             href="/"
             className={css({
-              backgroundColor: "gray.100",
-              color: "gray.700",
+              backgroundColor: "bg.subtle",
+              color: "fg.body",
               paddingX: "6",
               paddingY: "2",
               borderRadius: "md",
@@ -286,7 +286,7 @@ export function ErrorBoundary({ fallback: Fallback }: ErrorBoundaryProps = {}) {
               transition: "colors",
               textDecoration: "none",
               _hover: {
-                backgroundColor: "gray.200",
+                backgroundColor: "bg.muted",
               },
               _focus: {
                 outline: "2px solid",
@@ -316,9 +316,9 @@ export function ApiErrorFallback({
   return (
     <div
       className={css({
-        backgroundColor: "red.50",
+        backgroundColor: "bg.danger",
         border: "1px solid",
-        borderColor: "red.200",
+        borderColor: "border.danger",
         borderRadius: "lg",
         padding: "6",
         marginY: "8",
@@ -353,7 +353,7 @@ export function ApiErrorFallback({
           className={css({
             fontSize: "lg",
             fontWeight: "medium",
-            color: "red.800",
+            color: "fg.dangerStrong",
           })}
         >
           Failed to Load Articles
@@ -363,7 +363,7 @@ export function ApiErrorFallback({
       <p
         className={css({
           fontSize: "sm",
-          color: "red.700",
+          color: "fg.dangerEmphasis",
           marginBottom: "4",
         })}
       >
@@ -0,0 +1,77 @@
+import { css } from "styled-system/css";
+import type { FeedView } from "~/types";
+
+interface FeedViewToggleProps {
+  view: FeedView;
+  getViewHref: (view: FeedView) => string;
+  className?: string;
+}
+
+const VIEW_LABELS: Record<FeedView, string> = {
+  pages: "Pages",
+  scroll: "Infinite scroll",
+};
+
+export function FeedViewToggle({
+  view,
+  getViewHref,
+  className,
+}: FeedViewToggleProps) {
+  const linkBaseStyles = css({
+    paddingX: "3",
+    paddingY: "2",
+    fontSize: "sm",
+    fontWeight: "medium",
+    border: "1px solid",
+    borderRadius: "md",
+    transition: "all 0.2s",
+    _hover: {
+      textDecoration: "none",
+    },
+    _focus: {
+      outline: "none",
+      ring: "2",
+      ringOffset: "2",
+      ringColor: "blue.500",
+    },
+  });
+
+  const activeLinkStyles = css({
+    color: "white",
+    backgroundColor: "blue.600",
+    borderColor: "blue.600",
+  });
+
+  const inactiveLinkStyles = css({
+    color: "fg.body",
+    backgroundColor: "bg.surface",
+    borderColor: "border.strong",
+    _hover: {
+      backgroundColor: "bg.canvas",
+    },
+  });
+
+  return (
+    <nav
+      aria-label="Feed view"
+      className={`${css({
+        display: "flex",
+        gap: "2",
+        alignItems: "center",
+      })} ${className || ""}`}
+    >
+      {(Object.keys(VIEW_LABELS) as FeedView[]).map((option) => (
+        <a
+          key={option}
+          href={getViewHref(option)}
+          aria-current={option === view ? "page" : undefined}
+          className={`${linkBaseStyles} ${
+            option === view ? activeLinkStyles : inactiveLinkStyles
+          }`}
+        >
+          {VIEW_LABELS[option]}
+        </a>
+      ))}
+    </nav>
+  );
+}
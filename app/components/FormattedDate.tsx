@@ -0,0 +1,59 @@
+import { useDateFormat, useDateFormatter, useNow } from "~/hooks";
+import { DEFAULT_DATE_FORMAT } from "~/utils";
+
+interface FormattedDateProps {
+  /** ISO timestamp */
+  dateTime: string;
+  /**
+   * "date" for the long date, "time" for the time of day, "relative" for
+   * the time since, e.g. 12 minutes ago
+   */
+  format?: "date" | "time" | "relative";
+  className?: string;
+}
+
+/**
+ * A `<time>` element formatted with the reader's locale, time zone and
+ * display preference, so server and client render the same text
+ */
+export function FormattedDate({
+  dateTime,
+  format = "date",
+  className,
+}: FormattedDateProps) {
+  const { formatDate, formatTime } = useDateFormatter();
+
+  if (format === "relative") {
+    return <RelativeDate dateTime={dateTime} className={className} />;
+  }
+
+  return (
+    <time dateTime={dateTime} className={className}>
+      {format === "time" ? formatTime(dateTime) : formatDate(dateTime)}
+    </time>
+  );
+}
+
+/**
+ * Time since the date, kept current by the shared clock, with the date in
+ * its tooltip. Until hydration, when the reader picked absolute timestamps
+ * or in ISO display it shows the date instead.
+ */
+function RelativeDate({
+  dateTime,
+  className,
+}: Omit<FormattedDateProps, "format">) {
+  const { formatDate, formatRelative } = useDateFormatter();
+  const { display, timestamps } = useDateFormat() ?? DEFAULT_DATE_FORMAT;
+  const now = useNow();
+  const date = formatDate(dateTime);
+
+  const isRelative =
+    now !== null && display === "local" && timestamps === "relative";
+
+  return (
+    <time dateTime={dateTime} className={className} title={date}>
+      {isRelative ? formatRelative(dateTime, now) : date}
+    </time>
+  );
+}
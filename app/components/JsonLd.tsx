@@ -0,0 +1,19 @@
+import { serializeJsonLd } from "~/utils";
+import type { JsonLd as JsonLdData } from "~/utils";
+
+interface JsonLdProps {
+  data: JsonLdData;
+}
+
+/**
+ * A schema.org structured data script. Rendered by the page instead of
+ * through `meta`, which writes JSON-LD without escaping it.
+ */
+export function JsonLd({ data }: JsonLdProps) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }}
+    />
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from "react";
+import { css } from "styled-system/css";
+import { useIntersectionObserver } from "~/hooks";
+import type { ContentType } from "~/types";
+import { CONTENT_TYPE_LABELS } from "~/utils";
+
+export interface LoadMoreSentinelProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+  loadedCount: number;
+  totalCount: number;
+  /** Next page URL, followed when JavaScript is unavailable */
+  href: string;
+  error?: string | null;
+  /** Names the loaded items in the progress messages */
+  contentType?: ContentType;
+}
+
+export function LoadMoreSentinel({
+  hasMore,
+  isLoading,
+  onLoadMore,
+  loadedCount,
+  totalCount,
+  href,
+  error,
+  contentType = "articles",
+}: LoadMoreSentinelProps) {
+  const labels = CONTENT_TYPE_LABELS[contentType];
+
+  const { elementRef, isIntersecting } =
+    useIntersectionObserver<HTMLDivElement>({
+      threshold: 0,
+      rootMargin: "400px", // Start fetching well before the reader hits the end
+      triggerOnce: false,
+    });
+
+  // Decided after mount so server and client render the same fallback button
+  const [canObserve, setCanObserve] = useState(false);
+  useEffect(() => {
+    setCanObserve(typeof IntersectionObserver !== "undefined");
+  }, []);
+
+  const [announcement, setAnnouncement] = useState("");
+  const previousCount = useRef(loadedCount);
+  useEffect(() => {
+    const added = loadedCount - previousCount.current;
+    if (added > 0) {
+      const label = added !== 1 ? labels.plural : labels.singular;
+      setAnnouncement(
+        `Loaded ${added} more ${label.toLowerCase()}. Showing ${loadedCount} of ${totalCount}.`,
+      );
+    }
+    previousCount.current = loadedCount;
+  }, [loadedCount, totalCount, labels]);
+
+  useEffect(() => {
+    if (canObserve && isIntersecting && hasMore && !isLoading && !error) {
+      onLoadMore();
+    }
+  }, [canObserve, isIntersecting, hasMore, isLoading, error, onLoadMore]);
+
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    event.preventDefault();
+    onLoadMore();
+  };
+
+  return (
+    <div
+      className={css({
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        gap: "3",
+        marginTop: "8",
+      })}
+    >
+      {/* Always mounted so the observer can attach on first render */}
+      <div
+        ref={elementRef}
+        aria-hidden="true"
+        className={css({ height: "1px", width: "full" })}
+      />
+
+      <div role="status" aria-live="polite" className={css({ srOnly: true })}>
+        {announcement}
+      </div>
+
+      {error && (
+        <p
+          className={css({
+            fontSize: "sm",
+            color: "fg.dangerEmphasis",
+          })}
+        >
+          {error}
+        </p>
+      )}
+
+      {hasMore && isLoading && (
+        <p
+          className={css({
+            fontSize: "sm",
+            color: "fg.subtle",
+          })}
+        >
+          Loading more {labels.plural.toLowerCase()}…
+        </p>
+      )}
+
+      {hasMore && !isLoading && (!canObserve || error) && (
+        <a
+          href={href}
+          onClick={handleClick}
+          className={css({
+            paddingX: "4",
+            paddingY: "2",
+            fontSize: "sm",
+            fontWeight: "medium",
+            color: "fg.accent",
+            backgroundColor: "bg.surface",
+            border: "1px solid",
+            borderColor: "blue.600",
+            borderRadius: "md",
+            transition: "all 0.2s",
+            _hover: {
+              backgroundColor: "bg.accent",
+              textDecoration: "none",
+            },
+            _focus: {
+              outline: "none",
+              ring: "2",
+              ringOffset: "2",
+              ringColor: "blue.500",
+            },
+          })}
+        >
+          {error ? "Try again" : "Load more"}
+        </a>
+      )}
+
+      {!hasMore && loadedCount > 0 && (
+        <p
+          className={css({
+            fontSize: "sm",
+            color: "fg.subtle",
+          })}
+        >
+          You&apos;ve reached the end of the feed.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -21,12 +21,12 @@ export function LoadingSkeleton({ count = 6 }: LoadingSkeletonProps) {
         <div
           key={index}
           className={css({
-            backgroundColor: "white",
+            backgroundColor: "bg.surface",
             borderRadius: "lg",
             boxShadow: "sm",
             overflow: "hidden",
             border: "1px solid",
-            borderColor: "gray.200",
+            borderColor: "border.default",
             animation: "pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite",
           })}
         >
@@ -35,7 +35,7 @@ export function LoadingSkeleton({ count = 6 }: LoadingSkeletonProps) {
             className={css({
               width: "full",
               height: "48",
-              backgroundColor: "gray.200",
+              backgroundColor: "bg.muted",
             })}
           />
 
@@ -49,7 +49,7 @@ export function LoadingSkeleton({ count = 6 }: LoadingSkeletonProps) {
             <div
               className={css({
                 height: "6",
-                backgroundColor: "gray.200",
+                backgroundColor: "bg.muted",
                 borderRadius: "md",
                 marginBottom: "3",
               })}
@@ -57,7 +57,7 @@ export function LoadingSkeleton({ count = 6 }: LoadingSkeletonProps) {
             <div
               className={css({
                 height: "4",
-                backgroundColor: "gray.200",
+                backgroundColor: "bg.muted",
                 borderRadius: "md",
                 width: "3/4",
                 marginBottom: "4",
@@ -74,7 +74,7 @@ export function LoadingSkeleton({ count = 6 }: LoadingSkeletonProps) {
               <div
                 className={css({
                   height: "4",
-                  backgroundColor: "gray.200",
+                  backgroundColor: "bg.muted",
                   borderRadius: "md",
                   marginBottom: "2",
                 })}
@@ -82,7 +82,7 @@ export function LoadingSkeleton({ count = 6 }: LoadingSkeletonProps) {
               <div
                 className={css({
                   height: "4",
-                  backgroundColor: "gray.200",
+                  backgroundColor: "bg.muted",
                   borderRadius: "md",
                   width: "5/6",
                   marginBottom: "2",
@@ -91,7 +91,7 @@ export function LoadingSkeleton({ count = 6 }: LoadingSkeletonProps) {
               <div
                 className={css({
                   height: "4",
-                  backgroundColor: "gray.200",
+                  backgroundColor: "bg.muted",
                   borderRadius: "md",
                   width: "2/3",
                 })}
@@ -110,7 +110,7 @@ export function LoadingSkeleton({ count = 6 }: LoadingSkeletonProps) {
                 className={css({
                   height: "4",
                   width: "20",
-                  backgroundColor: "gray.200",
+                  backgroundColor: "bg.muted",
                   borderRadius: "md",
                 })}
               />
@@ -118,7 +118,7 @@ export function LoadingSkeleton({ count = 6 }: LoadingSkeletonProps) {
                 className={css({
                   height: "4",
                   width: "16",
-                  backgroundColor: "gray.200",
+                  backgroundColor: "bg.muted",
                   borderRadius: "md",
                 })}
               />
@@ -140,7 +140,7 @@ export function SearchBarSkeleton() {
         width: "full",
         maxWidth: "md",
         height: "10",
-        backgroundColor: "gray.200",
+        backgroundColor: "bg.muted",
         borderRadius: "md",
         animation: "pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite",
       })}
@@ -163,7 +163,7 @@ export function SortControlsSkeleton() {
         className={css({
           width: "20",
           height: "10",
-          backgroundColor: "gray.200",
+          backgroundColor: "bg.muted",
           borderRadius: "md",
           animation: "pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite",
         })}
@@ -172,7 +172,7 @@ export function SortControlsSkeleton() {
         className={css({
           width: "24",
           height: "10",
-          backgroundColor: "gray.200",
+          backgroundColor: "bg.muted",
           borderRadius: "md",
           animation: "pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite",
         })}
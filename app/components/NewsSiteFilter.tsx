@@ -0,0 +1,158 @@
+import { css } from "styled-system/css";
+import type { NewsSiteFacet } from "~/types";
+
+interface NewsSiteFilterProps {
+  facets: NewsSiteFacet[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function NewsSiteFilter({
+  facets,
+  selected,
+  onChange,
+  disabled = false,
+  className,
+}: NewsSiteFilterProps) {
+  // Sites with no matching articles can't narrow anything; keep the ones
+  // already selected so they can still be unchecked
+  const options: { name: string; count?: number }[] = facets.filter(
+    (facet) => facet.count > 0 || selected.includes(facet.name),
+  );
+  for (const name of selected) {
+    if (!options.some((option) => option.name === name)) {
+      options.push({ name });
+    }
+  }
+
+  if (options.length === 0) {
+    return null;
+  }
+
+  const handleToggle = (name: string) => {
+    if (disabled) return;
+    onChange(
+      selected.includes(name)
+        ? selected.filter((site) => site !== name)
+        : [...selected, name],
+    );
+  };
+
+  return (
+    <details
+      className={`${css({
+        position: "relative",
+      })} ${className || ""}`}
+    >
+      <summary
+        className={css({
+          display: "inline-flex",
+          alignItems: "center",
+          gap: "2",
+          paddingX: "4",
+          paddingY: "2",
+          fontSize: "sm",
+          fontWeight: "medium",
+          color: selected.length > 0 ? "white" : "fg.body",
+          backgroundColor: selected.length > 0 ? "blue.600" : "bg.surface",
+          border: "1px solid",
+          borderColor: selected.length > 0 ? "blue.600" : "border.strong",
+          borderRadius: "md",
+          cursor: "pointer",
+          listStyle: "none",
+          transition: "all 0.2s",
+          _focus: {
+            outline: "none",
+            ring: "2",
+            ringOffset: "2",
+            ringColor: "blue.500",
+          },
+        })}
+      >
+        Sources
+        {selected.length > 0 && (
+          <span aria-label={`${selected.length} selected`}>
+            ({selected.length})
+          </span>
+        )}
+      </summary>
+
+      <fieldset
+        disabled={disabled}
+        className={css({
+          position: "absolute",
+          zIndex: "10",
+          marginTop: "2",
+          width: "64",
+          maxHeight: "80",
+          overflowY: "auto",
+          padding: "3",
+          backgroundColor: "bg.surface",
+          border: "1px solid",
+          borderColor: "border.default",
+          borderRadius: "md",
+          boxShadow: "lg",
+        })}
+      >
+        <legend className={css({ srOnly: true })}>Filter by news site</legend>
+
+        <ul className={css({ listStyle: "none" })}>
+          {options.map(({ name, count }) => (
+            <li key={name}>
+              <label
+                className={css({
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "2",
+                  paddingY: "1",
+                  fontSize: "sm",
+                  color: "fg.body",
+                  cursor: "pointer",
+                })}
+              >
+                <input
+                  type="checkbox"
+                  name="news_site"
+                  value={name}
+                  checked={selected.includes(name)}
+                  onChange={() => handleToggle(name)}
+                />
+                <span className={css({ flex: "1" })}>{name}</span>
+                {count !== undefined && (
+                  <span
+                    className={css({
+                      fontSize: "xs",
+                      color: "fg.subtle",
+                    })}
+                  >
+                    {count.toLocaleString("en-US")}
+                  </span>
+                )}
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        {selected.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className={css({
+              marginTop: "2",
+              fontSize: "sm",
+              color: "fg.accent",
+              cursor: "pointer",
+              _hover: {
+                textDecoration: "underline",
+              },
+            })}
+          >
+            Clear sources
+          </button>
+        )}
+      </fieldset>
+    </details>
+  );
+}
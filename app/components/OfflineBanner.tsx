@@ -0,0 +1,42 @@
+import { css } from "styled-system/css";
+import { useOnlineStatus } from "~/hooks";
+import { FormattedDate } from "./FormattedDate";
+
+interface OfflineBannerProps {
+  /** ISO timestamp of when the shown data was loaded */
+  loadedAt: string;
+}
+
+/**
+ * Tells readers without a connection that the page is a cached copy, and
+ * how old it is
+ */
+export function OfflineBanner({ loadedAt }: OfflineBannerProps) {
+  const isOnline = useOnlineStatus();
+
+  if (isOnline) return null;
+
+  const loadedTime = new Date(loadedAt);
+
+  return (
+    <div
+      role="status"
+      className={css({
+        backgroundColor: "gray.800",
+        color: "white",
+        borderRadius: "lg",
+        padding: "4",
+        marginBottom: "8",
+        fontSize: "sm",
+      })}
+    >
+      Offline — showing saved copy
+      {!isNaN(loadedTime.getTime()) && (
+        <>
+          {" from "}
+          <FormattedDate dateTime={loadedAt} format="time" />
+        </>
+      )}
+    </div>
+  );
+}
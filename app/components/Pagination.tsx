@@ -0,0 +1,154 @@
+import { css } from "styled-system/css";
+import { getPageNumbers } from "~/utils";
+
+interface PaginationProps {
+  currentPage: number;
+  totalPages: number;
+  getPageHref: (page: number) => string;
+  className?: string;
+}
+
+export function Pagination({
+  currentPage,
+  totalPages,
+  getPageHref,
+  className,
+}: PaginationProps) {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  const hasPrevious = currentPage > 1;
+  const hasNext = currentPage < totalPages;
+
+  const linkBaseStyles = css({
+    display: "inline-flex",
+    alignItems: "center",
+    justifyContent: "center",
+    minWidth: "10",
+    paddingX: "3",
+    paddingY: "2",
+    fontSize: "sm",
+    fontWeight: "medium",
+    border: "1px solid",
+    borderRadius: "md",
+    transition: "all 0.2s",
+    _hover: {
+      textDecoration: "none",
+    },
+    _focus: {
+      outline: "none",
+      ring: "2",
+      ringOffset: "2",
+      ringColor: "blue.500",
+    },
+  });
+
+  const activeLinkStyles = css({
+    color: "white",
+    backgroundColor: "blue.600",
+    borderColor: "blue.600",
+  });
+
+  const inactiveLinkStyles = css({
+    color: "fg.body",
+    backgroundColor: "bg.surface",
+    borderColor: "border.strong",
+    _hover: {
+      backgroundColor: "bg.canvas",
+    },
+  });
+
+  const disabledStyles = css({
+    color: "fg.faint",
+    backgroundColor: "bg.canvas",
+    borderColor: "border.default",
+    cursor: "not-allowed",
+  });
+
+  // Plain anchors keep pagination working before hydration and without JavaScript
+  return (
+    <nav
+      aria-label="Pagination"
+      className={`${css({
+        display: "flex",
+        flexWrap: "wrap",
+        justifyContent: "center",
+        alignItems: "center",
+        gap: "2",
+        marginTop: "8",
+      })} ${className || ""}`}
+    >
+      {hasPrevious ? (
+        <a
+          href={getPageHref(currentPage - 1)}
+          rel="prev"
+          className={`${linkBaseStyles} ${inactiveLinkStyles}`}
+        >
+          ← Previous
+        </a>
+      ) : (
+        <span
+          aria-disabled="true"
+          className={`${linkBaseStyles} ${disabledStyles}`}
+        >
+          ← Previous
+        </span>
+      )}
+
+      <ol
+        className={css({
+          display: "flex",
+          gap: "2",
+          listStyle: "none",
+        })}
+      >
+        {getPageNumbers(currentPage, totalPages).map((page, index) =>
+          page === "ellipsis" ? (
+            <li
+              key={`ellipsis-${index}`}
+              aria-hidden="true"
+              className={css({
+                paddingX: "2",
+                paddingY: "2",
+                color: "fg.subtle",
+              })}
+            >
+              …
+            </li>
+          ) : (
+            <li key={page}>
+              <a
+                href={getPageHref(page)}
+                aria-current={page === currentPage ? "page" : undefined}
+                aria-label={`Page ${page}`}
+                className={`${linkBaseStyles} ${
+                  page === currentPage ? activeLinkStyles : inactiveLinkStyles
+                }`}
+              >
+                {page}
+              </a>
+            </li>
+          ),
+        )}
+      </ol>
+
+      {hasNext ? (
+        <a
+          href={getPageHref(currentPage + 1)}
+          rel="next"
+          className={`${linkBaseStyles} ${inactiveLinkStyles}`}
+        >
+          Next →
+        </a>
+      ) : (
+        <span
+          aria-disabled="true"
+          className={`${linkBaseStyles} ${disabledStyles}`}
+        >
+          Next →
+        </span>
+      )}
+    </nav>
+  );
+}
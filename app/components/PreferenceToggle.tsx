@@ -0,0 +1,99 @@
+import { useLocation } from "react-router";
+import { css } from "styled-system/css";
+
+interface PreferenceToggleProps<T extends string> {
+  /** Accessible name of the button group */
+  label: string;
+  /** Action route that stores the preference */
+  action: string;
+  /** Form field posted to the action */
+  name: string;
+  options: Record<T, string>;
+  value: T;
+  onChange: (value: T) => void;
+}
+
+const buttonBaseStyles = css({
+  paddingX: "2",
+  paddingY: "1",
+  fontSize: "xs",
+  fontWeight: "medium",
+  borderRadius: "sm",
+  cursor: "pointer",
+  transition: "all 0.2s",
+  _focusVisible: {
+    outline: "2px solid",
+    outlineColor: "blue.500",
+    outlineOffset: "1px",
+  },
+});
+
+const activeButtonStyles = css({
+  color: "white",
+  backgroundColor: "blue.600",
+});
+
+const inactiveButtonStyles = css({
+  color: "fg.body",
+  backgroundColor: "transparent",
+  _hover: {
+    backgroundColor: "bg.subtle",
+  },
+});
+
+/**
+ * Segmented buttons for a stored display preference. With JavaScript the
+ * click goes to onChange; without it the form posts and the action
+ * redirects back to this page.
+ */
+export function PreferenceToggle<T extends string>({
+  label,
+  action,
+  name,
+  options,
+  value,
+  onChange,
+}: PreferenceToggleProps<T>) {
+  const location = useLocation();
+
+  return (
+    <form method="post" action={action}>
+      <input
+        type="hidden"
+        name="redirectTo"
+        value={`${location.pathname}${location.search}`}
+      />
+      <div
+        role="group"
+        aria-label={label}
+        className={css({
+          display: "flex",
+          gap: "1",
+          padding: "0.5",
+          border: "1px solid",
+          borderColor: "border.strong",
+          borderRadius: "md",
+        })}
+      >
+        {(Object.keys(options) as T[]).map((option) => (
+          <button
+            key={option}
+            type="submit"
+            name={name}
+            value={option}
+            aria-pressed={option === value}
+            onClick={(event) => {
+              event.preventDefault();
+              onChange(option);
+            }}
+            className={`${buttonBaseStyles} ${
+              option === value ? activeButtonStyles : inactiveButtonStyles
+            }`}
+          >
+            {options[option]}
+          </button>
+        ))}
+      </div>
+    </form>
+  );
+}
@@ -4,6 +4,13 @@ import { css } from "styled-system/css";
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
+  /** Called when the search is submitted (Enter, Search button) or cleared */
+  onSubmit?: (value: string) => void;
+  /** Query param name used when the form submits without JavaScript */
+  name?: string;
+  /** Other query params the form keeps when it submits without JavaScript */
+  hiddenParams?: URLSearchParams;
+  label?: string;
   placeholder?: string;
   disabled?: boolean;
   className?: string;
@@ -12,6 +19,10 @@ interface SearchBarProps {
 export function SearchBar({
   value,
   onChange,
+  onSubmit,
+  name = "q",
+  hiddenParams,
+  label = "Search articles by title",
   placeholder = "Search articles...",
   disabled = false,
   className,
@@ -30,32 +41,38 @@ export function SearchBar({
     onChange(newValue); // Call onChange immediately for real-time search
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
     onChange(localValue);
+    onSubmit?.(localValue.trim());
   };
 
   const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
-    if (event.key === "Enter") {
-      handleSubmit();
-    } else if (event.key === "Escape") {
+    if (event.key === "Escape") {
       handleClear();
     }
   };
 
   const handleBlur = () => {
-    handleSubmit();
+    onChange(localValue);
   };
 
   const handleClear = () => {
     setLocalValue("");
     onChange("");
+    onSubmit?.("");
     if (inputRef.current) {
       inputRef.current.focus();
     }
   };
 
+  // A GET form keeps search usable (as ?q=) before hydration or without
+  // JavaScript; hidden inputs stop it from dropping the other filters
   return (
-    <div
+    <form
+      role="search"
+      method="get"
+      onSubmit={handleSubmit}
       className={`${css({
         position: "relative",
         width: "100%",
@@ -64,6 +81,16 @@ export function SearchBar({
         gap: "2",
       })} ${className || ""}`}
     >
+      {Array.from(hiddenParams ?? [])
+        .filter(([param]) => param !== name)
+        .map(([param, paramValue]) => (
+          <input
+            key={`${param}=${paramValue}`}
+            type="hidden"
+            name={param}
+            value={paramValue}
+          />
+        ))}
       <div className={css({ position: "relative", flex: "1" })}>
         {/* Search Icon */}
         <div
@@ -82,7 +109,7 @@ export function SearchBar({
             className={css({
               height: "5",
               width: "5",
-              color: disabled ? "gray.300" : "gray.400",
+              color: disabled ? "fg.disabled" : "fg.faint",
               transition: "color 0.2s",
             })}
             fill="none"
@@ -103,6 +130,7 @@ export function SearchBar({
         <input
           ref={inputRef}
           type="text"
+          name={name}
           value={localValue}
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
@@ -116,19 +144,19 @@ export function SearchBar({
             paddingRight: localValue ? "10" : "3",
             paddingY: "2",
             border: "1px solid",
-            borderColor: disabled ? "gray.200" : "gray.300",
+            borderColor: disabled ? "border.default" : "border.strong",
             borderRadius: "md",
             lineHeight: "1",
-            backgroundColor: disabled ? "gray.50" : "white",
+            backgroundColor: disabled ? "bg.canvas" : "bg.surface",
             fontSize: "sm",
             transition: "all 0.2s",
             _placeholder: {
-              color: disabled ? "gray.300" : "gray.500",
+              color: disabled ? "fg.disabled" : "fg.subtle",
             },
             _focus: {
               outline: "none",
               _placeholder: {
-                color: "gray.400",
+                color: "fg.faint",
               },
               ring: "2",
               ringColor: "blue.500",
@@ -139,7 +167,7 @@ export function SearchBar({
               cursor: "not-allowed",
             },
           })}
-          aria-label="Search articles by title"
+          aria-label={label}
           aria-describedby="search-help"
         />
 
@@ -156,13 +184,13 @@ export function SearchBar({
               paddingX: "3",
               display: "flex",
               alignItems: "center",
-              color: "gray.400",
+              color: "fg.faint",
               _hover: {
-                color: "gray.600",
+                color: "fg.muted",
               },
               _focus: {
                 outline: "none",
-                color: "gray.600",
+                color: "fg.muted",
                 ring: "2",
                 ringColor: "blue.500",
                 borderRadius: "sm",
@@ -191,19 +219,18 @@ export function SearchBar({
 
         {/* Screen reader help text */}
         <div id="search-help" className={css({ srOnly: true })}>
-          Search articles by title. Press Enter to search, Escape to clear.
+          {label}. Press Enter to search, Escape to clear.
         </div>
       </div>
 
       {/* Search Button */}
       <button
-        type="button"
-        onClick={handleSubmit}
+        type="submit"
         disabled={disabled}
         className={css({
           paddingX: "4",
           paddingY: "2",
-          backgroundColor: disabled ? "gray.300" : "blue.600",
+          backgroundColor: disabled ? "bg.emphasis" : "blue.600",
           color: "white",
           borderRadius: "md",
           fontSize: "sm",
@@ -211,7 +238,7 @@ export function SearchBar({
           transition: "all 0.2s",
           flexShrink: 0,
           _hover: {
-            backgroundColor: disabled ? "gray.300" : "blue.700",
+            backgroundColor: disabled ? "bg.emphasis" : "blue.700",
           },
           _focus: {
             outline: "none",
@@ -228,6 +255,6 @@ export function SearchBar({
       >
         Search
       </button>
-    </div>
+    </form>
   );
 }
@@ -0,0 +1,52 @@
+import { css } from "styled-system/css";
+import { AccessibilitySettings } from "./AccessibilitySettings";
+import { DateFormatSettings } from "./DateFormatSettings";
+
+export function SiteFooter() {
+  return (
+    <footer
+      className={css({
+        backgroundColor: "bg.surface",
+        borderTop: "1px solid",
+        borderColor: "border.default",
+        marginTop: "16",
+      })}
+    >
+      <div
+        className={css({
+          maxWidth: "7xl",
+          marginX: "auto",
+          paddingX: { base: "4", sm: "6", lg: "8" },
+          paddingY: "8",
+        })}
+      >
+        <AccessibilitySettings />
+        <DateFormatSettings />
+        <div
+          className={css({
+            textAlign: "center",
+            color: "fg.subtle",
+            fontSize: "sm",
+          })}
+        >
+          <p>
+            Powered by{" "}
+            <a
+              href="https://api.spaceflightnewsapi.net/"
+              target="_blank"
+              rel="noopener noreferrer"
+              className={css({
+                color: "fg.accent",
+                _hover: {
+                  color: "fg.accentStrong",
+                },
+              })}
+            >
+              Spaceflight News API
+            </a>
+          </p>
+        </div>
+      </div>
+    </footer>
+  );
+}
@@ -0,0 +1,110 @@
+import { css } from "styled-system/css";
+import { ThemeToggle } from "./ThemeToggle";
+
+interface SiteHeaderProps {
+  /**
+   * Element used for the site name. Pages that render their own top-level
+   * heading (e.g. article detail) should pass "p" to keep a single h1.
+   */
+  brandAs?: "h1" | "p";
+  tagline?: string;
+  /** Secondary navigation rendered below the brand row, e.g. content tabs */
+  children?: React.ReactNode;
+}
+
+export function SiteHeader({
+  brandAs: Brand = "h1",
+  tagline = "Latest space mission updates",
+  children,
+}: SiteHeaderProps) {
+  return (
+    <header
+      className={css({
+        backgroundColor: "bg.surface",
+        boxShadow: "sm",
+        borderBottom: "1px solid",
+        borderColor: "border.default",
+      })}
+    >
+      <div
+        className={css({
+          maxWidth: "7xl",
+          marginX: "auto",
+          paddingX: { base: "4", sm: "6", lg: "8" },
+        })}
+      >
+        <div
+          className={css({
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            height: "16",
+          })}
+        >
+          <div
+            className={css({
+              display: "flex",
+              alignItems: "center",
+            })}
+          >
+            <Brand
+              className={css({
+                fontSize: "2xl",
+                fontWeight: "bold",
+                color: "fg.default",
+                marginBottom: "0",
+              })}
+            >
+              <a
+                href="/"
+                className={css({
+                  color: "inherit",
+                  _hover: {
+                    textDecoration: "none",
+                  },
+                })}
+              >
+                🚀 Spaceflight News
+              </a>
+            </Brand>
+          </div>
+          <nav aria-label="Site">
+            <div
+              className={css({
+                marginLeft: "10",
+                display: "flex",
+                alignItems: "center",
+                gap: "4",
+              })}
+            >
+              <span
+                className={css({
+                  display: { base: "none", md: "inline" },
+                  color: "fg.subtle",
+                  fontSize: "sm",
+                })}
+              >
+                {tagline}
+              </span>
+              <a
+                href="/saved"
+                className={css({
+                  fontSize: "sm",
+                  fontWeight: "medium",
+                  color: "fg.accentEmphasis",
+                  _hover: {
+                    color: "fg.accentStrong",
+                  },
+                })}
+              >
+                ★ Saved
+              </a>
+              <ThemeToggle />
+            </div>
+          </nav>
+        </div>
+        {children}
+      </div>
+    </header>
+  );
+}
@@ -52,11 +52,11 @@ export function SortControls({
   });
 
   const inactiveButtonStyles = css({
-    color: "gray.700",
-    backgroundColor: "white",
-    borderColor: "gray.300",
+    color: "fg.body",
+    backgroundColor: "bg.surface",
+    borderColor: "border.strong",
     _hover: {
-      backgroundColor: "gray.50",
+      backgroundColor: "bg.canvas",
     },
   });
 
@@ -74,7 +74,7 @@ export function SortControls({
         className={css({
           fontSize: "sm",
           fontWeight: "medium",
-          color: "gray.700",
+          color: "fg.body",
           marginRight: "2",
           display: { base: "none", sm: "inline" },
         })}
@@ -0,0 +1,30 @@
+import { useTheme } from "~/hooks";
+import type { ThemePreference } from "~/types";
+import { PreferenceToggle } from "./PreferenceToggle";
+
+const THEME_LABELS: Record<ThemePreference, string> = {
+  light: "Light",
+  dark: "Dark",
+  system: "System",
+};
+
+/**
+ * Light/Dark/System switch for the site header. It renders nothing outside
+ * ThemeProvider.
+ */
+export function ThemeToggle() {
+  const themeControls = useTheme();
+
+  if (!themeControls) return null;
+
+  return (
+    <PreferenceToggle
+      label="Color theme"
+      action="/theme"
+      name="theme"
+      options={THEME_LABELS}
+      value={themeControls.theme}
+      onChange={themeControls.setTheme}
+    />
+  );
+}
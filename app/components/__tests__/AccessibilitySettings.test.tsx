@@ -0,0 +1,79 @@
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { createRoutesStub } from "react-router";
+import { describe, it, expect } from "vitest";
+import { AccessibilitySettings } from "../AccessibilitySettings";
+import { AccessibilityPreferencesProvider } from "~/hooks";
+import type { AccessibilityPreferences } from "~/types";
+
+function renderSettings(initial: AccessibilityPreferences) {
+  let accessibility = initial;
+  const submitted: Record<string, string>[] = [];
+
+  const Stub = createRoutesStub([
+    {
+      id: "root",
+      path: "/",
+      loader: () => ({ theme: "system", accessibility }),
+      HydrateFallback: () => null,
+      Component: () => (
+        <AccessibilityPreferencesProvider>
+          <AccessibilitySettings />
+        </AccessibilityPreferencesProvider>
+      ),
+    },
+    {
+      path: "/accessibility",
+      action: async ({ request }) => {
+        const fields = Object.fromEntries(await request.formData()) as Record<
+          string,
+          string
+        >;
+        submitted.push(fields);
+        accessibility = { ...accessibility, ...fields };
+        return accessibility;
+      },
+    },
+  ]);
+
+  render(<Stub initialEntries={["/"]} />);
+  return { submitted };
+}
+
+describe("AccessibilitySettings", () => {
+  it("renders nothing outside AccessibilityPreferencesProvider", () => {
+    const { container } = render(<AccessibilitySettings />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("shows the stored overrides", async () => {
+    renderSettings({ motion: "reduce", contrast: "system" });
+
+    const motion = await screen.findByRole("group", { name: "Motion" });
+    expect(motion.querySelector('[aria-pressed="true"]')).toHaveTextContent(
+      "Reduced",
+    );
+    expect(
+      screen
+        .getByRole("group", { name: "Contrast" })
+        .querySelector('[aria-pressed="true"]'),
+    ).toHaveTextContent("System");
+  });
+
+  it("saves one override at a time", async () => {
+    const { submitted } = renderSettings({
+      motion: "system",
+      contrast: "system",
+    });
+
+    fireEvent.click(await screen.findByRole("button", { name: "More" }));
+
+    await waitFor(() =>
+      expect(screen.getByRole("button", { name: "More" })).toHaveAttribute(
+        "aria-pressed",
+        "true",
+      ),
+    );
+    await waitFor(() => expect(submitted).toEqual([{ contrast: "more" }]));
+  });
+});
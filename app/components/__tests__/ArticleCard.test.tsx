@@ -1,7 +1,9 @@
 import { render, screen, fireEvent } from "@testing-library/react";
-import { vi, describe, it, expect, beforeEach } from "vitest";
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
 import { ArticleCard } from "../ArticleCard";
-import type { SpaceflightArticle } from "~/types";
+import { BookmarksProvider } from "~/hooks";
+import type { BookmarkStore } from "~/services/bookmark-store";
+import type { SavedArticle, SpaceflightArticle } from "~/types";
 
 // Mock window.open
 const mockWindowOpen = vi.fn();
@@ -106,6 +108,13 @@ describe("ArticleCard", () => {
       );
     });
 
+    it("links the title to the in-app article page", () => {
+      render(<ArticleCard article={mockArticle} />);
+
+      const titleLink = screen.getByRole("link", { name: mockArticle.title });
+      expect(titleLink).toHaveAttribute("href", `/articles/${mockArticle.id}`);
+    });
+
     it("does not open link when other keys are pressed", () => {
       render(<ArticleCard article={mockArticle} />);
 
@@ -117,6 +126,113 @@ describe("ArticleCard", () => {
     });
   });
 
+  describe("Content types", () => {
+    it("shows an article badge by default", () => {
+      render(<ArticleCard article={mockArticle} />);
+
+      expect(screen.getByText("Article")).toBeInTheDocument();
+    });
+
+    it("labels blogs and links them to the blog page", () => {
+      render(<ArticleCard article={mockArticle} contentType="blogs" />);
+
+      expect(screen.getByText("Blog")).toBeInTheDocument();
+      expect(
+        screen.getByRole("link", { name: mockArticle.title }),
+      ).toHaveAttribute("href", `/blogs/${mockArticle.id}`);
+    });
+
+    it("renders reports text-first without an image", () => {
+      render(
+        <ArticleCard
+          article={{ ...mockArticle, image_url: "" }}
+          contentType="reports"
+        />,
+      );
+
+      expect(screen.getByText("Report")).toBeInTheDocument();
+      expect(screen.queryByRole("button")).not.toBeInTheDocument();
+      expect(screen.getByText(mockArticle.summary)).toBeInTheDocument();
+    });
+  });
+
+  describe("Extended v4 fields", () => {
+    it("renders an author byline", () => {
+      render(
+        <ArticleCard
+          article={{
+            ...mockArticle,
+            authors: [{ name: "Jeff Foust" }, { name: "Marcia Smith" }],
+          }}
+        />,
+      );
+
+      expect(
+        screen.getByText("By Jeff Foust and Marcia Smith"),
+      ).toBeInTheDocument();
+    });
+
+    it("shows a ribbon for featured articles only", () => {
+      const { rerender } = render(<ArticleCard article={mockArticle} />);
+      expect(screen.queryByText("Featured")).not.toBeInTheDocument();
+
+      rerender(<ArticleCard article={{ ...mockArticle, featured: true }} />);
+      expect(screen.getByText("Featured")).toBeInTheDocument();
+    });
+
+    it("keeps the ribbon beside the badges on text-first cards", () => {
+      render(
+        <ArticleCard
+          article={{ ...mockArticle, featured: true }}
+          contentType="reports"
+        />,
+      );
+
+      // The image corner it covers on other cards holds the Save toggle here
+      expect(screen.getByText("Featured").parentElement).toBe(
+        screen.getByText("Report").parentElement,
+      );
+    });
+
+    it("shows when an article was updated after publishing", () => {
+      render(
+        <ArticleCard
+          article={{ ...mockArticle, updated_at: "2024-01-18T09:00:00Z" }}
+        />,
+      );
+
+      const updated = screen.getByText("Updated January 18, 2024");
+      expect(updated.tagName).toBe("TIME");
+      expect(updated).toHaveAttribute("dateTime", "2024-01-18T09:00:00Z");
+    });
+
+    it("links launch and event chips to their coverage", () => {
+      render(
+        <ArticleCard
+          article={{
+            ...mockArticle,
+            launches: [{ launch_id: "f059ef7a", provider: "Launch Library 2" }],
+            events: [{ event_id: 742, provider: "Launch Library 2" }],
+          }}
+          contentType="blogs"
+        />,
+      );
+
+      const chips = screen.getByRole("list", {
+        name: "Related launches and events",
+      });
+      expect(chips).toBeInTheDocument();
+      expect(screen.getByRole("link", { name: "🚀 Launch" })).toHaveAttribute(
+        "href",
+        "/?type=blogs&launch=f059ef7a",
+      );
+      expect(screen.getByRole("link", { name: "📅 Event" })).toHaveAttribute(
+        "href",
+        "/?type=blogs&event=742",
+      );
+    });
+  });
+
   describe("Accessibility", () => {
     it("has proper ARIA labels and roles", () => {
       render(<ArticleCard article={mockArticle} />);
@@ -184,4 +300,119 @@ describe("ArticleCard", () => {
       expect(summary.parentElement).toBeInTheDocument();
     });
   });
+
+  describe("Bookmarks", () => {
+    function createMemoryStore(initial: SavedArticle[] = []) {
+      const records = new Map(
+        initial.map((saved) => [
+          `${saved.contentType}:${saved.article.id}`,
+          saved,
+        ]),
+      );
+      const store: BookmarkStore = {
+        list: async () => [...records.values()],
+        put: async (saved) => {
+          saved.forEach((item) =>
+            records.set(`${item.contentType}:${item.article.id}`, item),
+          );
+        },
+        remove: async (key) => {
+          records.delete(key);
+        },
+      };
+      return { store, records };
+    }
+
+    it("does not offer saving outside a bookmarks provider", () => {
+      render(<ArticleCard article={mockArticle} />);
+
+      expect(
+        screen.queryByRole("button", { name: /save/i }),
+      ).not.toBeInTheDocument();
+    });
+
+    it("saves and removes a snapshot of the article", async () => {
+      const { store, records } = createMemoryStore();
+      render(
+        <BookmarksProvider store={store}>
+          <ArticleCard article={mockArticle} contentType="blogs" />
+        </BookmarksProvider>,
+      );
+
+      const toggle = await screen.findByRole("button", {
+        name: `Save "${mockArticle.title}" for later`,
+      });
+      expect(toggle).toHaveAttribute("aria-pressed", "false");
+
+      fireEvent.click(toggle);
+      expect(toggle).toHaveAttribute("aria-pressed", "true");
+      expect(toggle).toHaveTextContent("Saved");
+      await vi.waitFor(() =>
+        expect(records.get("blogs:1")?.article).toEqual(mockArticle),
+      );
+
+      fireEvent.click(toggle);
+      expect(toggle).toHaveAttribute("aria-pressed", "false");
+      await vi.waitFor(() => expect(records.size).toBe(0));
+    });
+
+    it("shows articles saved earlier as saved", async () => {
+      const { store } = createMemoryStore([
+        {
+          article: mockArticle,
+          contentType: "articles",
+          savedAt: "2024-02-01T00:00:00.000Z",
+        },
+      ]);
+      render(
+        <BookmarksProvider store={store}>
+          <ArticleCard article={mockArticle} />
+        </BookmarksProvider>,
+      );
+
+      expect(
+        await screen.findByRole("button", {
+          name: `Remove "${mockArticle.title}" from saved`,
+        }),
+      ).toHaveAttribute("aria-pressed", "true");
+    });
+  });
+
+  describe("Motion and contrast preferences", () => {
+    function mockMediaQueries(matchingQuery: string) {
+      Object.defineProperty(window, "matchMedia", {
+        configurable: true,
+        value: (query: string) => ({
+          matches: query === matchingQuery,
+          media: query,
+          addEventListener: () => {},
+          removeEventListener: () => {},
+        }),
+      });
+    }
+
+    afterEach(() => {
+      delete (window as { matchMedia?: unknown }).matchMedia;
+    });
+
+    it("slides cards in with full motion", () => {
+      render(<ArticleCard article={mockArticle} />);
+
+      expect(screen.getByRole("article").className).toMatch(/translateY/);
+    });
+
+    it("drops the slide and hover lift under reduced motion", () => {
+      mockMediaQueries("(prefers-reduced-motion: reduce)");
+      render(<ArticleCard article={mockArticle} />);
+
+      expect(screen.getByRole("article").className).not.toMatch(/translateY/);
+    });
+
+    it("draws a heavier card border under high contrast", () => {
+      mockMediaQueries("(prefers-contrast: more)");
+      render(<ArticleCard article={mockArticle} />);
+
+      expect(screen.getByRole("article").className).toMatch(/bd_2px_solid/);
+    });
+  });
 });
@@ -9,6 +9,16 @@ vi.mock("~/hooks", () => ({
     ref: { current: null },
     isIntersecting: true,
   }),
+  useBookmarks: () => null,
+  useReducedMotion: () => false,
+  useHighContrast: () => false,
+  useDateFormatter: () => ({
+    formatDate: (dateString: string) => dateString,
+    formatTime: (dateString: string) => dateString,
+    formatRelative: (dateString: string) => dateString,
+  }),
+  useDateFormat: () => null,
+  useNow: () => null,
 }));
 
 const mockArticles: SpaceflightArticle[] = [
@@ -84,6 +94,20 @@ describe("ArticlesList", () => {
       ).toBeInTheDocument();
     });
 
+    it("reports the server-side total when provided", () => {
+      render(
+        <ArticlesList
+          articles={mockArticles}
+          searchTerm="Artemis"
+          totalCount={134}
+        />,
+      );
+
+      expect(
+        screen.getByText(/Found 134 articles matching "Artemis"/),
+      ).toBeInTheDocument();
+    });
+
     it("returns null when no articles are provided", () => {
       const { container } = render(<ArticlesList articles={[]} />);
       expect(container.firstChild).toBeNull();
@@ -0,0 +1,40 @@
+import { render, screen } from "@testing-library/react";
+import { describe, it, expect } from "vitest";
+import { ContentTypeTabs } from "../ContentTypeTabs";
+import type { ContentType } from "~/types";
+
+const getTabHref = (contentType: ContentType) =>
+  contentType === "articles" ? "/" : `/?type=${contentType}`;
+
+describe("ContentTypeTabs", () => {
+  it("renders a link for each content type", () => {
+    render(<ContentTypeTabs active="articles" getTabHref={getTabHref} />);
+
+    const nav = screen.getByRole("navigation", { name: "Content type" });
+    expect(nav).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "Articles" })).toHaveAttribute(
+      "href",
+      "/",
+    );
+    expect(screen.getByRole("link", { name: "Blogs" })).toHaveAttribute(
+      "href",
+      "/?type=blogs",
+    );
+    expect(screen.getByRole("link", { name: "Reports" })).toHaveAttribute(
+      "href",
+      "/?type=reports",
+    );
+  });
+
+  it("marks the active tab as the current page", () => {
+    render(<ContentTypeTabs active="blogs" getTabHref={getTabHref} />);
+
+    expect(screen.getByRole("link", { name: "Blogs" })).toHaveAttribute(
+      "aria-current",
+      "page",
+    );
+    expect(screen.getByRole("link", { name: "Articles" })).not.toHaveAttribute(
+      "aria-current",
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { createRoutesStub } from "react-router";
+import { describe, it, expect } from "vitest";
+import { DateFormatSettings } from "../DateFormatSettings";
+import { DateFormatProvider } from "~/hooks";
+
+function renderSettings() {
+  let dateFormat = {
+    locale: "en-US",
+    timeZone: "Europe/Berlin",
+    display: "local",
+    timestamps: "relative",
+  };
+  const submitted: Record<string, string>[] = [];
+
+  const Stub = createRoutesStub([
+    {
+      id: "root",
+      path: "/",
+      loader: () => ({ dateFormat }),
+      HydrateFallback: () => null,
+      Component: () => (
+        <DateFormatProvider>
+          <DateFormatSettings />
+        </DateFormatProvider>
+      ),
+    },
+    {
+      path: "/date-format",
+      action: async ({ request }) => {
+        const fields = Object.fromEntries(await request.formData()) as Record<
+          string,
+          string
+        >;
+        submitted.push(fields);
+        dateFormat = { ...dateFormat, ...fields };
+        return dateFormat;
+      },
+    },
+  ]);
+
+  render(<Stub initialEntries={["/"]} />);
+  return { submitted };
+}
+
+describe("DateFormatSettings", () => {
+  it("renders nothing outside DateFormatProvider", () => {
+    const { container } = render(<DateFormatSettings />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("switches to ISO timestamps", async () => {
+    const { submitted } = renderSettings();
+
+    expect(
+      await screen.findByRole("button", { name: "Local" }),
+    ).toHaveAttribute("aria-pressed", "true");
+
+    fireEvent.click(screen.getByRole("button", { name: "ISO (UTC)" }));
+
+    await waitFor(() =>
+      expect(screen.getByRole("button", { name: "ISO (UTC)" })).toHaveAttribute(
+        "aria-pressed",
+        "true",
+      ),
+    );
+    await waitFor(() => expect(submitted).toEqual([{ display: "iso" }]));
+  });
+
+  it("switches to absolute timestamps", async () => {
+    const { submitted } = renderSettings();
+
+    fireEvent.click(await screen.findByRole("button", { name: "Absolute" }));
+
+    await waitFor(() =>
+      expect(
+        screen
+          .getByRole("group", { name: "Timestamps" })
+          .querySelector('[aria-pressed="true"]'),
+      ).toHaveTextContent("Absolute"),
+    );
+    await waitFor(() =>
+      expect(submitted).toEqual([{ timestamps: "absolute" }]),
+    );
+  });
+});
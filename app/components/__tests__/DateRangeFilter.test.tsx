@@ -0,0 +1,75 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, it, expect, vi } from "vitest";
+import { DateRangeFilter } from "../DateRangeFilter";
+
+describe("DateRangeFilter", () => {
+  it("renders preset chips and date inputs", () => {
+    render(<DateRangeFilter value={{}} onChange={vi.fn()} />);
+
+    expect(
+      screen.getByRole("group", { name: "Filter by publication date" }),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: /last 24 hours/i }),
+    ).toHaveAttribute("aria-pressed", "false");
+    expect(screen.getByLabelText("From")).toHaveValue("");
+    expect(screen.getByLabelText("To")).toHaveValue("");
+    expect(
+      screen.queryByRole("button", { name: "Any time" }),
+    ).not.toBeInTheDocument();
+  });
+
+  it("selects a preset and toggles it off again", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    const { rerender } = render(
+      <DateRangeFilter value={{}} onChange={onChange} />,
+    );
+
+    await user.click(screen.getByRole("button", { name: /last 7 days/i }));
+    expect(onChange).toHaveBeenLastCalledWith({ datePreset: "7d" });
+
+    rerender(
+      <DateRangeFilter value={{ datePreset: "7d" }} onChange={onChange} />,
+    );
+    const chip = screen.getByRole("button", { name: /last 7 days/i });
+    expect(chip).toHaveAttribute("aria-pressed", "true");
+
+    await user.click(chip);
+    expect(onChange).toHaveBeenLastCalledWith({});
+  });
+
+  it("replaces a preset with an explicit range", () => {
+    const onChange = vi.fn();
+    render(
+      <DateRangeFilter
+        value={{ datePreset: "30d", publishedTo: "2024-03-16" }}
+        onChange={onChange}
+      />,
+    );
+
+    fireEvent.change(screen.getByLabelText("From"), {
+      target: { value: "2024-03-10" },
+    });
+    expect(onChange).toHaveBeenCalledWith({
+      publishedFrom: "2024-03-10",
+      publishedTo: "2024-03-16",
+    });
+  });
+
+  it("clears the range", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(
+      <DateRangeFilter
+        value={{ publishedFrom: "2024-03-10" }}
+        onChange={onChange}
+      />,
+    );
+
+    expect(screen.getByLabelText("To")).toHaveAttribute("min", "2024-03-10");
+    await user.click(screen.getByRole("button", { name: "Any time" }));
+    expect(onChange).toHaveBeenCalledWith({});
+  });
+});
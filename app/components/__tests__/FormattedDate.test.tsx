@@ -0,0 +1,216 @@
+import { act, render, screen, waitFor } from "@testing-library/react";
+import { renderToString } from "react-dom/server";
+import { createRoutesStub } from "react-router";
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { FormattedDate } from "../FormattedDate";
+import { DateFormatProvider } from "~/hooks";
+import type { DateFormatSettings } from "~/types";
+
+const PUBLISHED_AT = "2024-01-15T23:30:00Z";
+
+const MINUTE_MS = 60 * 1000;
+
+function renderWithSettings(dateFormat: DateFormatSettings) {
+  const submitted: Record<string, string>[] = [];
+  let loads = 0;
+
+  const Stub = createRoutesStub([
+    {
+      id: "root",
+      path: "/",
+      loader: () => ({
+        loads: ++loads,
+        theme: "system",
+        accessibility: { motion: "system", contrast: "system" },
+        dateFormat,
+      }),
+      HydrateFallback: () => null,
+      Component: () => (
+        <DateFormatProvider>
+          <FormattedDate dateTime={PUBLISHED_AT} />
+          <FormattedDate dateTime={PUBLISHED_AT} format="time" />
+        </DateFormatProvider>
+      ),
+    },
+    {
+      path: "/date-format",
+      action: async ({ request }) => {
+        const fields = Object.fromEntries(await request.formData()) as Record<
+          string,
+          string
+        >;
+        submitted.push(fields);
+        // Slow enough for the pending submission to render, as it would
+        // over a network
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return { ...dateFormat, ...fields };
+      },
+    },
+  ]);
+
+  render(<Stub initialEntries={["/"]} />);
+  return { submitted, getLoads: () => loads };
+}
+
+describe("FormattedDate", () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it("uses en-US and UTC outside DateFormatProvider", () => {
+    render(<FormattedDate dateTime={PUBLISHED_AT} />);
+
+    const time = screen.getByText("January 15, 2024");
+    expect(time.tagName).toBe("TIME");
+    expect(time).toHaveAttribute("dateTime", PUBLISHED_AT);
+  });
+
+  it("uses the locale and time zone from the root loader", async () => {
+    renderWithSettings({
+      locale: "en-GB",
+      timeZone: "Asia/Tokyo",
+      display: "local",
+      timestamps: "relative",
+    });
+
+    expect(await screen.findByText("16 January 2024")).toBeInTheDocument();
+    expect(screen.getByText("08:30")).toBeInTheDocument();
+  });
+
+  it("shows ISO timestamps in UTC for the iso display", async () => {
+    renderWithSettings({
+      locale: "en-US",
+      timeZone: "Asia/Tokyo",
+      display: "iso",
+      timestamps: "relative",
+    });
+
+    expect(await screen.findByText("2024-01-15T23:30:00Z")).toBeInTheDocument();
+    expect(screen.getByText("23:30:00Z")).toBeInTheDocument();
+  });
+
+  it("stores the browser's time zone when none is known", async () => {
+    const { submitted } = renderWithSettings({
+      locale: "en-US",
+      timeZone: null,
+      display: "local",
+      timestamps: "relative",
+    });
+
+    await waitFor(() =>
+      expect(submitted).toEqual([
+        { timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone },
+      ]),
+    );
+  });
+
+  it("sends the time zone once even when the cookie is not kept", async () => {
+    // The stub's loader keeps answering with no time zone, like a browser
+    // that blocks cookies
+    const { submitted, getLoads } = renderWithSettings({
+      locale: "en-US",
+      timeZone: null,
+      display: "local",
+      timestamps: "relative",
+    });
+
+    await waitFor(() => expect(getLoads()).toBeGreaterThan(1));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(submitted).toHaveLength(1);
+  });
+
+  it("does not send the time zone again in the same session", async () => {
+    sessionStorage.setItem("date-format:time-zone-sent", "true");
+
+    const { submitted } = renderWithSettings({
+      locale: "en-US",
+      timeZone: null,
+      display: "local",
+      timestamps: "relative",
+    });
+
+    expect(await screen.findByText("January 15, 2024")).toBeInTheDocument();
+    expect(submitted).toEqual([]);
+  });
+});
+
+describe("FormattedDate relative format", () => {
+  function useClockAt(time: string) {
+    vi.useFakeTimers({ toFake: ["Date", "setInterval", "clearInterval"] });
+    vi.setSystemTime(new Date(time));
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shows the time since with the date in its tooltip", () => {
+    useClockAt("2024-01-16T00:02:00Z");
+
+    render(<FormattedDate dateTime={PUBLISHED_AT} format="relative" />);
+
+    const time = screen.getByText("32 minutes ago");
+    expect(time).toHaveAttribute("title", "January 15, 2024");
+  });
+
+  it("keeps every time current from one shared timer", () => {
+    useClockAt("2024-01-15T23:30:30Z");
+    const setIntervalSpy = vi.spyOn(globalThis, "setInterval");
+
+    render(
+      <>
+        <FormattedDate dateTime={PUBLISHED_AT} format="relative" />
+        <FormattedDate dateTime="2024-01-15T23:00:00Z" format="relative" />
+      </>,
+    );
+    expect(screen.getByText("now")).toBeInTheDocument();
+    expect(screen.getByText("30 minutes ago")).toBeInTheDocument();
+
+    act(() => {
+      vi.advanceTimersByTime(MINUTE_MS);
+    });
+
+    expect(screen.getByText("1 minute ago")).toBeInTheDocument();
+    expect(screen.getByText("31 minutes ago")).toBeInTheDocument();
+    expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("renders the date on the server", () => {
+    useClockAt("2024-01-16T00:02:00Z");
+
+    const html = renderToString(
+      <FormattedDate dateTime={PUBLISHED_AT} format="relative" />,
+    );
+
+    expect(html).toContain(">January 15, 2024</time>");
+  });
+
+  it("shows the date when the reader picked absolute timestamps", async () => {
+    useClockAt("2024-01-16T00:02:00Z");
+
+    const Stub = createRoutesStub([
+      {
+        id: "root",
+        path: "/",
+        loader: () => ({
+          dateFormat: {
+            locale: "de-DE",
+            timeZone: "Europe/Berlin",
+            display: "local",
+            timestamps: "absolute",
+          },
+        }),
+        HydrateFallback: () => null,
+        Component: () => (
+          <DateFormatProvider>
+            <FormattedDate dateTime={PUBLISHED_AT} format="relative" />
+          </DateFormatProvider>
+        ),
+      },
+    ]);
+    render(<Stub initialEntries={["/"]} />);
+
+    expect(await screen.findByText("16. Januar 2024")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,21 @@
+import { render } from "@testing-library/react";
+import { describe, it, expect } from "vitest";
+import { JsonLd } from "../JsonLd";
+
+describe("JsonLd", () => {
+  it("renders escaped structured data that parses back unchanged", () => {
+    const data = {
+      "@context": "https://schema.org",
+      "@type": "NewsArticle",
+      headline: "Starship <3 </script><b>",
+    };
+
+    const { container } = render(<JsonLd data={data} />);
+    const script = container.querySelector(
+      'script[type="application/ld+json"]',
+    );
+
+    expect(script?.innerHTML).not.toContain("</script>");
+    expect(JSON.parse(script?.textContent ?? "")).toEqual(data);
+  });
+});
@@ -0,0 +1,166 @@
+import { render, screen, act } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
+import { LoadMoreSentinel } from "../LoadMoreSentinel";
+
+const defaultProps = {
+  hasMore: true,
+  isLoading: false,
+  loadedCount: 20,
+  totalCount: 100,
+  href: "/?page=2&view=scroll",
+};
+
+describe("LoadMoreSentinel", () => {
+  describe("without IntersectionObserver", () => {
+    beforeEach(() => {
+      delete (globalThis as any).IntersectionObserver;
+    });
+
+    it("renders a Load more fallback linking to the next page", () => {
+      render(<LoadMoreSentinel {...defaultProps} onLoadMore={vi.fn()} />);
+
+      expect(screen.getByRole("link", { name: "Load more" })).toHaveAttribute(
+        "href",
+        "/?page=2&view=scroll",
+      );
+    });
+
+    it("loads more on click instead of navigating", async () => {
+      const user = userEvent.setup();
+      const onLoadMore = vi.fn();
+
+      render(<LoadMoreSentinel {...defaultProps} onLoadMore={onLoadMore} />);
+      await user.click(screen.getByRole("link", { name: "Load more" }));
+
+      expect(onLoadMore).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not load automatically", () => {
+      const onLoadMore = vi.fn();
+
+      render(<LoadMoreSentinel {...defaultProps} onLoadMore={onLoadMore} />);
+
+      expect(onLoadMore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("with IntersectionObserver", () => {
+    let triggerIntersection: (isIntersecting: boolean) => void;
+
+    beforeEach(() => {
+      (globalThis as any).IntersectionObserver = class {
+        constructor(callback: IntersectionObserverCallback) {
+          triggerIntersection = (isIntersecting) =>
+            callback(
+              [{ isIntersecting } as IntersectionObserverEntry],
+              this as unknown as IntersectionObserver,
+            );
+        }
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+      };
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).IntersectionObserver;
+    });
+
+    it("loads more when the sentinel scrolls into view", () => {
+      const onLoadMore = vi.fn();
+
+      render(<LoadMoreSentinel {...defaultProps} onLoadMore={onLoadMore} />);
+      act(() => triggerIntersection(true));
+
+      expect(onLoadMore).toHaveBeenCalled();
+      expect(
+        screen.queryByRole("link", { name: "Load more" }),
+      ).not.toBeInTheDocument();
+    });
+
+    it("does not load while a page is already loading", () => {
+      const onLoadMore = vi.fn();
+
+      render(
+        <LoadMoreSentinel
+          {...defaultProps}
+          isLoading
+          onLoadMore={onLoadMore}
+        />,
+      );
+      act(() => triggerIntersection(true));
+
+      expect(onLoadMore).not.toHaveBeenCalled();
+      expect(screen.getByText("Loading more articles…")).toBeInTheDocument();
+    });
+  });
+
+  it("announces newly loaded articles to screen readers", () => {
+    const { rerender } = render(
+      <LoadMoreSentinel {...defaultProps} onLoadMore={vi.fn()} />,
+    );
+
+    rerender(
+      <LoadMoreSentinel
+        {...defaultProps}
+        loadedCount={40}
+        onLoadMore={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Loaded 20 more articles. Showing 40 of 100.",
+    );
+  });
+
+  it("names the loaded items after the content type", () => {
+    const { rerender } = render(
+      <LoadMoreSentinel
+        {...defaultProps}
+        contentType="reports"
+        onLoadMore={vi.fn()}
+      />,
+    );
+
+    rerender(
+      <LoadMoreSentinel
+        {...defaultProps}
+        contentType="reports"
+        loadedCount={21}
+        onLoadMore={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Loaded 1 more report. Showing 21 of 100.",
+    );
+  });
+
+  it("shows the end of the feed when there is nothing more", () => {
+    render(
+      <LoadMoreSentinel
+        {...defaultProps}
+        hasMore={false}
+        onLoadMore={vi.fn()}
+      />,
+    );
+
+    expect(
+      screen.getByText("You've reached the end of the feed."),
+    ).toBeInTheDocument();
+  });
+
+  it("offers a retry when loading fails", () => {
+    render(
+      <LoadMoreSentinel
+        {...defaultProps}
+        error="Request timeout"
+        onLoadMore={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByText("Request timeout")).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "Try again" })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,88 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, it, expect, vi } from "vitest";
+import { NewsSiteFilter } from "../NewsSiteFilter";
+import type { NewsSiteFacet } from "~/types";
+
+const facets: NewsSiteFacet[] = [
+  { name: "ESA", count: 12 },
+  { name: "NASA", count: 1520 },
+  { name: "SpaceNews", count: 0 },
+];
+
+describe("NewsSiteFilter", () => {
+  it("lists news sites with their article counts", () => {
+    render(<NewsSiteFilter facets={facets} selected={[]} onChange={vi.fn()} />);
+
+    expect(screen.getByRole("checkbox", { name: /ESA/ })).not.toBeChecked();
+    expect(screen.getByText("1,520")).toBeInTheDocument();
+  });
+
+  it("hides sites without matching articles unless selected", () => {
+    const { rerender } = render(
+      <NewsSiteFilter facets={facets} selected={[]} onChange={vi.fn()} />,
+    );
+    expect(
+      screen.queryByRole("checkbox", { name: /SpaceNews/ }),
+    ).not.toBeInTheDocument();
+
+    rerender(
+      <NewsSiteFilter
+        facets={facets}
+        selected={["SpaceNews"]}
+        onChange={vi.fn()}
+      />,
+    );
+    expect(screen.getByRole("checkbox", { name: /SpaceNews/ })).toBeChecked();
+  });
+
+  it("adds and removes sites from the selection", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(
+      <NewsSiteFilter
+        facets={facets}
+        selected={["NASA"]}
+        onChange={onChange}
+      />,
+    );
+
+    await user.click(screen.getByRole("checkbox", { name: /ESA/ }));
+    expect(onChange).toHaveBeenLastCalledWith(["NASA", "ESA"]);
+
+    await user.click(screen.getByRole("checkbox", { name: /NASA/ }));
+    expect(onChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it("clears the selection", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(
+      <NewsSiteFilter
+        facets={facets}
+        selected={["NASA", "ESA"]}
+        onChange={onChange}
+      />,
+    );
+
+    expect(screen.getByText("(2)")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Clear sources" }));
+    expect(onChange).toHaveBeenCalledWith([]);
+  });
+
+  it("keeps selected sites visible when facets are unavailable", () => {
+    render(
+      <NewsSiteFilter facets={[]} selected={["NASA"]} onChange={vi.fn()} />,
+    );
+
+    expect(screen.getByRole("checkbox", { name: "NASA" })).toBeChecked();
+  });
+
+  it("renders nothing without facets or a selection", () => {
+    const { container } = render(
+      <NewsSiteFilter facets={[]} selected={[]} onChange={vi.fn()} />,
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
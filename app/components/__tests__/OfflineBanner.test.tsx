@@ -0,0 +1,58 @@
+import { act, render, screen } from "@testing-library/react";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { OfflineBanner } from "../OfflineBanner";
+
+function setOnline(online: boolean) {
+  vi.spyOn(navigator, "onLine", "get").mockReturnValue(online);
+}
+
+describe("OfflineBanner", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("renders nothing while online", () => {
+    setOnline(true);
+    render(<OfflineBanner loadedAt="2024-01-15T10:30:00.000Z" />);
+
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+  });
+
+  it("shows when the data was loaded while offline", () => {
+    setOnline(false);
+    render(<OfflineBanner loadedAt="2024-01-15T10:30:00.000Z" />);
+
+    const banner = screen.getByRole("status");
+    expect(banner).toHaveTextContent(/offline — showing saved copy from/i);
+    expect(banner.querySelector("time")).toHaveAttribute(
+      "dateTime",
+      "2024-01-15T10:30:00.000Z",
+    );
+  });
+
+  it("leaves out the time when loadedAt is not a date", () => {
+    setOnline(false);
+    render(<OfflineBanner loadedAt="not a date" />);
+
+    expect(screen.getByRole("status")).toHaveTextContent(
+      /^Offline — showing saved copy$/,
+    );
+  });
+
+  it("follows online and offline events", () => {
+    setOnline(true);
+    render(<OfflineBanner loadedAt="2024-01-15T10:30:00.000Z" />);
+
+    act(() => {
+      setOnline(false);
+      window.dispatchEvent(new Event("offline"));
+    });
+    expect(screen.getByRole("status")).toBeInTheDocument();
+
+    act(() => {
+      setOnline(true);
+      window.dispatchEvent(new Event("online"));
+    });
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+  });
+});
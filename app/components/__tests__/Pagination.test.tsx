@@ -0,0 +1,88 @@
+import { render, screen } from "@testing-library/react";
+import { describe, it, expect } from "vitest";
+import { Pagination } from "../Pagination";
+
+const getPageHref = (page: number) => `/?page=${page}`;
+
+describe("Pagination", () => {
+  it("renders nothing when there is a single page", () => {
+    const { container } = render(
+      <Pagination currentPage={1} totalPages={1} getPageHref={getPageHref} />,
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("renders previous and next links with real hrefs", () => {
+    render(
+      <Pagination currentPage={3} totalPages={5} getPageHref={getPageHref} />,
+    );
+
+    expect(screen.getByRole("link", { name: /previous/i })).toHaveAttribute(
+      "href",
+      "/?page=2",
+    );
+    expect(screen.getByRole("link", { name: /next/i })).toHaveAttribute(
+      "href",
+      "/?page=4",
+    );
+  });
+
+  it("marks the current page", () => {
+    render(
+      <Pagination currentPage={2} totalPages={3} getPageHref={getPageHref} />,
+    );
+
+    expect(screen.getByRole("link", { name: "Page 2" })).toHaveAttribute(
+      "aria-current",
+      "page",
+    );
+    expect(screen.getByRole("link", { name: "Page 1" })).not.toHaveAttribute(
+      "aria-current",
+    );
+  });
+
+  it("disables previous on the first page and next on the last page", () => {
+    const { rerender } = render(
+      <Pagination currentPage={1} totalPages={3} getPageHref={getPageHref} />,
+    );
+
+    expect(
+      screen.queryByRole("link", { name: /previous/i }),
+    ).not.toBeInTheDocument();
+    expect(screen.getByText(/previous/i)).toHaveAttribute(
+      "aria-disabled",
+      "true",
+    );
+
+    rerender(
+      <Pagination currentPage={3} totalPages={3} getPageHref={getPageHref} />,
+    );
+
+    expect(
+      screen.queryByRole("link", { name: /next/i }),
+    ).not.toBeInTheDocument();
+  });
+
+  it("collapses distant pages into an ellipsis", () => {
+    render(
+      <Pagination currentPage={5} totalPages={10} getPageHref={getPageHref} />,
+    );
+
+    const pageLinks = screen
+      .getAllByRole("link", { name: /^Page/ })
+      .map((link) => link.textContent);
+    expect(pageLinks).toEqual(["1", "4", "5", "6", "10"]);
+    expect(screen.getAllByText("…")).toHaveLength(2);
+  });
+
+  it("is exposed as a pagination landmark", () => {
+    render(
+      <Pagination currentPage={1} totalPages={2} getPageHref={getPageHref} />,
+    );
+
+    expect(
+      screen.getByRole("navigation", { name: "Pagination" }),
+    ).toBeInTheDocument();
+  });
+});
@@ -106,6 +106,77 @@ describe("SearchBar", () => {
     expect(onChange).toHaveBeenCalledWith("");
   });
 
+  it("calls onSubmit with the trimmed value when Enter is pressed", async () => {
+    const user = userEvent.setup();
+    const onSubmit = vi.fn();
+
+    render(<SearchBar {...defaultProps} onSubmit={onSubmit} />);
+
+    await user.type(screen.getByRole("textbox"), " Artemis {Enter}");
+
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(onSubmit).toHaveBeenCalledWith("Artemis");
+  });
+
+  it("calls onSubmit when the Search button is clicked", async () => {
+    const user = userEvent.setup();
+    const onSubmit = vi.fn();
+
+    render(
+      <SearchBar value="Starship" onChange={vi.fn()} onSubmit={onSubmit} />,
+    );
+
+    await user.click(screen.getByRole("button", { name: "Search articles" }));
+
+    expect(onSubmit).toHaveBeenCalledWith("Starship");
+  });
+
+  it("submits an empty search when cleared", async () => {
+    const user = userEvent.setup();
+    const onSubmit = vi.fn();
+
+    render(
+      <SearchBar value="Starship" onChange={vi.fn()} onSubmit={onSubmit} />,
+    );
+
+    await user.click(screen.getByLabelText("Clear search"));
+
+    expect(onSubmit).toHaveBeenCalledWith("");
+  });
+
+  it("renders as a GET search form with a named input", () => {
+    render(<SearchBar {...defaultProps} />);
+
+    const form = screen.getByRole("search");
+    expect(form).toHaveAttribute("method", "get");
+    expect(screen.getByRole("textbox")).toHaveAttribute("name", "q");
+  });
+
+  it("keeps the other filters in the GET form", () => {
+    render(
+      <SearchBar
+        {...defaultProps}
+        hiddenParams={
+          new URLSearchParams("type=blogs&news_site=NASA&range=7d&q=old")
+        }
+      />,
+    );
+
+    const form = screen.getByRole("search") as HTMLFormElement;
+    expect(Object.fromEntries(new FormData(form))).toEqual({
+      type: "blogs",
+      news_site: "NASA",
+      range: "7d",
+      q: "",
+    });
+  });
+
+  it("uses a custom label", () => {
+    render(<SearchBar {...defaultProps} label="Search saved articles" />);
+
+    expect(screen.getByLabelText("Search saved articles")).toBeInTheDocument();
+  });
+
   it("has proper accessibility attributes", () => {
     render(<SearchBar {...defaultProps} />);
 
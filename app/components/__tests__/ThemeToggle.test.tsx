@@ -0,0 +1,88 @@
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { createRoutesStub } from "react-router";
+import { describe, it, expect } from "vitest";
+import { ThemeToggle } from "../ThemeToggle";
+import { ThemeProvider } from "~/hooks";
+import type { ThemePreference } from "~/types";
+
+function renderToggle(initialTheme: ThemePreference) {
+  let theme = initialTheme;
+  const submitted: string[] = [];
+
+  const Stub = createRoutesStub([
+    {
+      id: "root",
+      path: "/",
+      loader: () => ({ theme }),
+      HydrateFallback: () => null,
+      Component: () => (
+        <ThemeProvider>
+          <ThemeToggle />
+        </ThemeProvider>
+      ),
+    },
+    {
+      path: "/theme",
+      action: async ({ request }) => {
+        const next = (await request.formData()).get("theme") as ThemePreference;
+        submitted.push(next);
+        theme = next;
+        return { theme };
+      },
+    },
+  ]);
+
+  render(<Stub initialEntries={["/"]} />);
+  return { submitted };
+}
+
+describe("ThemeToggle", () => {
+  it("renders nothing outside ThemeProvider", () => {
+    const { container } = render(<ThemeToggle />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("marks the current theme as pressed", async () => {
+    renderToggle("dark");
+
+    expect(await screen.findByRole("button", { name: "Dark" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+    expect(screen.getByRole("button", { name: "Light" })).toHaveAttribute(
+      "aria-pressed",
+      "false",
+    );
+    expect(screen.getByRole("group", { name: "Color theme" })).toBeVisible();
+  });
+
+  it("saves the picked theme and switches to it", async () => {
+    const { submitted } = renderToggle("system");
+
+    fireEvent.click(await screen.findByRole("button", { name: "Light" }));
+
+    await waitFor(() =>
+      expect(screen.getByRole("button", { name: "Light" })).toHaveAttribute(
+        "aria-pressed",
+        "true",
+      ),
+    );
+    await waitFor(() => expect(submitted).toEqual(["light"]));
+    expect(screen.getByRole("button", { name: "System" })).toHaveAttribute(
+      "aria-pressed",
+      "false",
+    );
+  });
+
+  it("posts back to the current page without JavaScript", async () => {
+    renderToggle("system");
+
+    await screen.findByRole("button", { name: "Light" });
+    const redirectTo = document.querySelector<HTMLInputElement>(
+      'input[name="redirectTo"]',
+    );
+    expect(redirectTo?.value).toBe("/");
+    expect(redirectTo?.form).toHaveAttribute("action", "/theme");
+  });
+});
@@ -3,6 +3,21 @@ export { ArticlesList } from "./ArticlesList";
 export { SearchBar } from "./SearchBar";
 export { EmptyState } from "./EmptyState";
 export { SortControls } from "./SortControls";
+export { NewsSiteFilter } from "./NewsSiteFilter";
+export { DateRangeFilter } from "./DateRangeFilter";
+export type { DateRangeValue } from "./DateRangeFilter";
+export { Pagination } from "./Pagination";
+export { FeedViewToggle } from "./FeedViewToggle";
+export { LoadMoreSentinel } from "./LoadMoreSentinel";
+export { SiteHeader } from "./SiteHeader";
+export { ThemeToggle } from "./ThemeToggle";
+export { ContentTypeTabs } from "./ContentTypeTabs";
+export { SiteFooter } from "./SiteFooter";
+export { AccessibilitySettings } from "./AccessibilitySettings";
+export { OfflineBanner } from "./OfflineBanner";
+export { FormattedDate } from "./FormattedDate";
+export { JsonLd } from "./JsonLd";
+export { DateFormatSettings } from "./DateFormatSettings";
 export {
   LoadingSkeleton,
   SearchBarSkeleton,
@@ -1 +1,24 @@
 export { useIntersectionObserver } from "./useIntersectionObserver";
+export { useInfiniteArticles } from "./useInfiniteArticles";
+export { useNewsSiteFacets } from "./useNewsSiteFacets";
+export { BookmarksProvider, useBookmarks } from "./useBookmarks";
+export type { BookmarksContextValue, BookmarksStatus } from "./useBookmarks";
+export { useOnlineStatus } from "./useOnlineStatus";
+export { useServiceWorker } from "./useServiceWorker";
+export { ThemeProvider, useTheme, useThemePreference } from "./useTheme";
+export type { ThemeContextValue } from "./useTheme";
+export {
+  AccessibilityPreferencesProvider,
+  useAccessibilityPreferences,
+  useAccessibilityPreferenceState,
+  useHighContrast,
+  useReducedMotion,
+} from "./useAccessibilityPreferences";
+export type { AccessibilityPreferencesContextValue } from "./useAccessibilityPreferences";
+export {
+  DateFormatProvider,
+  useDateFormat,
+  useDateFormatter,
+} from "./useDateFormat";
+export type { DateFormatContextValue, DateFormatter } from "./useDateFormat";
+export { useNow } from "./useNow";
@@ -0,0 +1,129 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useSyncExternalStore,
+} from "react";
+import { useFetcher, useRouteLoaderData } from "react-router";
+import {
+  DEFAULT_ACCESSIBILITY_PREFERENCES,
+  isContrastPreference,
+  isMotionPreference,
+} from "~/services/accessibility-preferences";
+import type { AccessibilityPreferences, RootLoaderData } from "~/types";
+import {
+  HIGH_CONTRAST_QUERY,
+  prefersHighContrast,
+  prefersReducedMotion,
+  REDUCED_MOTION_QUERY,
+} from "~/utils/accessibility-utils";
+
+export interface AccessibilityPreferencesContextValue extends AccessibilityPreferences {
+  setPreferences: (preferences: Partial<AccessibilityPreferences>) => void;
+}
+
+/** Shared so the document and the controls see the same pending submission */
+const ACCESSIBILITY_FETCHER_KEY = "accessibility";
+
+const AccessibilityPreferencesContext =
+  createContext<AccessibilityPreferencesContextValue | null>(null);
+
+function subscribeToMediaQuery(query: string) {
+  return (onChange: () => void) => {
+    if (!window.matchMedia) return () => {};
+
+    const mediaQueryList = window.matchMedia(query);
+    mediaQueryList.addEventListener("change", onChange);
+    return () => mediaQueryList.removeEventListener("change", onChange);
+  };
+}
+
+const subscribeToReducedMotion = subscribeToMediaQuery(REDUCED_MOTION_QUERY);
+const subscribeToHighContrast = subscribeToMediaQuery(HIGH_CONTRAST_QUERY);
+
+/**
+ * The overrides from the root loader, or the ones being saved while the
+ * request is in flight so the page switches straight away
+ */
+export function useAccessibilityPreferenceState(): AccessibilityPreferencesContextValue {
+  const rootData = useRouteLoaderData<RootLoaderData>("root");
+  const fetcher = useFetcher({ key: ACCESSIBILITY_FETCHER_KEY });
+  const { submit } = fetcher;
+
+  const stored = rootData?.accessibility ?? DEFAULT_ACCESSIBILITY_PREFERENCES;
+  const pendingMotion = fetcher.formData?.get("motion");
+  const pendingContrast = fetcher.formData?.get("contrast");
+  const motion = isMotionPreference(pendingMotion)
+    ? pendingMotion
+    : stored.motion;
+  const contrast = isContrastPreference(pendingContrast)
+    ? pendingContrast
+    : stored.contrast;
+
+  const setPreferences = useCallback(
+    (preferences: Partial<AccessibilityPreferences>) => {
+      submit(preferences, { method: "post", action: "/accessibility" });
+    },
+    [submit],
+  );
+
+  return useMemo(
+    () => ({ motion, contrast, setPreferences }),
+    [motion, contrast, setPreferences],
+  );
+}
+
+export function AccessibilityPreferencesProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const value = useAccessibilityPreferenceState();
+
+  return (
+    <AccessibilityPreferencesContext.Provider value={value}>
+      {children}
+    </AccessibilityPreferencesContext.Provider>
+  );
+}
+
+/**
+ * Motion and contrast controls, or null outside
+ * AccessibilityPreferencesProvider
+ */
+export function useAccessibilityPreferences(): AccessibilityPreferencesContextValue | null {
+  return useContext(AccessibilityPreferencesContext);
+}
+
+/**
+ * Whether to leave out decorative motion. Follows the OS setting unless the
+ * reader overrode it; the server render assumes full motion, and the CSS
+ * media query covers that first paint.
+ */
+export function useReducedMotion(): boolean {
+  const motion =
+    useContext(AccessibilityPreferencesContext)?.motion ?? "system";
+  const osReducedMotion = useSyncExternalStore(
+    subscribeToReducedMotion,
+    prefersReducedMotion,
+    () => false,
+  );
+
+  return motion === "system" ? osReducedMotion : motion === "reduce";
+}
+
+/**
+ * Whether to use the high-contrast styles, resolved the same way
+ */
+export function useHighContrast(): boolean {
+  const contrast =
+    useContext(AccessibilityPreferencesContext)?.contrast ?? "system";
+  const osHighContrast = useSyncExternalStore(
+    subscribeToHighContrast,
+    prefersHighContrast,
+    () => false,
+  );
+
+  return contrast === "system" ? osHighContrast : contrast === "more";
+}
@@ -0,0 +1,182 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import {
+  createBookmarkStore,
+  getBookmarkKey,
+  serializeBookmarks,
+} from "~/services/bookmark-store";
+import type { BookmarkStore } from "~/services/bookmark-store";
+import type { ContentType, SavedArticle, SpaceflightArticle } from "~/types";
+
+/**
+ * "loading" until the list has been read; "unavailable" when the browser
+ * has no usable IndexedDB (server rendering, private modes, tests)
+ */
+export type BookmarksStatus = "loading" | "ready" | "unavailable";
+
+export interface BookmarksContextValue {
+  status: BookmarksStatus;
+  /** Most recently saved first */
+  bookmarks: SavedArticle[];
+  isSaved: (contentType: ContentType, id: number) => boolean;
+  toggle: (article: SpaceflightArticle, contentType: ContentType) => void;
+  /**
+   * Adds bookmarks that are not saved yet, once each even if the list
+   * repeats one; resolves with how many
+   */
+  importBookmarks: (bookmarks: SavedArticle[]) => Promise<number>;
+  exportBookmarks: () => string;
+}
+
+const BookmarksContext = createContext<BookmarksContextValue | null>(null);
+
+interface BookmarksProviderProps {
+  children: React.ReactNode;
+  /** Defaults to IndexedDB where the browser has it */
+  store?: BookmarkStore | null;
+}
+
+function byNewestSaved(a: SavedArticle, b: SavedArticle): number {
+  return Date.parse(b.savedAt) - Date.parse(a.savedAt);
+}
+
+/**
+ * Holds the read-later list for every bookmark toggle on the page. The list
+ * is read once after hydration, so server and client render the same
+ * markup first.
+ */
+export function BookmarksProvider({
+  children,
+  store: storeProp,
+}: BookmarksProviderProps) {
+  const [store] = useState<BookmarkStore | null>(() => {
+    if (storeProp !== undefined) return storeProp;
+    return typeof indexedDB === "undefined" ? null : createBookmarkStore();
+  });
+  const [status, setStatus] = useState<BookmarksStatus>("loading");
+  const [bookmarks, setBookmarks] = useState<SavedArticle[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!store) {
+      setStatus("unavailable");
+      return;
+    }
+
+    try {
+      setBookmarks((await store.list()).sort(byNewestSaved));
+      setStatus("ready");
+    } catch (error) {
+      console.error("Failed to read saved articles:", error);
+      setStatus("unavailable");
+    }
+  }, [store]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const savedKeys = useMemo(
+    () =>
+      new Set(
+        bookmarks.map(({ article, contentType }) =>
+          getBookmarkKey(contentType, article.id),
+        ),
+      ),
+    [bookmarks],
+  );
+
+  const isSaved = useCallback(
+    (contentType: ContentType, id: number) =>
+      savedKeys.has(getBookmarkKey(contentType, id)),
+    [savedKeys],
+  );
+
+  const toggle = useCallback(
+    (article: SpaceflightArticle, contentType: ContentType) => {
+      if (!store) return;
+
+      const key = getBookmarkKey(contentType, article.id);
+      // Update the UI straight away; a failed write restores the stored list
+      let write: Promise<void>;
+      if (savedKeys.has(key)) {
+        setBookmarks((current) =>
+          current.filter(
+            (saved) =>
+              getBookmarkKey(saved.contentType, saved.article.id) !== key,
+          ),
+        );
+        write = store.remove(key);
+      } else {
+        const saved: SavedArticle = {
+          article,
+          contentType,
+          savedAt: new Date().toISOString(),
+        };
+        setBookmarks((current) => [saved, ...current]);
+        write = store.put([saved]);
+      }
+
+      write.catch((error: unknown) => {
+        console.error("Failed to update saved articles:", error);
+        reload();
+      });
+    },
+    [store, savedKeys, reload],
+  );
+
+  const importBookmarks = useCallback(
+    async (imported: SavedArticle[]) => {
+      if (!store) throw new Error("Saved articles are not available");
+
+      // Keyed like the store, so the first copy of a repeated entry wins
+      const unsaved = new Map<string, SavedArticle>();
+      for (const saved of imported) {
+        const key = getBookmarkKey(saved.contentType, saved.article.id);
+        if (!savedKeys.has(key) && !unsaved.has(key)) {
+          unsaved.set(key, saved);
+        }
+      }
+      const added = [...unsaved.values()];
+      await store.put(added);
+      setBookmarks((current) => [...current, ...added].sort(byNewestSaved));
+      return added.length;
+    },
+    [store, savedKeys],
+  );
+
+  const exportBookmarks = useCallback(
+    () => serializeBookmarks(bookmarks),
+    [bookmarks],
+  );
+
+  const value = useMemo(
+    () => ({
+      status,
+      bookmarks,
+      isSaved,
+      toggle,
+      importBookmarks,
+      exportBookmarks,
+    }),
+    [status, bookmarks, isSaved, toggle, importBookmarks, exportBookmarks],
+  );
+
+  return (
+    <BookmarksContext.Provider value={value}>
+      {children}
+    </BookmarksContext.Provider>
+  );
+}
+
+/**
+ * The read-later list, or null outside a BookmarksProvider
+ */
+export function useBookmarks(): BookmarksContextValue | null {
+  return useContext(BookmarksContext);
+}
@@ -0,0 +1,160 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
+import { useFetcher, useRouteLoaderData } from "react-router";
+import {
+  isDateDisplay,
+  isTimestampStyle,
+  isTimeZone,
+} from "~/services/date-format";
+import type { DateFormatSettings, RootLoaderData } from "~/types";
+import {
+  DEFAULT_DATE_FORMAT,
+  formatPublishedDate,
+  formatRelativeTime,
+  formatTime,
+} from "~/utils";
+
+export interface DateFormatContextValue extends DateFormatSettings {
+  setDateFormat: (
+    settings: Partial<Omit<DateFormatSettings, "locale">>,
+  ) => void;
+}
+
+export interface DateFormatter {
+  /** Long date, e.g. January 15, 2024 */
+  formatDate: (dateString: string) => string;
+  /** Time of day, e.g. 10:30 AM */
+  formatTime: (dateString: string) => string;
+  /** Time since the date at `now`, e.g. 12 minutes ago */
+  formatRelative: (dateString: string, now: number) => string;
+}
+
+/** Shared so every consumer sees the same pending submission */
+const DATE_FORMAT_FETCHER_KEY = "date-format";
+
+/** Marks the detected time zone as sent for the rest of the session */
+const TIME_ZONE_SENT_KEY = "date-format:time-zone-sent";
+
+const DateFormatContext = createContext<DateFormatContextValue | null>(null);
+
+function wasTimeZoneSent(): boolean {
+  try {
+    return sessionStorage.getItem(TIME_ZONE_SENT_KEY) !== null;
+  } catch {
+    return false;
+  }
+}
+
+function rememberTimeZoneSent() {
+  try {
+    sessionStorage.setItem(TIME_ZONE_SENT_KEY, "true");
+  } catch {
+    // Storage is blocked; the provider's ref still covers this page load
+  }
+}
+
+function useDateFormatState(): DateFormatContextValue {
+  const rootData = useRouteLoaderData<RootLoaderData>("root");
+  const fetcher = useFetcher({ key: DATE_FORMAT_FETCHER_KEY });
+  const { submit } = fetcher;
+
+  const stored = rootData?.dateFormat ?? {
+    ...DEFAULT_DATE_FORMAT,
+    timeZone: null,
+  };
+  const pendingTimeZone = fetcher.formData?.get("timeZone");
+  const pendingDisplay = fetcher.formData?.get("display");
+  const pendingTimestamps = fetcher.formData?.get("timestamps");
+  const timeZone = isTimeZone(pendingTimeZone)
+    ? pendingTimeZone
+    : stored.timeZone;
+  const display = isDateDisplay(pendingDisplay)
+    ? pendingDisplay
+    : stored.display;
+  const timestamps = isTimestampStyle(pendingTimestamps)
+    ? pendingTimestamps
+    : stored.timestamps;
+
+  const setDateFormat = useCallback(
+    (settings: Partial<Omit<DateFormatSettings, "locale">>) => {
+      submit(settings, { method: "post", action: "/date-format" });
+    },
+    [submit],
+  );
+
+  return useMemo(
+    () => ({
+      locale: stored.locale,
+      timeZone,
+      display,
+      timestamps,
+      setDateFormat,
+    }),
+    [stored.locale, timeZone, display, timestamps, setDateFormat],
+  );
+}
+
+/**
+ * Holds the date settings from the root loader. The server cannot know the
+ * reader's time zone on a first visit, so both renders use UTC; once
+ * hydrated, the browser's zone is stored and dates switch to it. The zone is
+ * sent at most once a session, so a browser that drops the cookie does not
+ * post it again after every response.
+ */
+export function DateFormatProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const value = useDateFormatState();
+  const { timeZone, setDateFormat } = value;
+  const timeZoneSent = useRef(false);
+
+  useEffect(() => {
+    if (timeZone !== null || timeZoneSent.current || wasTimeZoneSent()) {
+      return;
+    }
+    timeZoneSent.current = true;
+    rememberTimeZoneSent();
+
+    const detected = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (isTimeZone(detected)) setDateFormat({ timeZone: detected });
+  }, [timeZone, setDateFormat]);
+
+  return (
+    <DateFormatContext.Provider value={value}>
+      {children}
+    </DateFormatContext.Provider>
+  );
+}
+
+/**
+ * Date settings and controls, or null outside DateFormatProvider
+ */
+export function useDateFormat(): DateFormatContextValue | null {
+  return useContext(DateFormatContext);
+}
+
+/**
+ * Formats dates with the reader's settings, or the defaults outside
+ * DateFormatProvider
+ */
+export function useDateFormatter(): DateFormatter {
+  const settings = useContext(DateFormatContext) ?? DEFAULT_DATE_FORMAT;
+
+  return useMemo(
+    () => ({
+      formatDate: (dateString) => formatPublishedDate(dateString, settings),
+      formatTime: (dateString) => formatTime(dateString, settings),
+      formatRelative: (dateString, now) =>
+        formatRelativeTime(dateString, settings, now),
+    }),
+    [settings],
+  );
+}
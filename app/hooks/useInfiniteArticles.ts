@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useFetcher } from "react-router";
+import type {
+  ArticlesLoaderData,
+  ServerError,
+  SpaceflightArticle,
+} from "~/types";
+
+interface UseInfiniteArticlesOptions {
+  /** Builds the resource route URL for the page starting at `offset` */
+  getPageUrl: (offset: number) => string;
+  /** Identifies the type, filters and sort the pages belong to */
+  queryKey: string;
+}
+
+function isServerError(
+  data: ArticlesLoaderData | ServerError,
+): data is ServerError {
+  return !("articles" in data);
+}
+
+/**
+ * Accumulates pages of articles fetched through a resource route on top of
+ * the route's own loader data. Resets whenever the loader data changes; a
+ * page requested for an earlier query key is dropped when it arrives.
+ */
+export function useInfiniteArticles(
+  initialData: ArticlesLoaderData,
+  { getPageUrl, queryKey }: UseInfiniteArticlesOptions,
+) {
+  const fetcher = useFetcher<ArticlesLoaderData | ServerError>();
+  // The query key of the page in flight, cleared once its result is handled
+  const loadingKey = useRef<string | null>(null);
+  const [articles, setArticles] = useState<SpaceflightArticle[]>(
+    initialData.articles,
+  );
+  const [meta, setMeta] = useState(initialData.meta);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setArticles(initialData.articles);
+    setMeta(initialData.meta);
+    setError(null);
+  }, [initialData]);
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+
+    const loadedKey = loadingKey.current;
+    loadingKey.current = null;
+    if (loadedKey !== queryKey) return;
+
+    // The resource route answers failures with a ServerError
+    if (isServerError(fetcher.data)) {
+      setError(fetcher.data.message);
+      return;
+    }
+
+    const { articles: nextArticles, meta: nextMeta, error } = fetcher.data;
+
+    if (error) {
+      setError(error);
+      return;
+    }
+
+    setArticles((current) => {
+      // Pages can shift while new articles are published; skip duplicates
+      const seen = new Set(current.map((article) => article.id));
+      return [
+        ...current,
+        ...nextArticles.filter((article) => !seen.has(article.id)),
+      ];
+    });
+    setMeta(nextMeta);
+    setError(null);
+  }, [fetcher.state, fetcher.data, queryKey]);
+
+  const isLoading = fetcher.state !== "idle";
+  const { load } = fetcher;
+
+  const loadMore = useCallback(() => {
+    if (isLoading || !meta.hasMore) return;
+    loadingKey.current = queryKey;
+    load(getPageUrl(meta.offset + meta.limit));
+  }, [isLoading, meta, load, getPageUrl, queryKey]);
+
+  return {
+    articles,
+    meta,
+    error,
+    isLoading,
+    loadMore,
+  };
+}
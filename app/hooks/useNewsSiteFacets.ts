@@ -0,0 +1,20 @@
+import { useEffect } from "react";
+import { useFetcher } from "react-router";
+import type { ContentType, NewsSiteFacet, NewsSiteFacetsData } from "~/types";
+
+/**
+ * Loads the news site counts for a content type through the
+ * /api/news-sites resource route once the page has rendered, so the counts
+ * never hold back the feed. Empty until they arrive or when they fail.
+ */
+export function useNewsSiteFacets(contentType: ContentType): NewsSiteFacet[] {
+  const fetcher = useFetcher<NewsSiteFacetsData>();
+  const { load } = fetcher;
+
+  useEffect(() => {
+    load(`/api/news-sites?type=${contentType}`);
+  }, [contentType, load]);
+
+  // Counts for the previous tab would be wrong while the next ones load
+  return fetcher.data?.contentType === contentType ? fetcher.data.facets : [];
+}
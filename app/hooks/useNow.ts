@@ -0,0 +1,46 @@
+import { useSyncExternalStore } from "react";
+
+/** Relative times are shown to the minute, so a tick a minute is enough */
+export const NOW_TICK_MS = 60 * 1000;
+
+const listeners = new Set<() => void>();
+let now = Date.now();
+let timer: ReturnType<typeof setInterval> | undefined;
+
+function tick() {
+  now = Date.now();
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Every subscriber shares one interval, which runs only while something
+ * on the page shows a live time
+ */
+function subscribe(onChange: () => void) {
+  listeners.add(onChange);
+  if (timer === undefined) {
+    now = Date.now();
+    timer = setInterval(tick, NOW_TICK_MS);
+  }
+
+  return () => {
+    listeners.delete(onChange);
+    if (listeners.size === 0) {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  };
+}
+
+/**
+ * The current time, refreshed every minute. It is null on the server and
+ * during hydration, so times that depend on it render as absolute dates
+ * first and markup only changes after hydration.
+ */
+export function useNow(): number | null {
+  return useSyncExternalStore(
+    subscribe,
+    () => now,
+    () => null,
+  );
+}
@@ -0,0 +1,19 @@
+import { useEffect } from "react";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+/**
+ * Registers the offline service worker in production builds. Development
+ * skips it so cached modules never shadow hot updates.
+ */
+export function useServiceWorker(enabled: boolean = import.meta.env.PROD) {
+  useEffect(() => {
+    if (!enabled || !("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .catch((error: unknown) => {
+        console.error("Service worker registration failed:", error);
+      });
+  }, [enabled]);
+}
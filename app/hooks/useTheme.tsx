@@ -0,0 +1,53 @@
+import { createContext, useCallback, useContext, useMemo } from "react";
+import { useFetcher, useRouteLoaderData } from "react-router";
+import { DEFAULT_THEME, isThemePreference } from "~/services/theme";
+import type { RootLoaderData, ThemePreference } from "~/types";
+
+export interface ThemeContextValue {
+  theme: ThemePreference;
+  setTheme: (theme: ThemePreference) => void;
+}
+
+/** Shared so the document and the toggle see the same pending submission */
+const THEME_FETCHER_KEY = "theme";
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+/**
+ * The theme from the root loader, or the one being saved while the request
+ * is in flight so the page switches straight away
+ */
+export function useThemePreference(): ThemeContextValue {
+  const rootData = useRouteLoaderData<RootLoaderData>("root");
+  const fetcher = useFetcher({ key: THEME_FETCHER_KEY });
+  const { submit } = fetcher;
+
+  const pending = fetcher.formData?.get("theme");
+  const theme = isThemePreference(pending)
+    ? pending
+    : (rootData?.theme ?? DEFAULT_THEME);
+
+  const setTheme = useCallback(
+    (next: ThemePreference) => {
+      submit({ theme: next }, { method: "post", action: "/theme" });
+    },
+    [submit],
+  );
+
+  return useMemo(() => ({ theme, setTheme }), [theme, setTheme]);
+}
+
+export function ThemeProvider({ children }: { children: React.ReactNode }) {
+  const value = useThemePreference();
+
+  return (
+    <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+  );
+}
+
+/**
+ * Theme controls, or null outside ThemeProvider
+ */
+export function useTheme(): ThemeContextValue | null {
+  return useContext(ThemeContext);
+}
@@ -7,13 +7,33 @@ import {
   useRouteError,
   isRouteErrorResponse,
 } from "react-router";
-import type { LinksFunction, MetaFunction } from "react-router";
+import type {
+  LinksFunction,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "react-router";
 import { css } from "styled-system/css";
 import SkipNav from "./components/SkipNav";
+import {
+  AccessibilityPreferencesProvider,
+  BookmarksProvider,
+  DateFormatProvider,
+  ThemeProvider,
+  useAccessibilityPreferenceState,
+  useServiceWorker,
+  useThemePreference,
+} from "./hooks";
+import { getAccessibilityPreferences } from "./services/accessibility-preferences";
+import { getDateFormatSettings } from "./services/date-format";
+import { getThemePreference } from "./services/theme";
+import type { RootLoaderData } from "./types";
 
 import "./index.css";
 
 export const links: LinksFunction = () => [
+  { rel: "manifest", href: "/manifest.webmanifest" },
+  // The tab keeps /favicon.ico; home screens need a square, opaque icon
+  { rel: "apple-touch-icon", href: "/apple-touch-icon.png" },
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
   {
     rel: "preconnect",
@@ -61,9 +81,28 @@ export const meta: MetaFunction = () => [
   },
 ];
 
+export async function loader({
+  request,
+}: LoaderFunctionArgs): Promise<RootLoaderData> {
+  return {
+    theme: await getThemePreference(request),
+    accessibility: await getAccessibilityPreferences(request),
+    dateFormat: await getDateFormatSettings(request),
+  };
+}
+
 export function Layout({ children }: { children: React.ReactNode }) {
+  // These come from cookies, so the server renders them without a flash
+  const { theme } = useThemePreference();
+  const { motion, contrast } = useAccessibilityPreferenceState();
+
   return (
-    <html lang="en">
+    <html
+      lang="en"
+      data-theme={theme}
+      data-motion={motion}
+      data-contrast={contrast}
+    >
       <head>
         <meta charSet="utf-8" />
         <meta
@@ -102,14 +141,14 @@ export function ErrorBoundary() {
               display: "flex",
               alignItems: "center",
               justifyContent: "center",
-              backgroundColor: "gray.50",
+              backgroundColor: "bg.canvas",
             })}
           >
             <div
               className={css({
                 maxWidth: "md",
                 width: "full",
-                backgroundColor: "white",
+                backgroundColor: "bg.surface",
                 boxShadow: "lg",
                 borderRadius: "lg",
                 padding: "6",
@@ -120,7 +159,7 @@ export function ErrorBoundary() {
                 className={css({
                   fontSize: "2xl",
                   fontWeight: "bold",
-                  color: "gray.900",
+                  color: "fg.default",
                   marginBottom: "4",
                 })}
               >
@@ -128,7 +167,7 @@ export function ErrorBoundary() {
               </h1>
               <p
                 className={css({
-                  color: "gray.600",
+                  color: "fg.muted",
                   marginBottom: "6",
                 })}
               >
@@ -175,14 +214,14 @@ export function ErrorBoundary() {
             display: "flex",
             alignItems: "center",
             justifyContent: "center",
-            backgroundColor: "gray.50",
+            backgroundColor: "bg.canvas",
           })}
         >
           <div
             className={css({
               maxWidth: "md",
               width: "full",
-              backgroundColor: "white",
+              backgroundColor: "bg.surface",
               boxShadow: "lg",
               borderRadius: "lg",
               padding: "6",
@@ -193,7 +232,7 @@ export function ErrorBoundary() {
               className={css({
                 fontSize: "2xl",
                 fontWeight: "bold",
-                color: "gray.900",
+                color: "fg.default",
                 marginBottom: "4",
               })}
             >
@@ -201,7 +240,7 @@ export function ErrorBoundary() {
             </h1>
             <p
               className={css({
-                color: "gray.600",
+                color: "fg.muted",
                 marginBottom: "6",
               })}
             >
@@ -234,5 +273,17 @@ export function ErrorBoundary() {
 }
 
 export default function App() {
-  return <Outlet />;
+  useServiceWorker();
+
+  return (
+    <ThemeProvider>
+      <AccessibilityPreferencesProvider>
+        <DateFormatProvider>
+          <BookmarksProvider>
+            <Outlet />
+          </BookmarksProvider>
+        </DateFormatProvider>
+      </AccessibilityPreferencesProvider>
+    </ThemeProvider>
+  );
 }
@@ -1,6 +1,24 @@
 import type { RouteConfig } from "@react-router/dev/routes";
-import { index } from "@react-router/dev/routes";
+import { index, route } from "@react-router/dev/routes";
 
 export default [
   index("routes/_index.tsx"),
+  route("articles/:id", "routes/articles.$id.tsx"),
+  // Blogs and reports share the article detail page
+  route("blogs/:id", "routes/articles.$id.tsx", { id: "blog-detail" }),
+  route("reports/:id", "routes/articles.$id.tsx", { id: "report-detail" }),
+  route("saved", "routes/saved.tsx"),
+  route("theme", "routes/theme.ts"),
+  route("accessibility", "routes/accessibility.ts"),
+  route("date-format", "routes/date-format.ts"),
+  route("api/articles", "routes/api.articles.ts"),
+  route("api/articles/:id", "routes/api.articles.$id.ts"),
+  route("api/news-sites", "routes/api.news-sites.ts"),
+  route("feed.xml", "routes/feed.xml.ts"),
+  route("atom.xml", "routes/atom.xml.ts"),
+  route("feed.json", "routes/feed.json.ts"),
+  route("sitemap.xml", "routes/sitemap.xml.ts"),
+  route("robots.txt", "routes/robots.txt.ts"),
+  route("health", "routes/health.ts"),
+  route("ready", "routes/ready.ts"),
 ] satisfies RouteConfig;
\ No newline at end of file
@@ -1,29 +1,116 @@
-import type { MetaFunction, LoaderFunctionArgs } from "react-router";
+import type {
+  MetaFunction,
+  LoaderFunctionArgs,
+  ShouldRevalidateFunction,
+} from "react-router";
 // Using native Response constructor for React Router v7
-import { useLoaderData } from "react-router";
-import { useState, useMemo } from "react";
+import { useLoaderData, useSearchParams } from "react-router";
+import { useState, useMemo, useCallback, useEffect } from "react";
 import { css } from "styled-system/css";
 import {
   ArticlesList,
   SearchBar,
   EmptyState,
   SortControls,
+  NewsSiteFilter,
+  DateRangeFilter,
+  Pagination,
+  FeedViewToggle,
+  FormattedDate,
+  JsonLd,
+  OfflineBanner,
+  SiteHeader,
+  ContentTypeTabs,
+  SiteFooter,
   ErrorBoundary as CustomErrorBoundary,
 } from "~/components";
+import type { DateRangeValue } from "~/components";
+import { loadArticlesPage } from "~/services/articles-loader";
+import { useInfiniteArticles, useNewsSiteFacets } from "~/hooks";
 import {
-  fetchLatestArticles,
-  SpaceflightApiError,
-} from "~/services/spaceflight-api";
-import { filterArticlesBySearch, sortArticles } from "~/utils";
-import type { SortBy, ArticlesLoaderData } from "~/types";
+  CONTENT_TYPE_LABELS,
+  getArticleFiltersFromParams,
+  getContentPath,
+  getContentTypeFromParams,
+  getItemListJsonLd,
+  getSyndicationHref,
+  isPreferenceAction,
+  isValidImageUrl,
+  processArticles,
+  setArticleFiltersParams,
+} from "~/utils";
+import type {
+  SortBy,
+  FeedView,
+  ContentType,
+  ArticleFilters,
+  ArticlesLoaderData,
+} from "~/types";
+
+const META_TITLE = "Spaceflight News - Latest Space Mission Updates";
+const META_DESCRIPTION =
+  "Discover the latest spaceflight news, mission updates, and space exploration stories from around the world.";
+
+/**
+ * Open Graph and canonical tags for the loaded page. The preview image is
+ * the lead story's, so shared links show what is on the page.
+ */
+function getPageMeta(loaderData: ArticlesLoaderData | undefined) {
+  if (!loaderData?.canonicalUrl) return [];
+
+  const { articles, canonicalUrl } = loaderData;
+  const leadImage = articles.find((article) =>
+    isValidImageUrl(article.image_url),
+  )?.image_url;
 
-export const meta: MetaFunction = () => {
   return [
-    { title: "Spaceflight News - Latest Space Mission Updates" },
+    { tagName: "link", rel: "canonical", href: canonicalUrl },
+    { property: "og:url", content: canonicalUrl },
+    { property: "og:site_name", content: "Spaceflight News" },
+    { property: "og:title", content: META_TITLE },
+    { property: "og:description", content: META_DESCRIPTION },
+    { property: "og:type", content: "website" },
+    ...(leadImage ? [{ property: "og:image", content: leadImage }] : []),
     {
-      name: "description",
-      content:
-        "Discover the latest spaceflight news, mission updates, and space exploration stories from around the world.",
+      name: "twitter:card",
+      content: leadImage ? "summary_large_image" : "summary",
+    },
+    { name: "twitter:title", content: META_TITLE },
+    { name: "twitter:description", content: META_DESCRIPTION },
+    ...(leadImage ? [{ name: "twitter:image", content: leadImage }] : []),
+  ];
+}
+
+export const meta: MetaFunction = ({ data, location }) => {
+  // Advertise feeds for the filtered view so readers subscribe to what is shown
+  const params = new URLSearchParams(location.search);
+  const contentType = getContentTypeFromParams(params);
+  const filters = getArticleFiltersFromParams(params);
+
+  return [
+    { title: META_TITLE },
+    { name: "description", content: META_DESCRIPTION },
+    ...getPageMeta(data as ArticlesLoaderData | undefined),
+    {
+      tagName: "link",
+      rel: "alternate",
+      type: "application/rss+xml",
+      title: "Spaceflight News (RSS)",
+      href: getSyndicationHref("rss", contentType, filters),
+    },
+    {
+      tagName: "link",
+      rel: "alternate",
+      type: "application/atom+xml",
+      title: "Spaceflight News (Atom)",
+      href: getSyndicationHref("atom", contentType, filters),
+    },
+    {
+      tagName: "link",
+      rel: "alternate",
+      type: "application/feed+json",
+      title: "Spaceflight News (JSON Feed)",
+      href: getSyndicationHref("json", contentType, filters),
     },
   ];
 };
@@ -31,181 +118,175 @@ export const meta: MetaFunction = () => {
 export async function loader({
   request,
 }: LoaderFunctionArgs): Promise<Response> {
-  const url = new URL(request.url);
-  const limit = Math.min(parseInt(url.searchParams.get("limit") || "20"), 50); // Cap at 50 articles
-  const loadedAt = new Date().toISOString();
-
-  try {
-    // Attempt to fetch articles with timeout and retry logic
-    const articles = await fetchLatestArticles(limit);
-
-    const loaderData: ArticlesLoaderData = {
-      articles,
-      error: null,
-      meta: {
-        total: articles.length,
-        hasMore: articles.length === limit, // Assume there might be more if we got the full limit
-        loadedAt,
-      },
-    };
-
-    return new Response(JSON.stringify(loaderData), {
-      headers: {
-        "Content-Type": "application/json",
-        "Cache-Control": "public, max-age=300, stale-while-revalidate=600", // Cache for 5 minutes, serve stale for 10 minutes
-      },
-    });
-  } catch (error) {
-    console.error("Failed to fetch articles:", error);
-
-    // Enhanced error handling with different fallback strategies
-    let errorMessage = "Failed to load articles";
-    let statusCode = 500;
-    let retryAfter: number | undefined;
-
-    if (error instanceof SpaceflightApiError) {
-      errorMessage = error.message;
-      statusCode = error.status || 500;
-
-      // Set retry-after for rate limiting or temporary failures
-      if (error.status === 429 || error.status === 503) {
-        retryAfter = 60; // Retry after 1 minute
-      }
-    } else if (error instanceof Error) {
-      errorMessage = error.message;
-    }
-
-    // Return fallback data with error information
-    const fallbackData: ArticlesLoaderData = {
-      articles: [], // Empty array as fallback
-      error: errorMessage,
-      meta: {
-        total: 0,
-        hasMore: false,
-        loadedAt,
-      },
-    };
-
-    const headers: Record<string, string> = {
-      "Cache-Control": "no-cache, no-store, must-revalidate", // Don't cache errors
-    };
-
-    if (retryAfter) {
-      headers["Retry-After"] = retryAfter.toString();
-    }
-
-    // For server errors, return 500 status but still provide JSON response
-    // This allows the client to handle the error gracefully
-    return new Response(JSON.stringify(fallbackData), {
-      status: statusCode >= 500 ? 500 : 200, // Return 500 for server errors, 200 for client errors with error data
-      headers: {
-        "Content-Type": "application/json",
-        ...headers,
-      },
-    });
-  }
+  return loadArticlesPage(request);
 }
 
+// Preferences only change how the page looks, not what it loads
+export const shouldRevalidate: ShouldRevalidateFunction = ({
+  formAction,
+  defaultShouldRevalidate,
+}) => (isPreferenceAction(formAction) ? false : defaultShouldRevalidate);
+
 export function ErrorBoundary() {
   return <CustomErrorBoundary />;
 }
 
 export default function Index() {
-  const { articles, error, meta } = useLoaderData<typeof loader>();
-  const [searchTerm, setSearchTerm] = useState("");
+  const loaderData = useLoaderData<ArticlesLoaderData>();
+  const { canonicalUrl, contentType, error, meta } = loaderData;
+  const labels = CONTENT_TYPE_LABELS[contentType];
+  const newsSiteFacets = useNewsSiteFacets(contentType);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = getArticleFiltersFromParams(searchParams);
+  const query = filters.searchTerm ?? "";
+  const selectedNewsSites = filters.newsSites ?? [];
+  const dateRange: DateRangeValue = {
+    datePreset: filters.datePreset,
+    publishedFrom: filters.publishedFrom,
+    publishedTo: filters.publishedTo,
+  };
+  const isFiltered =
+    Boolean(query) ||
+    selectedNewsSites.length > 0 ||
+    Boolean(filters.launchId) ||
+    filters.eventId !== undefined ||
+    Boolean(filters.datePreset || filters.publishedFrom || filters.publishedTo);
+  const view: FeedView =
+    searchParams.get("view") === "scroll" ? "scroll" : "pages";
+
+  // The type, filters and sort, without the position in the feed
+  const feedQuery = useMemo(() => {
+    const params = new URLSearchParams(searchParams);
+    params.delete("page");
+    params.delete("offset");
+    params.delete("view");
+    return params.toString();
+  }, [searchParams]);
+
+  const getApiPageUrl = useCallback(
+    (offset: number) => {
+      const params = new URLSearchParams(feedQuery);
+      params.set("offset", offset.toString());
+      return `/api/articles?${params}`;
+    },
+    [feedQuery],
+  );
+
+  // In pages view nothing is ever loaded, so this is just the loader data
+  const {
+    articles,
+    meta: feedMeta,
+    isLoading: isLoadingMore,
+    error: loadMoreError,
+    loadMore,
+  } = useInfiniteArticles(loaderData, {
+    getPageUrl: getApiPageUrl,
+    queryKey: feedQuery,
+  });
+  const [searchTerm, setSearchTerm] = useState(query);
   const [sortBy, setSortBy] = useState<SortBy>("date"); // Default to chronological (newest first)
 
-  // Filter and sort articles based on search term and sort criteria
-  const filteredAndSortedArticles = useMemo(() => {
-    const filtered = filterArticlesBySearch(articles, searchTerm);
-    return sortArticles(filtered, sortBy);
-  }, [articles, searchTerm, sortBy]);
+  // Keep the input in sync when the query changes through navigation
+  useEffect(() => {
+    setSearchTerm(query);
+  }, [query]);
+
+  // Searching happens on the server; only the loaded results are re-sorted here
+  const sortedArticles = useMemo(
+    () => processArticles(articles, { sortBy }),
+    [articles, sortBy],
+  );
 
   const handleSearchChange = (value: string) => {
     setSearchTerm(value);
   };
 
-  const handleClearSearch = () => {
-    setSearchTerm("");
+  const updateFilters = (changes: ArticleFilters) => {
+    setSearchParams(
+      setArticleFiltersParams(searchParams, { ...filters, ...changes }),
+    );
+  };
+
+  const handleSearchSubmit = (value: string) => {
+    if (value === query) return;
+    updateFilters({ searchTerm: value });
+  };
+
+  const handleNewsSitesChange = (sites: string[]) => {
+    updateFilters({ newsSites: sites });
+  };
+
+  const handleDateRangeChange = (range: DateRangeValue) => {
+    updateFilters({
+      datePreset: range.datePreset,
+      publishedFrom: range.publishedFrom,
+      publishedTo: range.publishedTo,
+    });
+  };
+
+  const handleClearCoverage = () => {
+    updateFilters({ launchId: undefined, eventId: undefined });
+  };
+
+  const handleClearFilters = () => {
+    setSearchParams(setArticleFiltersParams(searchParams, {}));
   };
 
   const handleSortChange = (newSortBy: SortBy) => {
     setSortBy(newSortBy);
   };
 
+  const currentPage = Math.floor(meta.offset / meta.limit) + 1;
+  const totalPages = Math.ceil(meta.total / meta.limit);
+
+  const getPageHref = (page: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.delete("offset");
+    if (page === 1) {
+      params.delete("page");
+    } else {
+      params.set("page", page.toString());
+    }
+    const query = params.toString();
+    return query ? `/?${query}` : "/";
+  };
+
+  const getTabHref = (nextType: ContentType) => {
+    const params = new URLSearchParams(searchParams);
+    params.delete("page");
+    params.delete("offset");
+    if (nextType === "articles") {
+      params.delete("type");
+    } else {
+      params.set("type", nextType);
+    }
+    const query = params.toString();
+    return query ? `/?${query}` : "/";
+  };
+
+  const getViewHref = (nextView: FeedView) => {
+    const params = new URLSearchParams(searchParams);
+    params.delete("page");
+    params.delete("offset");
+    if (nextView === "scroll") {
+      params.set("view", "scroll");
+    } else {
+      params.delete("view");
+    }
+    const query = params.toString();
+    return query ? `/?${query}` : "/";
+  };
+
   return (
     <div
       className={css({
         minHeight: "100vh",
-        backgroundColor: "gray.50",
+        backgroundColor: "bg.canvas",
       })}
     >
-      {/* Header */}
-      <header
-        className={css({
-          backgroundColor: "white",
-          boxShadow: "sm",
-          borderBottom: "1px solid",
-          borderColor: "gray.200",
-        })}
-      >
-        <div
-          className={css({
-            maxWidth: "7xl",
-            marginX: "auto",
-            paddingX: { base: "4", sm: "6", lg: "8" },
-          })}
-        >
-          <div
-            className={css({
-              display: "flex",
-              alignItems: "center",
-              justifyContent: "space-between",
-              height: "16",
-            })}
-          >
-            <div
-              className={css({
-                display: "flex",
-                alignItems: "center",
-              })}
-            >
-              <h1
-                className={css({
-                  fontSize: "2xl",
-                  fontWeight: "bold",
-                  color: "gray.900",
-                })}
-              >
-                🚀 Spaceflight News
-              </h1>
-            </div>
-            <nav
-              className={css({
-                display: { base: "none", md: "block" },
-              })}
-            >
-              <div
-                className={css({
-                  marginLeft: "10",
-                  display: "flex",
-                  alignItems: "baseline",
-                  gap: "4",
-                })}
-              >
-                <span
-                  className={css({
-                    color: "gray.500",
-                    fontSize: "sm",
-                  })}
-                >
-                  Latest space mission updates
-                </span>
-              </div>
-            </nav>
-          </div>
-        </div>
-      </header>
+      <SiteHeader>
+        <ContentTypeTabs active={contentType} getTabHref={getTabHref} />
+      </SiteHeader>
 
       {/* Main Content */}
       <main
@@ -217,13 +298,27 @@ export default function Index() {
           paddingY: "8",
         })}
       >
+        {/* The stories this page was served with, not those appended later */}
+        {canonicalUrl && loaderData.articles.length > 0 && (
+          <JsonLd
+            data={getItemListJsonLd(
+              loaderData.articles,
+              (article) =>
+                new URL(getContentPath(contentType, article.id), canonicalUrl)
+                  .href,
+              meta.offset,
+            )}
+          />
+        )}
+        <OfflineBanner loadedAt={meta.loadedAt} />
+
         {/* Error State */}
         {error && (
           <div
             className={css({
-              backgroundColor: "red.50",
+              backgroundColor: "bg.danger",
               border: "1px solid",
-              borderColor: "red.200",
+              borderColor: "border.danger",
               borderRadius: "lg",
               padding: "6",
               marginBottom: "8",
@@ -258,16 +353,16 @@ export default function Index() {
                 className={css({
                   fontSize: "lg",
                   fontWeight: "medium",
-                  color: "red.800",
+                  color: "fg.dangerStrong",
                 })}
               >
-                Failed to Load Articles
+                Failed to Load {labels.plural}
               </h3>
             </div>
             <p
               className={css({
                 fontSize: "sm",
-                color: "red.700",
+                color: "fg.dangerEmphasis",
                 marginBottom: "4",
               })}
             >
@@ -307,16 +402,38 @@ export default function Index() {
                 <span
                   className={css({
                     fontSize: "xs",
-                    color: "red.600",
+                    color: "fg.danger",
                   })}
                 >
-                  Last attempted: {new Date(meta.loadedAt).toLocaleTimeString()}
+                  Last attempted:{" "}
+                  <FormattedDate dateTime={meta.loadedAt} format="time" />
                 </span>
               )}
             </div>
           </div>
         )}
 
+        {/* Cached fallback while the upstream is unavailable */}
+        {meta.stale && !error && (
+          <div
+            role="status"
+            className={css({
+              backgroundColor: "bg.warning",
+              border: "1px solid",
+              borderColor: "border.warning",
+              borderRadius: "lg",
+              padding: "4",
+              marginBottom: "8",
+              fontSize: "sm",
+              color: "fg.warning",
+            })}
+          >
+            The news service is not responding, so these{" "}
+            {labels.plural.toLowerCase()} may be out of date. We will show the
+            latest ones as soon as it is back.
+          </div>
+        )}
+
         {/* Search and Sort Controls */}
         <div
           className={css({
@@ -335,82 +452,142 @@ export default function Index() {
             <SearchBar
               value={searchTerm}
               onChange={handleSearchChange}
-              placeholder="Search articles..."
-            />
-            <SortControls
-              sortBy={sortBy}
-              onSortChange={handleSortChange}
-              disabled={articles.length === 0 || !!error}
+              onSubmit={handleSearchSubmit}
+              hiddenParams={setArticleFiltersParams(searchParams, {
+                ...filters,
+                searchTerm: undefined,
+              })}
+              label={`Search ${labels.plural.toLowerCase()} by title or summary`}
+              placeholder={`Search ${labels.plural.toLowerCase()}...`}
             />
+            <div
+              className={css({
+                display: "flex",
+                flexWrap: "wrap",
+                gap: "4",
+                alignItems: "center",
+              })}
+            >
+              <NewsSiteFilter
+                facets={newsSiteFacets}
+                selected={selectedNewsSites}
+                onChange={handleNewsSitesChange}
+              />
+              <SortControls
+                sortBy={sortBy}
+                onSortChange={handleSortChange}
+                disabled={articles.length === 0 || !!error}
+              />
+              <FeedViewToggle view={view} getViewHref={getViewHref} />
+              <a
+                href={getSyndicationHref("rss", contentType, filters)}
+                aria-label={`Subscribe to these ${labels.plural.toLowerCase()} in a feed reader (RSS)`}
+                className={css({
+                  fontSize: "sm",
+                  fontWeight: "medium",
+                  color: "fg.feed",
+                  _hover: {
+                    textDecoration: "underline",
+                  },
+                  _focus: {
+                    outline: "2px solid",
+                    outlineColor: "blue.500",
+                    outlineOffset: "2px",
+                  },
+                })}
+              >
+                RSS
+              </a>
+            </div>
           </div>
+          <DateRangeFilter
+            value={dateRange}
+            onChange={handleDateRangeChange}
+            className={css({ marginTop: "4" })}
+          />
         </div>
 
+        {/* Launch or event coverage, reached from a card's chips */}
+        {(filters.launchId || filters.eventId !== undefined) && (
+          <p
+            className={css({
+              display: "flex",
+              flexWrap: "wrap",
+              alignItems: "center",
+              gap: "2",
+              marginBottom: "6",
+              fontSize: "sm",
+              color: "fg.body",
+            })}
+          >
+            Showing coverage of one {filters.launchId ? "launch" : "event"}.
+            <button
+              type="button"
+              onClick={handleClearCoverage}
+              className={css({
+                color: "fg.accent",
+                cursor: "pointer",
+                _hover: {
+                  textDecoration: "underline",
+                },
+              })}
+            >
+              Show all {labels.plural.toLowerCase()}
+            </button>
+          </p>
+        )}
+
         {/* Articles Content */}
-        {articles.length === 0 && !error ? (
+        {articles.length === 0 && isFiltered && !error ? (
           <EmptyState
-            title="No articles available"
-            description="We couldn't load any articles at the moment. Please try again later."
-          />
-        ) : filteredAndSortedArticles.length === 0 && searchTerm ? (
-          <EmptyState
-            title="No articles found"
-            description={`No articles match your search for "${searchTerm}". Try different keywords or clear your search.`}
+            title={`No ${labels.plural.toLowerCase()} found`}
+            description={
+              query
+                ? `No ${labels.plural.toLowerCase()} match your search for "${query}". Try different keywords or clear your filters.`
+                : `No ${labels.plural.toLowerCase()} match the selected filters. Try a wider date range, different sources or clear your filters.`
+            }
             action={{
-              label: "Clear search",
-              onClick: handleClearSearch,
+              label: "Clear filters",
+              onClick: handleClearFilters,
             }}
           />
-        ) : (
-          <ArticlesList
-            articles={filteredAndSortedArticles}
-            searchTerm={searchTerm}
+        ) : articles.length === 0 && !error ? (
+          <EmptyState
+            title={`No ${labels.plural.toLowerCase()} available`}
+            description={`We couldn't load any ${labels.plural.toLowerCase()} at the moment. Please try again later.`}
           />
+        ) : (
+          <>
+            <ArticlesList
+              articles={sortedArticles}
+              contentType={contentType}
+              searchTerm={query}
+              totalCount={feedMeta.total}
+              infiniteScroll={
+                view === "scroll"
+                  ? {
+                      hasMore: feedMeta.hasMore,
+                      isLoading: isLoadingMore,
+                      onLoadMore: loadMore,
+                      totalCount: feedMeta.total,
+                      href: getPageHref(currentPage + 1),
+                      error: loadMoreError,
+                    }
+                  : undefined
+              }
+            />
+            {view === "pages" && (
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                getPageHref={getPageHref}
+              />
+            )}
+          </>
         )}
       </main>
 
-      {/* Footer */}
-      <footer
-        className={css({
-          backgroundColor: "white",
-          borderTop: "1px solid",
-          borderColor: "gray.200",
-          marginTop: "16",
-        })}
-      >
-        <div
-          className={css({
-            maxWidth: "7xl",
-            marginX: "auto",
-            paddingX: { base: "4", sm: "6", lg: "8" },
-            paddingY: "8",
-          })}
-        >
-          <div
-            className={css({
-              textAlign: "center",
-              color: "gray.500",
-              fontSize: "sm",
-            })}
-          >
-            <p>
-              Powered by{" "}
-              <a
-                href="https://api.spaceflightnewsapi.net/"
-                target="_blank"
-                rel="noopener noreferrer"
-                className={css({
-                  color: "blue.600",
-                  _hover: {
-                    color: "blue.800",
-                  },
-                })}
-              >
-                Spaceflight News API
-              </a>
-            </p>
-          </div>
-        </div>
-      </footer>
+      <SiteFooter />
     </div>
   );
 }
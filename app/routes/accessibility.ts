@@ -0,0 +1,46 @@
+import { redirect } from "react-router";
+import type { ActionFunctionArgs } from "react-router";
+import {
+  getAccessibilityPreferences,
+  isContrastPreference,
+  isMotionPreference,
+  serializeAccessibilityPreferences,
+} from "~/services/accessibility-preferences";
+import { getSafeRedirect } from "~/utils";
+
+/**
+ * Stores the motion and contrast overrides picked in the footer. Either
+ * field may be posted on its own; the other keeps its stored value.
+ */
+export async function action({
+  request,
+}: ActionFunctionArgs): Promise<Response> {
+  const formData = await request.formData();
+  const motion = formData.get("motion");
+  const contrast = formData.get("contrast");
+
+  if (
+    (motion === null && contrast === null) ||
+    (motion !== null && !isMotionPreference(motion)) ||
+    (contrast !== null && !isContrastPreference(contrast))
+  ) {
+    return new Response("Invalid preferences", { status: 400 });
+  }
+
+  const preferences = await getAccessibilityPreferences(request);
+  if (motion !== null) preferences.motion = motion;
+  if (contrast !== null) preferences.contrast = contrast;
+
+  const headers = {
+    "Set-Cookie": await serializeAccessibilityPreferences(preferences),
+  };
+  const redirectTo = getSafeRedirect(formData.get("redirectTo"));
+
+  if (redirectTo) {
+    return redirect(redirectTo, { headers });
+  }
+
+  return new Response(JSON.stringify(preferences), {
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
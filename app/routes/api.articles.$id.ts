@@ -0,0 +1,53 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { PUBLIC_CACHE_CONTROL } from "~/services/articles-loader";
+import { serverErrorJson, serverErrorResponse } from "~/services/server-error";
+import {
+  fetchArticleById,
+  SpaceflightApiError,
+} from "~/services/spaceflight-api";
+import { getContentTypeFromParams } from "~/utils";
+
+/**
+ * JSON resource route for a single article, blog or report, chosen with
+ * ?type= as on the index route. Answers failures with a ServerError.
+ */
+export async function loader({
+  params,
+  request,
+}: LoaderFunctionArgs): Promise<Response> {
+  const id = Number(params.id);
+  const contentType = getContentTypeFromParams(
+    new URL(request.url).searchParams,
+  );
+
+  if (!Number.isInteger(id) || id <= 0) {
+    return serverErrorJson({
+      message: "Invalid id",
+      status: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  try {
+    const article = await fetchArticleById(id, contentType, {
+      signal: request.signal,
+    });
+
+    return new Response(JSON.stringify(article), {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": PUBLIC_CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SpaceflightApiError && error.status === 404) {
+      return serverErrorJson({
+        message: "Not found",
+        status: 404,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return serverErrorResponse(error, `Failed to load ${contentType} ${id}`);
+  }
+}
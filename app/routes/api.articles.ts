@@ -0,0 +1,13 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { loadArticlesApiPage } from "~/services/articles-loader";
+
+/**
+ * JSON resource route used by the infinite scroll feed to fetch further pages.
+ * Accepts the same limit/page/offset, sort and filter params as the index
+ * route and answers failures with a ServerError.
+ */
+export async function loader({
+  request,
+}: LoaderFunctionArgs): Promise<Response> {
+  return loadArticlesApiPage(request);
+}
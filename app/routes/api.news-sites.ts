@@ -0,0 +1,13 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { loadNewsSiteFacets } from "~/services/articles-loader";
+
+/**
+ * JSON resource route with the per news site counts for the source filter,
+ * for the content type chosen with ?type=. Fetched by the feed page after it
+ * renders, so the counts never hold back the articles.
+ */
+export async function loader({
+  request,
+}: LoaderFunctionArgs): Promise<Response> {
+  return loadNewsSiteFacets(request);
+}
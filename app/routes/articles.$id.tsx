@@ -0,0 +1,366 @@
+import type {
+  MetaFunction,
+  LoaderFunctionArgs,
+  ShouldRevalidateFunction,
+} from "react-router";
+import { useLoaderData } from "react-router";
+import { css } from "styled-system/css";
+import {
+  ArticlesList,
+  FormattedDate,
+  JsonLd,
+  OfflineBanner,
+  SiteHeader,
+  SiteFooter,
+  ErrorBoundary as CustomErrorBoundary,
+} from "~/components";
+import {
+  fetchArticleById,
+  fetchLatestArticles,
+  SpaceflightApiError,
+} from "~/services/spaceflight-api";
+import { formatValidationIssue } from "~/services/response-validation";
+import {
+  CONTENT_TYPE_LABELS,
+  getContentPath,
+  getImageUrlWithFallback,
+  getNewsArticleJsonLd,
+  getRelatedArticles,
+  isContentType,
+  isPreferenceAction,
+  isValidImageUrl,
+  toIsoDate,
+  truncateText,
+} from "~/utils";
+import type {
+  ArticleDetailLoaderData,
+  ContentType,
+  SpaceflightArticle,
+} from "~/types";
+
+const RELATED_POOL_SIZE = 30;
+const RELATED_LIMIT = 3;
+
+export const meta: MetaFunction = ({ data, location }) => {
+  const loaderData = data as ArticleDetailLoaderData | undefined;
+  const article = loaderData?.article;
+
+  if (!article) {
+    const contentType = getContentTypeFromPath(location.pathname);
+    return [
+      {
+        title: `${CONTENT_TYPE_LABELS[contentType].singular} not found - Spaceflight News`,
+      },
+    ];
+  }
+
+  const description = truncateText(article.summary, 160);
+  const canonicalUrl = loaderData.canonicalUrl;
+  // Without a usable image, previews fall back to a text card
+  const hasImage = isValidImageUrl(article.image_url);
+  // A malformed date is left out rather than failing the whole page
+  const publishedTime = toIsoDate(article.published_at);
+  const modifiedTime = toIsoDate(article.updated_at);
+
+  return [
+    { title: `${article.title} - Spaceflight News` },
+    { name: "description", content: description },
+    ...(canonicalUrl
+      ? [
+          { tagName: "link", rel: "canonical", href: canonicalUrl },
+          { property: "og:url", content: canonicalUrl },
+        ]
+      : []),
+    { property: "og:site_name", content: "Spaceflight News" },
+    { property: "og:title", content: article.title },
+    { property: "og:description", content: description },
+    { property: "og:type", content: "article" },
+    ...(hasImage
+      ? [
+          { property: "og:image", content: article.image_url },
+          { property: "og:image:alt", content: article.title },
+        ]
+      : []),
+    ...(publishedTime
+      ? [{ property: "article:published_time", content: publishedTime }]
+      : []),
+    ...(modifiedTime
+      ? [{ property: "article:modified_time", content: modifiedTime }]
+      : []),
+    { property: "article:section", content: article.news_site },
+    {
+      name: "twitter:card",
+      content: hasImage ? "summary_large_image" : "summary",
+    },
+    { name: "twitter:title", content: article.title },
+    { name: "twitter:description", content: description },
+    ...(hasImage
+      ? [{ name: "twitter:image", content: article.image_url }]
+      : []),
+  ];
+};
+
+/**
+ * This module serves /articles/:id, /blogs/:id and /reports/:id; the first
+ * path segment says which API endpoint the item comes from
+ */
+function getContentTypeFromPath(pathname: string): ContentType {
+  const segment = pathname.split("/")[1];
+  return isContentType(segment) ? segment : "articles";
+}
+
+export async function loader({
+  params,
+  request,
+}: LoaderFunctionArgs): Promise<Response> {
+  const id = Number(params.id);
+  const contentType = getContentTypeFromPath(new URL(request.url).pathname);
+
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Response(null, { status: 404, statusText: "Not Found" });
+  }
+
+  const loadedAt = new Date().toISOString();
+
+  // Related articles are secondary content, so their failure must not fail the page
+  const candidatesPromise = fetchLatestArticles(
+    RELATED_POOL_SIZE,
+    contentType,
+  ).catch((error: unknown): SpaceflightArticle[] => {
+    console.error("Failed to fetch related articles:", error);
+    return [];
+  });
+
+  let article: SpaceflightArticle;
+
+  try {
+    article = await fetchArticleById(id, contentType);
+  } catch (error) {
+    if (error instanceof SpaceflightApiError && error.status === 404) {
+      throw new Response(null, { status: 404, statusText: "Not Found" });
+    }
+
+    console.error(`Failed to fetch ${contentType} ${id}:`, error);
+    if (error instanceof SpaceflightApiError && error.issues.length > 0) {
+      console.error(
+        "Invalid API payload:",
+        error.issues.map(formatValidationIssue),
+      );
+    }
+    throw new Response(null, {
+      status: 500,
+      statusText: "Internal Server Error",
+    });
+  }
+
+  const candidates = await candidatesPromise;
+
+  const loaderData: ArticleDetailLoaderData = {
+    article,
+    contentType,
+    relatedArticles: getRelatedArticles(article, candidates, RELATED_LIMIT),
+    canonicalUrl: new URL(getContentPath(contentType, article.id), request.url)
+      .href,
+    meta: {
+      loadedAt,
+    },
+  };
+
+  return new Response(JSON.stringify(loaderData), {
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "public, max-age=300, stale-while-revalidate=600", // Articles rarely change once published
+    },
+  });
+}
+
+// Preferences only change how the page looks, not what it loads
+export const shouldRevalidate: ShouldRevalidateFunction = ({
+  formAction,
+  defaultShouldRevalidate,
+}) => (isPreferenceAction(formAction) ? false : defaultShouldRevalidate);
+
+export function ErrorBoundary() {
+  return <CustomErrorBoundary />;
+}
+
+export default function ArticleDetail() {
+  const { article, canonicalUrl, contentType, relatedArticles, meta } =
+    useLoaderData<ArticleDetailLoaderData>();
+  const labels = CONTENT_TYPE_LABELS[contentType];
+
+  return (
+    <div
+      className={css({
+        minHeight: "100vh",
+        backgroundColor: "bg.canvas",
+      })}
+    >
+      <SiteHeader brandAs="p" />
+
+      <main
+        id="main-content"
+        className={css({
+          maxWidth: "4xl",
+          marginX: "auto",
+          paddingX: { base: "4", sm: "6", lg: "8" },
+          paddingY: "8",
+        })}
+      >
+        {canonicalUrl && (
+          <JsonLd data={getNewsArticleJsonLd(article, canonicalUrl)} />
+        )}
+        <OfflineBanner loadedAt={meta.loadedAt} />
+
+        <a
+          href={contentType === "articles" ? "/" : `/?type=${contentType}`}
+          className={css({
+            display: "inline-block",
+            fontSize: "sm",
+            color: "fg.accent",
+            marginBottom: "6",
+            _hover: {
+              color: "fg.accentStrong",
+            },
+          })}
+        >
+          ← Back to all {labels.plural.toLowerCase()}
+        </a>
+
+        <article
+          className={css({
+            backgroundColor: "bg.surface",
+            border: "1px solid",
+            borderColor: "border.default",
+            borderRadius: "lg",
+            boxShadow: "sm",
+            overflow: "hidden",
+          })}
+        >
+          {/* Reports usually come without an image */}
+          {article.image_url && (
+            <img
+              src={getImageUrlWithFallback(article.image_url)}
+              alt=""
+              className={css({
+                width: "100%",
+                aspectRatio: "16/9",
+                objectFit: "cover",
+              })}
+            />
+          )}
+
+          <div
+            className={css({
+              display: "flex",
+              flexDirection: "column",
+              gap: "4",
+              padding: { base: "5", md: "8" },
+            })}
+          >
+            <h1
+              className={css({
+                fontSize: { base: "2xl", md: "3xl" },
+                fontWeight: "bold",
+                lineHeight: "tight",
+                color: "fg.default",
+              })}
+            >
+              {article.title}
+            </h1>
+
+            <div
+              className={css({
+                display: "flex",
+                flexWrap: "wrap",
+                gap: "2",
+                fontSize: "sm",
+                color: "fg.subtle",
+              })}
+            >
+              <span
+                className={css({
+                  fontWeight: "medium",
+                  color: "fg.muted",
+                })}
+              >
+                {article.news_site}
+              </span>
+              <span aria-hidden="true">·</span>
+              <FormattedDate dateTime={article.published_at} />
+            </div>
+
+            <p
+              className={css({
+                fontSize: { base: "md", md: "lg" },
+                lineHeight: "relaxed",
+                color: "fg.body",
+              })}
+            >
+              {article.summary}
+            </p>
+
+            <a
+              href={article.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={css({
+                alignSelf: "flex-start",
+                backgroundColor: "blue.600",
+                color: "white",
+                paddingX: "4",
+                paddingY: "2",
+                borderRadius: "md",
+                fontSize: "sm",
+                fontWeight: "medium",
+                transition: "colors",
+                _hover: {
+                  backgroundColor: "blue.700",
+                  textDecoration: "none",
+                },
+                _focus: {
+                  outline: "2px solid",
+                  outlineColor: "blue.500",
+                  outlineOffset: "2px",
+                },
+              })}
+            >
+              Read the full story on {article.news_site}
+              <span className={css({ srOnly: true })}>
+                {" "}
+                (opens in a new tab)
+              </span>
+            </a>
+          </div>
+        </article>
+
+        {relatedArticles.length > 0 && (
+          <section
+            aria-labelledby="related-articles-heading"
+            className={css({
+              marginTop: "12",
+            })}
+          >
+            <h2
+              id="related-articles-heading"
+              className={css({
+                fontSize: "xl",
+                fontWeight: "semibold",
+                color: "fg.default",
+                marginBottom: "4",
+              })}
+            >
+              Related {labels.plural.toLowerCase()}
+            </h2>
+            <ArticlesList
+              articles={relatedArticles}
+              contentType={contentType}
+            />
+          </section>
+        )}
+      </main>
+
+      <SiteFooter />
+    </div>
+  );
+}
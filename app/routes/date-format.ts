@@ -0,0 +1,49 @@
+import { redirect } from "react-router";
+import type { ActionFunctionArgs } from "react-router";
+import {
+  getDateFormatSettings,
+  isDateDisplay,
+  isTimestampStyle,
+  isTimeZone,
+  serializeDateFormatSettings,
+} from "~/services/date-format";
+import { getSafeRedirect } from "~/utils";
+
+/**
+ * Stores the date display and timestamp style picked in the footer, and the
+ * time zone the browser reports after its first load. Any field may be
+ * posted on its own; the others keep their stored values.
+ */
+export async function action({
+  request,
+}: ActionFunctionArgs): Promise<Response> {
+  const formData = await request.formData();
+  const timeZone = formData.get("timeZone");
+  const display = formData.get("display");
+  const timestamps = formData.get("timestamps");
+
+  if (
+    (timeZone === null && display === null && timestamps === null) ||
+    (timeZone !== null && !isTimeZone(timeZone)) ||
+    (display !== null && !isDateDisplay(display)) ||
+    (timestamps !== null && !isTimestampStyle(timestamps))
+  ) {
+    return new Response("Invalid date format", { status: 400 });
+  }
+
+  const settings = await getDateFormatSettings(request);
+  if (timeZone !== null) settings.timeZone = timeZone;
+  if (display !== null) settings.display = display;
+  if (timestamps !== null) settings.timestamps = timestamps;
+
+  const headers = { "Set-Cookie": await serializeDateFormatSettings(settings) };
+  const redirectTo = getSafeRedirect(formData.get("redirectTo"));
+
+  if (redirectTo) {
+    return redirect(redirectTo, { headers });
+  }
+
+  return new Response(JSON.stringify(settings), {
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,11 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { loadSyndicationFeed } from "~/services/feed-loader";
+
+/**
+ * RSS 2.0 feed of the newest articles, filtered like the index page
+ */
+export async function loader({
+  request,
+}: LoaderFunctionArgs): Promise<Response> {
+  return loadSyndicationFeed(request, "rss");
+}
@@ -0,0 +1,18 @@
+/**
+ * Liveness resource route polled by the container HEALTHCHECK. It only
+ * reports that the process is serving requests; upstream trouble is
+ * reported by /ready instead, so it never gets the container restarted.
+ */
+export async function loader(): Promise<Response> {
+  const body = {
+    status: "ok",
+    uptimeSeconds: Math.round(process.uptime()),
+  };
+
+  return new Response(JSON.stringify(body), {
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import type { LoaderFunctionArgs } from "react-router";
+import {
+  checkUpstream,
+  evaluateReadiness,
+  getBuildVersion,
+  getReadinessThresholdsFromEnv,
+} from "~/services/readiness";
+import { getSpaceflightHealth } from "~/services/spaceflight-api";
+
+/**
+ * Readiness resource route. Reports upstream reachability, the circuit
+ * breaker, the recent error rate and cache warmness. Degraded still
+ * answers 200 so the instance keeps receiving traffic; down answers 503.
+ */
+export async function loader({
+  request,
+}: LoaderFunctionArgs): Promise<Response> {
+  const upstream = await checkUpstream(request.signal);
+  // Read after the check so its outcome is included
+  const health = getSpaceflightHealth();
+  const thresholds = getReadinessThresholdsFromEnv();
+  const status = evaluateReadiness(health, upstream, thresholds);
+
+  const body = {
+    status,
+    version: getBuildVersion(),
+    upstream: {
+      ...upstream,
+      circuit: health.circuit,
+      requests: health.requests,
+    },
+    cache: health.cache && {
+      ...health.cache,
+      warm: health.cache.entries > 0,
+    },
+    thresholds,
+  };
+
+  return new Response(JSON.stringify(body), {
+    status: status === "down" ? 503 : 200,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+}
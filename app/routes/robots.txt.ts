@@ -0,0 +1,11 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { loadRobotsTxt } from "~/services/sitemap-loader";
+
+/**
+ * robots.txt; only production deployments may be indexed
+ */
+export async function loader({
+  request,
+}: LoaderFunctionArgs): Promise<Response> {
+  return loadRobotsTxt(request);
+}
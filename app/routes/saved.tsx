@@ -0,0 +1,265 @@
+import type { MetaFunction } from "react-router";
+import { useMemo, useRef, useState } from "react";
+import { css } from "styled-system/css";
+import {
+  ArticlesList,
+  EmptyState,
+  SearchBar,
+  SiteFooter,
+  SiteHeader,
+  SortControls,
+} from "~/components";
+import { useBookmarks } from "~/hooks";
+import { parseBookmarksExport } from "~/services/bookmark-store";
+import { processArticles } from "~/utils";
+import type { ContentType, SortBy, SpaceflightArticle } from "~/types";
+
+export const meta: MetaFunction = () => [
+  { title: "Saved articles - Spaceflight News" },
+  // The list only exists in the reader's browser
+  { name: "robots", content: "noindex" },
+];
+
+const actionButtonStyles = css({
+  paddingX: "3",
+  paddingY: "1.5",
+  fontSize: "sm",
+  fontWeight: "medium",
+  color: "fg.body",
+  backgroundColor: "bg.surface",
+  border: "1px solid",
+  borderColor: "border.strong",
+  borderRadius: "md",
+  cursor: "pointer",
+  _hover: {
+    backgroundColor: "bg.subtle",
+  },
+  _focus: {
+    outline: "2px solid",
+    outlineColor: "blue.500",
+    outlineOffset: "2px",
+  },
+  _disabled: {
+    opacity: 0.5,
+    cursor: "not-allowed",
+  },
+});
+
+/**
+ * Read-later list. Everything comes from IndexedDB in the browser, so the
+ * page works offline and has no loader.
+ */
+export default function Saved() {
+  const bookmarks = useBookmarks();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [sortBy, setSortBy] = useState<SortBy>("date");
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const saved = useMemo(() => bookmarks?.bookmarks ?? [], [bookmarks]);
+  const contentTypes = useMemo(
+    () =>
+      new Map<SpaceflightArticle, ContentType>(
+        saved.map(({ article, contentType }) => [article, contentType]),
+      ),
+    [saved],
+  );
+  const articles = useMemo(
+    () =>
+      processArticles(
+        saved.map(({ article }) => article),
+        { searchTerm, sortBy },
+      ),
+    [saved, searchTerm, sortBy],
+  );
+
+  const status = bookmarks?.status ?? "loading";
+  const isReady = status === "ready";
+
+  const handleExport = () => {
+    if (!bookmarks) return;
+
+    const blob = new Blob([bookmarks.exportBookmarks()], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `spaceflight-news-saved-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (!file || !bookmarks) return;
+
+    try {
+      const { bookmarks: imported, skipped } = parseBookmarksExport(
+        await file.text(),
+      );
+      const added = await bookmarks.importBookmarks(imported);
+      setNotice(
+        `Imported ${added} saved article${added !== 1 ? "s" : ""}` +
+          (skipped > 0 ? `; skipped ${skipped} invalid entries.` : "."),
+      );
+    } catch (error) {
+      setNotice(
+        error instanceof Error
+          ? `Import failed: ${error.message}`
+          : "Import failed",
+      );
+    }
+  };
+
+  return (
+    <div
+      className={css({
+        minHeight: "100vh",
+        backgroundColor: "bg.canvas",
+      })}
+    >
+      <SiteHeader brandAs="p" />
+
+      <main
+        id="main-content"
+        className={css({
+          maxWidth: "7xl",
+          marginX: "auto",
+          paddingX: { base: "4", sm: "6", lg: "8" },
+          paddingY: "8",
+        })}
+      >
+        <div
+          className={css({
+            display: "flex",
+            flexDirection: { base: "column", sm: "row" },
+            gap: "4",
+            alignItems: { base: "flex-start", sm: "center" },
+            justifyContent: "space-between",
+            marginBottom: "6",
+          })}
+        >
+          <h1
+            className={css({
+              fontSize: "2xl",
+              fontWeight: "bold",
+              color: "fg.default",
+            })}
+          >
+            Saved for later
+          </h1>
+          <div className={css({ display: "flex", gap: "2" })}>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={!isReady || saved.length === 0}
+              className={actionButtonStyles}
+            >
+              Export
+            </button>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!isReady}
+              className={actionButtonStyles}
+            >
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              aria-label="Import saved articles from a JSON file"
+              className={css({ display: "none" })}
+            />
+          </div>
+        </div>
+
+        {notice && (
+          <p
+            role="status"
+            className={css({
+              backgroundColor: "bg.accent",
+              border: "1px solid",
+              borderColor: "border.accent",
+              borderRadius: "lg",
+              padding: "4",
+              marginBottom: "6",
+              fontSize: "sm",
+              color: "fg.accentStrong",
+            })}
+          >
+            {notice}
+          </p>
+        )}
+
+        {status === "loading" && (
+          <p className={css({ color: "fg.muted" })}>Loading saved articles…</p>
+        )}
+
+        {status === "unavailable" && (
+          <EmptyState
+            title="Saved articles are not available"
+            description="This browser does not allow sites to store data, so articles cannot be saved here."
+          />
+        )}
+
+        {isReady && saved.length === 0 && (
+          <EmptyState
+            title="Nothing saved yet"
+            description="Use the Save button on any article to keep it here, even offline."
+          />
+        )}
+
+        {isReady && saved.length > 0 && (
+          <>
+            <div
+              className={css({
+                display: "flex",
+                flexDirection: { base: "column", sm: "row" },
+                gap: "4",
+                alignItems: { base: "flex-start", sm: "center" },
+                justifyContent: "space-between",
+                marginBottom: "8",
+              })}
+            >
+              <SearchBar
+                value={searchTerm}
+                onChange={setSearchTerm}
+                name="saved-q"
+                label="Search saved articles by title, summary or source"
+                placeholder="Search saved articles..."
+              />
+              <SortControls sortBy={sortBy} onSortChange={setSortBy} />
+            </div>
+
+            {articles.length > 0 ? (
+              <ArticlesList
+                articles={articles}
+                getContentType={(article) =>
+                  contentTypes.get(article) ?? "articles"
+                }
+                searchTerm={searchTerm}
+              />
+            ) : (
+              <EmptyState
+                title="No saved articles match"
+                description={`Nothing you saved matches "${searchTerm}".`}
+                action={{
+                  label: "Clear search",
+                  onClick: () => setSearchTerm(""),
+                }}
+              />
+            )}
+          </>
+        )}
+      </main>
+
+      <SiteFooter />
+    </div>
+  );
+}
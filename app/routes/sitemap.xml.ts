@@ -0,0 +1,12 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { loadSitemap } from "~/services/sitemap-loader";
+
+/**
+ * Sitemap of the landing pages and recent detail pages, or a sitemap index
+ * once there are too many detail pages for one document
+ */
+export async function loader({
+  request,
+}: LoaderFunctionArgs): Promise<Response> {
+  return loadSitemap(request);
+}
@@ -0,0 +1,30 @@
+import { redirect } from "react-router";
+import type { ActionFunctionArgs } from "react-router";
+import { isThemePreference, serializeThemePreference } from "~/services/theme";
+import { getSafeRedirect } from "~/utils";
+
+/**
+ * Stores the theme picked in the header. The header toggle posts here with
+ * a fetcher; without JavaScript the form posts a redirectTo back to the page.
+ */
+export async function action({
+  request,
+}: ActionFunctionArgs): Promise<Response> {
+  const formData = await request.formData();
+  const theme = formData.get("theme");
+
+  if (!isThemePreference(theme)) {
+    return new Response("Invalid theme", { status: 400 });
+  }
+
+  const headers = { "Set-Cookie": await serializeThemePreference(theme) };
+  const redirectTo = getSafeRedirect(formData.get("redirectTo"));
+
+  if (redirectTo) {
+    return redirect(redirectTo, { headers });
+  }
+
+  return new Response(JSON.stringify({ theme }), {
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
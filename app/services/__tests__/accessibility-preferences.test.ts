@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import {
+  getAccessibilityPreferences,
+  serializeAccessibilityPreferences,
+} from "../accessibility-preferences";
+import type { AccessibilityPreferences } from "~/types";
+
+function requestWithCookie(cookie?: string): Request {
+  return new Request("https://example.com/", {
+    headers: cookie ? { Cookie: cookie } : {},
+  });
+}
+
+describe("accessibility preferences", () => {
+  it("reads back the overrides it stored", async () => {
+    const setCookie = await serializeAccessibilityPreferences({
+      motion: "reduce",
+      contrast: "more",
+    });
+    const cookie = setCookie.split(";")[0];
+
+    expect(
+      await getAccessibilityPreferences(requestWithCookie(cookie)),
+    ).toEqual({ motion: "reduce", contrast: "more" });
+  });
+
+  it("follows the OS settings without a cookie", async () => {
+    expect(await getAccessibilityPreferences(requestWithCookie())).toEqual({
+      motion: "system",
+      contrast: "system",
+    });
+  });
+
+  it("falls back per field for unknown values", async () => {
+    const setCookie = await serializeAccessibilityPreferences({
+      motion: "full",
+      contrast: "max",
+    } as unknown as AccessibilityPreferences);
+    const cookie = setCookie.split(";")[0];
+
+    expect(
+      await getAccessibilityPreferences(requestWithCookie(cookie)),
+    ).toEqual({ motion: "full", contrast: "system" });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  createBookmarkStore,
+  getBookmarkKey,
+  parseBookmarksExport,
+  serializeBookmarks,
+} from "../bookmark-store";
+import type { SavedArticle } from "~/types";
+
+const saved: SavedArticle[] = [
+  {
+    article: {
+      id: 7,
+      title: "Artemis II crew named",
+      summary: "NASA named the four astronauts flying around the Moon.",
+      image_url: "https://example.com/artemis.jpg",
+      news_site: "NASA",
+      published_at: "2024-01-15T10:00:00Z",
+      url: "https://example.com/artemis",
+    },
+    contentType: "blogs",
+    savedAt: "2024-02-01T09:00:00.000Z",
+  },
+];
+
+describe("getBookmarkKey", () => {
+  it("keeps ids from different endpoints apart", () => {
+    expect(getBookmarkKey("blogs", 7)).not.toBe(getBookmarkKey("articles", 7));
+  });
+});
+
+describe("bookmark export", () => {
+  it("round-trips through serializeBookmarks", () => {
+    const text = serializeBookmarks(saved, new Date("2024-02-02T00:00:00Z"));
+
+    expect(JSON.parse(text)).toMatchObject({
+      version: 1,
+      exportedAt: "2024-02-02T00:00:00.000Z",
+    });
+    expect(parseBookmarksExport(text)).toEqual({
+      bookmarks: saved,
+      skipped: 0,
+    });
+  });
+
+  it("skips entries that are not saved articles", () => {
+    const text = JSON.stringify({
+      bookmarks: [
+        ...saved,
+        { article: { id: "x" }, contentType: "blogs", savedAt: "2024-01-01" },
+        { ...saved[0], contentType: "launches" },
+        { ...saved[0], savedAt: "not a date" },
+      ],
+    });
+
+    expect(parseBookmarksExport(text)).toEqual({
+      bookmarks: saved,
+      skipped: 3,
+    });
+  });
+
+  it("rejects files that are not exports", () => {
+    expect(() => parseBookmarksExport("not json")).toThrow(
+      "The file is not valid JSON",
+    );
+    expect(() => parseBookmarksExport('{"articles": []}')).toThrow(
+      "The file is not a saved articles export",
+    );
+  });
+});
+
+describe("createBookmarkStore", () => {
+  it("fails cleanly without IndexedDB", async () => {
+    // jsdom has no IndexedDB
+    const store = createBookmarkStore();
+
+    await expect(store.list()).rejects.toThrow("IndexedDB is not available");
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { createCircuitBreaker } from "../circuit-breaker";
+
+function setup() {
+  let time = Date.parse("2024-01-01T12:00:00Z");
+  const breaker = createCircuitBreaker({
+    failureThreshold: 3,
+    resetTimeoutMs: 1000,
+    now: () => time,
+  });
+  return {
+    breaker,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+function fail(breaker: ReturnType<typeof createCircuitBreaker>, times: number) {
+  for (let i = 0; i < times; i++) {
+    breaker.tryAcquire();
+    breaker.recordFailure();
+  }
+}
+
+describe("createCircuitBreaker", () => {
+  it("stays closed below the failure threshold", () => {
+    const { breaker } = setup();
+    fail(breaker, 2);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: "closed",
+      consecutiveFailures: 2,
+    });
+  });
+
+  it("resets the failure count on success", () => {
+    const { breaker } = setup();
+    fail(breaker, 2);
+    breaker.recordSuccess();
+    fail(breaker, 2);
+
+    expect(breaker.getSnapshot().state).toBe("closed");
+  });
+
+  it("opens after consecutive failures and fails fast", () => {
+    const { breaker } = setup();
+    fail(breaker, 3);
+
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getSnapshot()).toEqual({
+      state: "open",
+      consecutiveFailures: 3,
+      openedAt: "2024-01-01T12:00:00.000Z",
+      nextProbeAt: "2024-01-01T12:00:01.000Z",
+    });
+  });
+
+  it("lets a single probe through once the reset timeout passes", () => {
+    const { breaker, advance } = setup();
+    fail(breaker, 3);
+    advance(1000);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getSnapshot().state).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it("closes when the probe succeeds", () => {
+    const { breaker, advance } = setup();
+    fail(breaker, 3);
+    advance(1000);
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+    });
+  });
+
+  it("reopens when the probe fails", () => {
+    const { breaker, advance } = setup();
+    fail(breaker, 3);
+    advance(1000);
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: "open",
+      openedAt: "2024-01-01T12:00:01.000Z",
+    });
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it("frees the probe slot when the probe is released", () => {
+    const { breaker, advance } = setup();
+    fail(breaker, 3);
+    advance(1000);
+    breaker.tryAcquire();
+    breaker.release();
+
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  getDateFormatSettings,
+  getPreferredLocale,
+  isTimeZone,
+  serializeDateFormatSettings,
+} from "../date-format";
+import type { DateFormatSettings } from "~/types";
+
+function requestWithHeaders(headers: Record<string, string> = {}): Request {
+  return new Request("https://example.com/", { headers });
+}
+
+describe("getPreferredLocale", () => {
+  it("picks the highest weighted locale", () => {
+    expect(getPreferredLocale("en-US;q=0.5, de-DE, fr;q=0.8")).toBe("de-DE");
+  });
+
+  it("keeps the header order for equal weights", () => {
+    expect(getPreferredLocale("en-GB, en-US")).toBe("en-GB");
+  });
+
+  it("skips wildcards, zero weights and malformed tags", () => {
+    expect(getPreferredLocale("*, de;q=0, not_a_locale!, fr;q=0.2")).toBe("fr");
+  });
+
+  it("falls back to en-US", () => {
+    expect(getPreferredLocale(null)).toBe("en-US");
+    expect(getPreferredLocale("")).toBe("en-US");
+  });
+});
+
+describe("isTimeZone", () => {
+  it("accepts IANA zones and rejects anything else", () => {
+    expect(isTimeZone("Europe/Berlin")).toBe(true);
+    expect(isTimeZone("UTC")).toBe(true);
+    expect(isTimeZone("Mars/Olympus_Mons")).toBe(false);
+    expect(isTimeZone("")).toBe(false);
+    expect(isTimeZone(42)).toBe(false);
+  });
+});
+
+describe("date format settings", () => {
+  it("reads back the settings it stored, with the request's locale", async () => {
+    const setCookie = await serializeDateFormatSettings({
+      timeZone: "Asia/Tokyo",
+      display: "iso",
+      timestamps: "absolute",
+    });
+
+    expect(
+      await getDateFormatSettings(
+        requestWithHeaders({
+          Cookie: setCookie.split(";")[0],
+          "Accept-Language": "ja-JP,ja;q=0.9",
+        }),
+      ),
+    ).toEqual({
+      locale: "ja-JP",
+      timeZone: "Asia/Tokyo",
+      display: "iso",
+      timestamps: "absolute",
+    });
+  });
+
+  it("leaves the time zone unknown without a cookie", async () => {
+    expect(await getDateFormatSettings(requestWithHeaders())).toEqual({
+      locale: "en-US",
+      timeZone: null,
+      display: "local",
+      timestamps: "relative",
+    });
+  });
+
+  it("falls back per field for unknown values", async () => {
+    const setCookie = await serializeDateFormatSettings({
+      timeZone: "Nowhere/Special",
+      display: "iso",
+      timestamps: "absolute",
+    });
+    const tampered = await serializeDateFormatSettings({
+      timeZone: "Europe/Paris",
+      display: "binary",
+      timestamps: "sometimes",
+    } as unknown as DateFormatSettings);
+
+    expect(
+      await getDateFormatSettings(
+        requestWithHeaders({ Cookie: setCookie.split(";")[0] }),
+      ),
+    ).toMatchObject({
+      timeZone: null,
+      display: "iso",
+      timestamps: "absolute",
+    });
+    expect(
+      await getDateFormatSettings(
+        requestWithHeaders({ Cookie: tampered.split(";")[0] }),
+      ),
+    ).toMatchObject({
+      timeZone: "Europe/Paris",
+      display: "local",
+      timestamps: "relative",
+    });
+  });
+});
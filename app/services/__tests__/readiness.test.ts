@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  checkUpstream,
+  DEFAULT_READINESS_THRESHOLDS,
+  evaluateReadiness,
+  getBuildVersion,
+  getReadinessThresholdsFromEnv,
+} from "../readiness";
+import { fetchNewsSites } from "../spaceflight-api";
+import type { SpaceflightClientHealth } from "../spaceflight-api";
+
+vi.mock("../spaceflight-api");
+
+const mockFetchNewsSites = vi.mocked(fetchNewsSites);
+
+const reachable = { reachable: true, error: null };
+
+function health(
+  state: "closed" | "open" | "half-open",
+  requests: number,
+  failures: number,
+): SpaceflightClientHealth {
+  return {
+    circuit: {
+      state,
+      consecutiveFailures: 0,
+      openedAt: null,
+      nextProbeAt: null,
+    },
+    requests: {
+      windowMs: 300000,
+      requests,
+      failures,
+      errorRate: requests === 0 ? 0 : failures / requests,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+    },
+    cache: { entries: 0 },
+  };
+}
+
+describe("evaluateReadiness", () => {
+  it("is ready while the upstream answers and errors are rare", () => {
+    expect(evaluateReadiness(health("closed", 20, 1), reachable)).toBe("ready");
+  });
+
+  it("is degraded once the error rate passes the degraded threshold", () => {
+    expect(evaluateReadiness(health("closed", 20, 3), reachable)).toBe(
+      "degraded",
+    );
+  });
+
+  it("is down once the error rate passes the down threshold", () => {
+    expect(evaluateReadiness(health("closed", 20, 10), reachable)).toBe("down");
+  });
+
+  it("ignores the error rate until enough requests were made", () => {
+    expect(evaluateReadiness(health("closed", 2, 2), reachable)).toBe("ready");
+  });
+
+  it("is down while the circuit is open or the upstream is unreachable", () => {
+    expect(evaluateReadiness(health("open", 0, 0), reachable)).toBe("down");
+    expect(
+      evaluateReadiness(health("closed", 0, 0), {
+        reachable: false,
+        error: "Request timeout",
+      }),
+    ).toBe("down");
+  });
+
+  it("is degraded while the circuit is probing", () => {
+    expect(evaluateReadiness(health("half-open", 0, 0), reachable)).toBe(
+      "degraded",
+    );
+  });
+});
+
+describe("getReadinessThresholdsFromEnv", () => {
+  it("reads thresholds from the environment", () => {
+    expect(
+      getReadinessThresholdsFromEnv({
+        READY_DEGRADED_ERROR_RATE: "0.05",
+        READY_DOWN_ERROR_RATE: "0.3",
+        READY_MIN_REQUESTS: "10",
+      }),
+    ).toEqual({ degradedErrorRate: 0.05, downErrorRate: 0.3, minRequests: 10 });
+  });
+
+  it("falls back to defaults for missing or invalid values", () => {
+    expect(
+      getReadinessThresholdsFromEnv({
+        READY_DEGRADED_ERROR_RATE: "high",
+        READY_DOWN_ERROR_RATE: "2",
+        READY_MIN_REQUESTS: "-1",
+      }),
+    ).toEqual(DEFAULT_READINESS_THRESHOLDS);
+  });
+});
+
+describe("getBuildVersion", () => {
+  it("reads BUILD_VERSION and defaults to dev", () => {
+    expect(getBuildVersion({ BUILD_VERSION: "abc123" })).toBe("abc123");
+    expect(getBuildVersion({})).toBe("dev");
+  });
+});
+
+describe("checkUpstream", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("checks without retries", async () => {
+    mockFetchNewsSites.mockResolvedValue(["NASA"]);
+
+    expect(await checkUpstream()).toEqual(reachable);
+    expect(mockFetchNewsSites).toHaveBeenCalledWith(
+      expect.objectContaining({ retries: 0 }),
+    );
+  });
+
+  it("does not count a stale cached answer as reachable", async () => {
+    mockFetchNewsSites.mockImplementation(async (options) => {
+      options?.onStale?.(new Error("Request timeout") as never);
+      return ["NASA"];
+    });
+
+    expect(await checkUpstream()).toEqual({
+      reachable: false,
+      error: "Request timeout",
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { createRequestStats } from "../request-stats";
+
+describe("createRequestStats", () => {
+  it("reports an empty window as error free", () => {
+    expect(createRequestStats().getSnapshot()).toMatchObject({
+      requests: 0,
+      failures: 0,
+      errorRate: 0,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+    });
+  });
+
+  it("computes the error rate over the rolling window", () => {
+    let time = Date.parse("2024-01-01T12:00:00Z");
+    const stats = createRequestStats({ windowMs: 1000, now: () => time });
+
+    stats.recordFailure();
+    time += 500;
+    stats.recordSuccess();
+    stats.recordSuccess();
+    stats.recordFailure();
+    expect(stats.getSnapshot()).toMatchObject({ requests: 4, failures: 2 });
+
+    time += 600;
+    expect(stats.getSnapshot()).toEqual({
+      windowMs: 1000,
+      requests: 3,
+      failures: 1,
+      errorRate: 1 / 3,
+      lastSuccessAt: "2024-01-01T12:00:00.500Z",
+      lastFailureAt: "2024-01-01T12:00:00.500Z",
+    });
+  });
+});
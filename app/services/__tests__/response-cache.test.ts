@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from "vitest";
+import { createResponseCache } from "../response-cache";
+
+function setup() {
+  let time = 0;
+  const cache = createResponseCache({
+    ttlMs: 1000,
+    staleWhileRevalidateMs: 5000,
+    maxEntries: 2,
+    now: () => time,
+  });
+  return {
+    cache,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe("createResponseCache", () => {
+  it("serves fresh entries without loading again", async () => {
+    const { cache, advance } = setup();
+    const load = vi.fn(async () => "first");
+
+    await cache.get("a", load);
+    advance(999);
+    const result = await cache.get("a", load);
+
+    expect(result).toEqual({ value: "first", stale: false });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares one load between concurrent requests", async () => {
+    const { cache } = setup();
+    let resolve: (value: string) => void = () => {};
+    const load = vi.fn(
+      () =>
+        new Promise<string>((r) => {
+          resolve = r;
+        }),
+    );
+
+    const first = cache.get("a", load);
+    const second = cache.get("a", load);
+    resolve("shared");
+
+    expect((await first).value).toBe("shared");
+    expect((await second).value).toBe("shared");
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves an expired entry while revalidating in the background", async () => {
+    const { cache, advance } = setup();
+    await cache.get("a", async () => "old");
+    advance(2000);
+
+    const load = vi.fn(async () => "new");
+    const result = await cache.get("a", load);
+
+    expect(result).toEqual({ value: "old", stale: false });
+    expect(load).toHaveBeenCalledTimes(1);
+    await vi.waitFor(async () =>
+      expect((await cache.get("a", load)).value).toBe("new"),
+    );
+  });
+
+  it("waits for a fresh load once the revalidation window has passed", async () => {
+    const { cache, advance } = setup();
+    await cache.get("a", async () => "old");
+    advance(6000);
+
+    const result = await cache.get("a", async () => "new");
+
+    expect(result).toEqual({ value: "new", stale: false });
+  });
+
+  it("falls back to the last good value when a load fails", async () => {
+    const { cache, advance } = setup();
+    await cache.get("a", async () => "last good");
+    advance(60000);
+    const failure = new Error("upstream down");
+
+    const result = await cache.get("a", async () => {
+      throw failure;
+    });
+
+    expect(result).toEqual({ value: "last good", stale: true, error: failure });
+  });
+
+  it("rethrows failures it may not paper over", async () => {
+    const { cache, advance } = setup();
+    await cache.get("a", async () => "last good");
+    advance(60000);
+
+    await expect(
+      cache.get(
+        "a",
+        async () => {
+          throw new Error("not found");
+        },
+        { shouldServeStale: () => false },
+      ),
+    ).rejects.toThrow("not found");
+  });
+
+  it("rethrows when nothing was cached yet", async () => {
+    const { cache } = setup();
+
+    await expect(
+      cache.get("a", async () => {
+        throw new Error("upstream down");
+      }),
+    ).rejects.toThrow("upstream down");
+  });
+
+  it("evicts the oldest entry beyond maxEntries", async () => {
+    const { cache } = setup();
+    await cache.get("a", async () => "a");
+    await cache.get("b", async () => "b");
+    await cache.get("c", async () => "c");
+
+    const load = vi.fn(async () => "a again");
+    await cache.get("a", load);
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("forgets everything on clear", async () => {
+    const { cache } = setup();
+    await cache.get("a", async () => "a");
+    cache.clear();
+
+    const load = vi.fn(async () => "reloaded");
+    expect((await cache.get("a", load)).value).toBe("reloaded");
+  });
+});
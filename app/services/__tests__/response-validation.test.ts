@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatValidationIssue,
+  parseApiInfo,
+  parseApiResponse,
+  parseArticle,
+} from "../response-validation";
+import type { SpaceflightArticle } from "~/types/spaceflight";
+
+const validArticle: SpaceflightArticle = {
+  id: 1,
+  title: "Test Article",
+  summary: "This is a test article summary",
+  image_url: "https://example.com/image.jpg",
+  news_site: "Test News",
+  published_at: "2024-01-01T12:00:00Z",
+  url: "https://example.com/article",
+};
+
+function page(results: unknown[]) {
+  return { count: results.length, next: null, previous: null, results };
+}
+
+describe("parseApiResponse", () => {
+  it("accepts a valid page without issues", () => {
+    const result = parseApiResponse(page([validArticle]));
+
+    expect(result.value).toEqual(page([validArticle]));
+    expect(result.issues).toEqual([]);
+  });
+
+  it("repairs a null image_url instead of failing the page", () => {
+    const records = Array.from({ length: 13 }, (_, index) => ({
+      ...validArticle,
+      id: index + 1,
+    }));
+    records[12] = { ...records[12], image_url: null as unknown as string };
+
+    const result = parseApiResponse(page(records));
+
+    expect(result.value?.results).toHaveLength(13);
+    expect(result.value?.results[12].image_url).toBe("");
+    expect(result.issues.map(formatValidationIssue)).toEqual([
+      "results[12].image_url: expected string, got null",
+    ]);
+  });
+
+  it("drops records missing required fields and reports every field", () => {
+    const result = parseApiResponse(
+      page([validArticle, { id: "2", title: "Broken" }]),
+    );
+
+    expect(result.value?.results).toEqual([validArticle]);
+    expect(result.issues.map(formatValidationIssue)).toEqual([
+      "results[1].id: expected number, got string",
+      "results[1].summary: expected string, got undefined",
+      "results[1].image_url: expected string, got undefined",
+      "results[1].news_site: expected string, got undefined",
+      "results[1].published_at: expected string, got undefined",
+      "results[1].url: expected string, got undefined",
+    ]);
+  });
+
+  it("drops records whose publish date cannot be parsed", () => {
+    const result = parseApiResponse(
+      page([validArticle, { ...validArticle, id: 2, published_at: "soon" }]),
+    );
+
+    expect(result.value?.results).toEqual([validArticle]);
+    expect(result.issues.map(formatValidationIssue)).toEqual([
+      "results[1].published_at: expected ISO 8601 date, got string",
+    ]);
+  });
+
+  it("rejects a page whose envelope is broken", () => {
+    const result = parseApiResponse({ count: "many", results: [] });
+
+    expect(result.value).toBeNull();
+    expect(result.issues.map(formatValidationIssue)).toContain(
+      "count: expected number, got string",
+    );
+  });
+
+  it("rejects a page when no record survives", () => {
+    const result = parseApiResponse(page([{ id: 1, title: "Test" }]));
+
+    expect(result.value).toBeNull();
+    expect(result.issues).toContainEqual({
+      path: "results",
+      message: "no valid records",
+    });
+  });
+
+  it("accepts an empty page", () => {
+    expect(parseApiResponse(page([])).value).toEqual(page([]));
+  });
+});
+
+describe("parseArticle", () => {
+  it("reports malformed optional fields but keeps the article", () => {
+    const result = parseArticle({
+      ...validArticle,
+      featured: "yes",
+      authors: [{ name: "Valid Author", socials: null }, { name: "" }],
+    });
+
+    expect(result.value).toEqual({
+      ...validArticle,
+      authors: [{ name: "Valid Author" }],
+    });
+    expect(result.issues.map(formatValidationIssue)).toEqual([
+      "authors[1].name: expected non-empty string, got string",
+      "featured: expected boolean, got string",
+    ]);
+  });
+
+  it("rejects a non-object payload", () => {
+    const result = parseArticle(null);
+
+    expect(result.value).toBeNull();
+    expect(result.issues.map(formatValidationIssue)).toEqual([
+      "(root): expected object, got null",
+    ]);
+  });
+});
+
+describe("parseApiInfo", () => {
+  it("parses the news site list", () => {
+    expect(
+      parseApiInfo({ version: "4.0.0", news_sites: ["NASA", "ESA"] }).value,
+    ).toEqual({ version: "4.0.0", news_sites: ["NASA", "ESA"] });
+  });
+
+  it("rejects a payload without news sites", () => {
+    expect(parseApiInfo({ version: "4.0.0" }).value).toBeNull();
+  });
+});
@@ -1,8 +1,15 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
+  createSpaceflightClient,
   fetchArticles,
   fetchArticleById,
   fetchLatestArticles,
+  fetchNewsSites,
+  fetchNewsSiteFacets,
+  getClientOptionsFromEnv,
+  getSpaceflightHealth,
+  parseRetryAfter,
+  resetSpaceflightClient,
   SpaceflightApiError,
 } from "../spaceflight-api";
 import type {
@@ -37,6 +44,12 @@ function createMockResponse(data: any, status = 200, statusText = "OK") {
   });
 }
 
+// The default client caches responses and tracks failures, so start every
+// test with a fresh one
+beforeEach(() => {
+  resetSpaceflightClient();
+});
+
 describe("SpaceflightApiError", () => {
   it("should create error with message", () => {
     const error = new SpaceflightApiError("Test error");
@@ -90,6 +103,161 @@ describe("fetchArticles", () => {
     );
   });
 
+  it("should forward search filters as API query params", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValueOnce(createMockResponse(mockApiResponse));
+
+    await fetchArticles(20, 0, "-published_at", {
+      search: "Artemis II",
+      titleContains: "SLS",
+      summaryContains: "Orion",
+    });
+
+    const url = new URL(mockFetch.mock.calls[0][0] as string);
+    expect(url.searchParams.get("search")).toBe("Artemis II");
+    expect(url.searchParams.get("title_contains")).toBe("SLS");
+    expect(url.searchParams.get("summary_contains")).toBe("Orion");
+  });
+
+  it("should forward selected news sites as a comma-separated param", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValueOnce(createMockResponse(mockApiResponse));
+
+    await fetchArticles(20, 0, "-published_at", {
+      newsSites: ["SpaceNews", "NASA"],
+    });
+
+    const url = new URL(mockFetch.mock.calls[0][0] as string);
+    expect(url.searchParams.get("news_site")).toBe("SpaceNews,NASA");
+  });
+
+  it("should forward a published date range", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValueOnce(createMockResponse(mockApiResponse));
+
+    await fetchArticles(20, 0, "-published_at", {
+      publishedAfter: "2024-03-10T00:00:00.000Z",
+      publishedBefore: "2024-03-16T23:59:59.999Z",
+    });
+
+    const url = new URL(mockFetch.mock.calls[0][0] as string);
+    expect(url.searchParams.get("published_at_gte")).toBe(
+      "2024-03-10T00:00:00.000Z",
+    );
+    expect(url.searchParams.get("published_at_lte")).toBe(
+      "2024-03-16T23:59:59.999Z",
+    );
+  });
+
+  it("should forward launch and event filters", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValueOnce(createMockResponse(mockApiResponse));
+
+    await fetchArticles(20, 0, "-published_at", {
+      launchId: "f059ef7a-d9d6-4bd7-9cd0-d4e3b6e8b7a1",
+      eventId: 742,
+    });
+
+    const url = new URL(mockFetch.mock.calls[0][0] as string);
+    expect(url.searchParams.get("launch")).toBe(
+      "f059ef7a-d9d6-4bd7-9cd0-d4e3b6e8b7a1",
+    );
+    expect(url.searchParams.get("event")).toBe("742");
+  });
+
+  it("should keep well-formed optional v4 fields", async () => {
+    const mockFetch = vi.mocked(fetch);
+    const fullArticle = {
+      ...mockArticle,
+      authors: [
+        {
+          name: "Jeff Foust",
+          socials: { x: "https://x.com/jeff_foust", bluesky: "" },
+        },
+      ],
+      featured: true,
+      updated_at: "2024-01-02T08:00:00Z",
+      launches: [{ launch_id: "f059ef7a", provider: "Launch Library 2" }],
+      events: [{ event_id: 742, provider: "Launch Library 2" }],
+    };
+    mockFetch.mockResolvedValueOnce(
+      createMockResponse({ ...mockApiResponse, results: [fullArticle] }),
+    );
+
+    const result = await fetchArticles();
+
+    expect(result.results[0]).toEqual({
+      ...fullArticle,
+      authors: [
+        { name: "Jeff Foust", socials: { x: "https://x.com/jeff_foust" } },
+      ],
+    });
+  });
+
+  it("should drop malformed optional fields without rejecting the article", async () => {
+    const mockFetch = vi.mocked(fetch);
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockFetch.mockResolvedValueOnce(
+      createMockResponse({
+        ...mockApiResponse,
+        results: [
+          {
+            ...mockArticle,
+            authors: [{ name: "Valid Author" }, { socials: null }, "nobody"],
+            featured: "yes",
+            updated_at: "not-a-date",
+            launches: "none",
+            events: [{ event_id: "742", provider: "Launch Library 2" }],
+            unexpected_field: 42,
+          },
+        ],
+      }),
+    );
+
+    const result = await fetchArticles();
+
+    expect(result.results[0]).toEqual({
+      ...mockArticle,
+      authors: [{ name: "Valid Author" }],
+      events: [],
+    });
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining("repaired or dropped invalid fields"),
+      expect.arrayContaining([
+        "results[0].featured: expected boolean, got string",
+      ]),
+    );
+    warnSpy.mockRestore();
+  });
+
+  it("should fetch blogs and reports from their own endpoints", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockImplementation(async () =>
+      createMockResponse(mockApiResponse),
+    );
+
+    await fetchArticles(20, 0, "-published_at", {}, "blogs");
+    await fetchArticles(20, 0, "-published_at", {}, "reports");
+
+    expect(new URL(mockFetch.mock.calls[0][0] as string).pathname).toBe(
+      "/v4/blogs/",
+    );
+    expect(new URL(mockFetch.mock.calls[1][0] as string).pathname).toBe(
+      "/v4/reports/",
+    );
+  });
+
+  it("should omit empty search filters", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValueOnce(createMockResponse(mockApiResponse));
+
+    await fetchArticles(20, 0, "-published_at", { search: "", newsSites: [] });
+
+    const url = new URL(mockFetch.mock.calls[0][0] as string);
+    expect(url.searchParams.has("search")).toBe(false);
+    expect(url.searchParams.has("news_site")).toBe(false);
+  });
+
   it("should throw SpaceflightApiError on HTTP error", async () => {
     const mockFetch = vi.mocked(fetch);
     mockFetch.mockResolvedValue(createMockResponse(null, 404, "Not Found"));
@@ -149,6 +317,43 @@ describe("fetchArticles", () => {
 
     await expect(fetchArticles()).rejects.toThrow(SpaceflightApiError);
   });
+
+  it("should keep a page when only some records are invalid", async () => {
+    const mockFetch = vi.mocked(fetch);
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockFetch.mockResolvedValueOnce(
+      createMockResponse({
+        ...mockApiResponse,
+        count: 3,
+        results: [
+          mockArticle,
+          { ...mockArticle, id: 2, image_url: null },
+          { id: 3, title: "Broken" },
+        ],
+      }),
+    );
+
+    const result = await fetchArticles();
+
+    expect(result.results.map((article) => article.id)).toEqual([1, 2]);
+    expect(result.results[1].image_url).toBe("");
+    warnSpy.mockRestore();
+  });
+
+  it("should expose validation issues on the error", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValueOnce(
+      createMockResponse({ count: 1, next: null, previous: null }),
+    );
+
+    const error = await fetchArticles().catch((e) => e);
+
+    expect(error).toBeInstanceOf(SpaceflightApiError);
+    expect(error.code).toBe("INVALID_RESPONSE");
+    expect(error.issues).toEqual([
+      { path: "results", message: "expected array, got undefined" },
+    ]);
+  });
 });
 
 describe("fetchArticleById", () => {
@@ -176,6 +381,18 @@ describe("fetchArticleById", () => {
     await expect(fetchArticleById(1)).rejects.toThrow(SpaceflightApiError);
   });
 
+  it("should fetch a single report from the reports endpoint", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValueOnce(createMockResponse(mockArticle));
+
+    await fetchArticleById(1, "reports");
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining("/reports/1/"),
+      expect.any(Object),
+    );
+  });
+
   it("should throw SpaceflightApiError on invalid article format", async () => {
     const mockFetch = vi.mocked(fetch);
     mockFetch.mockResolvedValue(createMockResponse({ invalid: "article" }));
@@ -216,3 +433,749 @@ describe("fetchLatestArticles", () => {
     );
   });
 });
+
+describe("fetchNewsSites", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should fetch news site names from the info endpoint", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValueOnce(
+      createMockResponse({ version: "4.0.0", news_sites: ["NASA", "ESA"] }),
+    );
+
+    const result = await fetchNewsSites();
+
+    expect(result).toEqual(["NASA", "ESA"]);
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining("/info/"),
+      expect.any(Object),
+    );
+  });
+
+  it("should throw SpaceflightApiError on invalid info format", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValueOnce(createMockResponse({ version: "4.0.0" }));
+
+    await expect(fetchNewsSites()).rejects.toThrow(
+      "Invalid info format from API",
+    );
+  });
+});
+
+describe("fetchNewsSiteFacets", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should count the content type's entries per news site", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockImplementation(async (input) => {
+      const url = new URL(input as string);
+      if (url.pathname.endsWith("/info/")) {
+        return createMockResponse({
+          version: "4.0.0",
+          news_sites: ["SpaceNews", "ESA"],
+        });
+      }
+      const site = url.searchParams.get("news_site");
+      return createMockResponse({
+        ...mockApiResponse,
+        count: site === "ESA" ? 4 : 12,
+      });
+    });
+
+    const result = await fetchNewsSiteFacets("blogs");
+
+    expect(result).toEqual([
+      { name: "ESA", count: 4 },
+      { name: "SpaceNews", count: 12 },
+    ]);
+
+    const countUrls = mockFetch.mock.calls
+      .map(([input]) => new URL(input as string))
+      .filter((url) => url.searchParams.has("news_site"));
+    expect(countUrls).toHaveLength(2);
+    for (const url of countUrls) {
+      expect(url.pathname).toMatch(/\/blogs\/$/);
+      expect(url.searchParams.get("limit")).toBe("1");
+    }
+  });
+
+  function mockSites(
+    newsSites: string[],
+    countFor: (site: string) => Promise<Response>,
+  ) {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockImplementation(async (input) => {
+      const url = new URL(input as string);
+      if (url.pathname.endsWith("/info/")) {
+        return createMockResponse({ version: "4.0.0", news_sites: newsSites });
+      }
+      return countFor(url.searchParams.get("news_site") ?? "");
+    });
+    return () =>
+      mockFetch.mock.calls.filter(([input]) =>
+        new URL(input as string).searchParams.has("news_site"),
+      ).length;
+  }
+
+  it("should cache the counts per content type, apart from the page cache", async () => {
+    const countRequests = mockSites(["SpaceNews", "ESA"], async () =>
+      createMockResponse({ ...mockApiResponse, count: 3 }),
+    );
+
+    await fetchNewsSiteFacets("articles");
+    await fetchNewsSiteFacets("articles");
+    expect(countRequests()).toBe(2);
+
+    await fetchNewsSiteFacets("reports");
+    expect(countRequests()).toBe(4);
+    expect(getSpaceflightHealth().cache?.entries).toBe(1); // Only /info/
+  });
+
+  it("should keep count failures out of the circuit breaker and stats", async () => {
+    const client = createSpaceflightClient({
+      fetch: vi.fn(async (input: RequestInfo | URL) =>
+        new URL(input as string).pathname.endsWith("/info/")
+          ? createMockResponse({
+              version: "4.0.0",
+              news_sites: ["ESA", "NASA"],
+            })
+          : createMockResponse({}, 429, "Too Many Requests"),
+      ),
+      circuitBreaker: { failureThreshold: 1 },
+    });
+
+    await expect(client.fetchNewsSiteFacets()).rejects.toBeInstanceOf(
+      SpaceflightApiError,
+    );
+
+    const { circuit, requests } = client.getHealth();
+    expect(circuit?.state).toBe("closed");
+    expect(requests).toMatchObject({ requests: 1, failures: 0 }); // Only /info/
+  });
+
+  it("should leave out a site whose count fails", async () => {
+    mockSites(["SpaceNews", "ESA"], async (site) =>
+      site === "ESA"
+        ? createMockResponse({}, 404, "Not Found")
+        : createMockResponse({ ...mockApiResponse, count: 12 }),
+    );
+
+    expect(await fetchNewsSiteFacets()).toEqual([
+      { name: "SpaceNews", count: 12 },
+    ]);
+  });
+
+  it("should fail when every count fails", async () => {
+    mockSites(["SpaceNews", "ESA"], async () =>
+      createMockResponse({}, 404, "Not Found"),
+    );
+
+    await expect(fetchNewsSiteFacets()).rejects.toBeInstanceOf(
+      SpaceflightApiError,
+    );
+  });
+
+  it("should keep only a few count requests in flight", async () => {
+    const sites = Array.from({ length: 10 }, (_, index) => `Site ${index}`);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mockSites(sites, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return createMockResponse({ ...mockApiResponse, count: 1 });
+    });
+
+    expect(await fetchNewsSiteFacets()).toHaveLength(10);
+    expect(maxInFlight).toBe(4);
+  });
+});
+
+describe("request retries", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function settle<T>(promise: Promise<T>) {
+    return promise.then(
+      (value) => ({ value, error: undefined }),
+      (error) => ({ value: undefined, error }),
+    );
+  }
+
+  it("should retry 5xx responses with backoff until one succeeds", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse(null, 502, "Bad Gateway"))
+      .mockResolvedValueOnce(createMockResponse(null, 500, "Server Error"))
+      .mockResolvedValueOnce(createMockResponse(mockApiResponse));
+
+    const result = settle(fetchArticles());
+
+    // Half of the 250ms and 500ms backoff windows
+    await vi.advanceTimersByTimeAsync(124);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(250);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect((await result).value).toEqual(mockApiResponse);
+  });
+
+  it("should retry network errors and timeouts", async () => {
+    const mockFetch = vi.mocked(fetch);
+    const abortError = new Error("The operation was aborted");
+    abortError.name = "AbortError";
+    mockFetch
+      .mockRejectedValueOnce(new Error("socket hang up"))
+      .mockRejectedValueOnce(abortError)
+      .mockResolvedValueOnce(createMockResponse(mockApiResponse));
+
+    const result = settle(fetchArticles());
+    await vi.runAllTimersAsync();
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect((await result).value).toEqual(mockApiResponse);
+  });
+
+  it("should time out a hanging attempt and retry it", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch
+      .mockImplementationOnce(
+        (_input, init) =>
+          new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () => {
+              const abortError = new Error("The operation was aborted");
+              abortError.name = "AbortError";
+              reject(abortError);
+            });
+          }),
+      )
+      .mockResolvedValueOnce(createMockResponse(mockApiResponse));
+
+    const result = settle(
+      fetchArticles(20, 0, "-published_at", {}, "articles", {
+        timeoutMs: 1000,
+      }),
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(125);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect((await result).value).toEqual(mockApiResponse);
+  });
+
+  it("should not retry client errors", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValue(createMockResponse(null, 404, "Not Found"));
+
+    const { error } = await settle(fetchArticles());
+
+    expect(error).toBeInstanceOf(SpaceflightApiError);
+    expect(error.status).toBe(404);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw the last failure once retries are exhausted", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse(null, 500, "Server Error"))
+      .mockResolvedValueOnce(createMockResponse(null, 503, "Unavailable"));
+
+    const result = settle(
+      fetchArticles(20, 0, "-published_at", {}, "articles", { retries: 1 }),
+    );
+    await vi.runAllTimersAsync();
+    const { error } = await result;
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(error).toBeInstanceOf(SpaceflightApiError);
+    expect(error.status).toBe(503);
+  });
+
+  it("should wait for Retry-After on 429 and 503 responses", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch
+      .mockResolvedValueOnce(
+        new Response(null, {
+          status: 429,
+          statusText: "Too Many Requests",
+          headers: { "Retry-After": "3" },
+        }),
+      )
+      .mockResolvedValueOnce(createMockResponse(mockApiResponse));
+
+    const result = settle(fetchArticles());
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect((await result).value).toEqual(mockApiResponse);
+  });
+
+  it("should give up when Retry-After would overrun the deadline", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValue(
+      new Response(null, {
+        status: 503,
+        statusText: "Service Unavailable",
+        headers: { "Retry-After": "120" },
+      }),
+    );
+
+    const { error } = await settle(
+      fetchArticles(20, 0, "-published_at", {}, "articles", {
+        deadlineMs: 10000,
+      }),
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(error.status).toBe(503);
+  });
+
+  it("should cancel pending retries when the signal aborts", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockResolvedValue(createMockResponse(null, 500, "Server Error"));
+    const controller = new AbortController();
+
+    const client = createSpaceflightClient({ cache: false });
+
+    const result = settle(
+      client.fetchArticles(20, 0, "-published_at", {}, "articles", {
+        signal: controller.signal,
+      }),
+    );
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+    await vi.runAllTimersAsync();
+    const { error } = await result;
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(SpaceflightApiError);
+    expect(error.code).toBe("ABORTED");
+  });
+
+  it("should abort the in-flight attempt when the signal aborts", async () => {
+    const mockFetch = vi.mocked(fetch);
+    mockFetch.mockImplementation(
+      (_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => {
+            const abortError = new Error("The operation was aborted");
+            abortError.name = "AbortError";
+            reject(abortError);
+          });
+        }),
+    );
+    const controller = new AbortController();
+    const client = createSpaceflightClient({ cache: false });
+
+    const result = settle(
+      client.fetchArticleById(1, "articles", { signal: controller.signal }),
+    );
+    controller.abort();
+    const { error } = await result;
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(error.code).toBe("ABORTED");
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should read delay seconds", () => {
+    expect(parseRetryAfter("120")).toBe(120000);
+  });
+
+  it("should read an HTTP date relative to now", () => {
+    const now = Date.parse("2024-01-01T12:00:00Z");
+    expect(parseRetryAfter("Mon, 01 Jan 2024 12:00:30 GMT", now)).toBe(30000);
+    expect(parseRetryAfter("Mon, 01 Jan 2024 11:00:00 GMT", now)).toBe(0);
+  });
+
+  it("should ignore missing or malformed values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("")).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
+
+describe("createSpaceflightClient", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should use the injected fetch instead of the global one", async () => {
+    const stubFetch = vi.fn(async () => createMockResponse(mockApiResponse));
+    const client = createSpaceflightClient({ fetch: stubFetch });
+
+    const result = await client.fetchArticles();
+
+    expect(result).toEqual(mockApiResponse);
+    expect(stubFetch).toHaveBeenCalledTimes(1);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should request from the configured base URL", async () => {
+    const stubFetch = vi.fn(async () => createMockResponse(mockArticle));
+    const client = createSpaceflightClient({
+      baseUrl: "http://localhost:8080/v4/",
+      fetch: stubFetch,
+    });
+
+    await client.fetchArticleById(1, "blogs");
+
+    expect(stubFetch).toHaveBeenCalledWith(
+      "http://localhost:8080/v4/blogs/1/",
+      expect.anything(),
+    );
+  });
+
+  it("should send configured headers and user agent", async () => {
+    const stubFetch = vi.fn(async () =>
+      createMockResponse({ version: "4.0.0", news_sites: [] }),
+    );
+    const client = createSpaceflightClient({
+      fetch: stubFetch,
+      headers: { Authorization: "Bearer mirror-token" },
+      userAgent: "spaceflight-news-staging",
+    });
+
+    await client.fetchNewsSites({ headers: { "X-Request-Id": "abc" } });
+
+    expect(stubFetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: "Bearer mirror-token",
+          "User-Agent": "spaceflight-news-staging",
+          "X-Request-Id": "abc",
+        },
+      }),
+    );
+  });
+
+  it("should apply the configured timeout to each attempt", async () => {
+    vi.useFakeTimers();
+    try {
+      const stubFetch = vi.fn(
+        (_input: RequestInfo | URL, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () => {
+              const abortError = new Error("The operation was aborted");
+              abortError.name = "AbortError";
+              reject(abortError);
+            });
+          }),
+      );
+      const client = createSpaceflightClient({
+        fetch: stubFetch,
+        timeoutMs: 500,
+      });
+
+      const result = client
+        .fetchArticles(20, 0, "-published_at", {}, "articles", { retries: 0 })
+        .catch((e) => e);
+      await vi.advanceTimersByTimeAsync(500);
+      const error = await result;
+
+      expect(error).toBeInstanceOf(SpaceflightApiError);
+      expect(error.code).toBe("TIMEOUT");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("response caching", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createClient(stubFetch: typeof fetch) {
+    let time = 0;
+    const client = createSpaceflightClient({
+      fetch: stubFetch,
+      cache: { ttlMs: 1000, staleWhileRevalidateMs: 0, now: () => time },
+    });
+    return {
+      client,
+      advance: (ms: number) => {
+        time += ms;
+      },
+    };
+  }
+
+  it("should reuse a cached page regardless of query param order", async () => {
+    const stubFetch = vi.fn(async () => createMockResponse(mockApiResponse));
+    const { client } = createClient(stubFetch);
+
+    await client.fetchArticles(20, 0, "-published_at", {
+      search: "Artemis",
+      newsSites: ["NASA"],
+    });
+    const result = await client.fetchArticles(20, 0, "-published_at", {
+      newsSites: ["NASA"],
+      search: "Artemis",
+    });
+
+    expect(result).toEqual(mockApiResponse);
+    expect(stubFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share one upstream fetch between concurrent requests", async () => {
+    const stubFetch = vi.fn(async () => createMockResponse(mockApiResponse));
+    const { client } = createClient(stubFetch);
+
+    await Promise.all([client.fetchArticles(), client.fetchArticles()]);
+
+    expect(stubFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should serve the last good page when the upstream fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const stubFetch = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(createMockResponse(mockApiResponse));
+    const { client, advance } = createClient(stubFetch);
+    await client.fetchArticles();
+    advance(60000);
+    stubFetch.mockRejectedValue(new Error("socket hang up"));
+    const onStale = vi.fn();
+
+    const result = await client.fetchArticles(
+      20,
+      0,
+      "-published_at",
+      {},
+      "articles",
+      { retries: 0, onStale },
+    );
+
+    expect(result).toEqual(mockApiResponse);
+    expect(onStale).toHaveBeenCalledWith(
+      expect.objectContaining({ code: "NETWORK_ERROR" }),
+    );
+  });
+
+  it("should not hide a missing article behind the cache", async () => {
+    const stubFetch = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(createMockResponse(mockArticle))
+      .mockResolvedValue(createMockResponse(null, 404, "Not Found"));
+    const { client, advance } = createClient(stubFetch);
+    await client.fetchArticleById(1);
+    advance(60000);
+
+    await expect(client.fetchArticleById(1)).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it("should let an aborted caller stop waiting on a shared fetch", async () => {
+    const stubFetch = vi.fn<typeof fetch>(() => new Promise(() => {}));
+    const { client } = createClient(stubFetch);
+    const controller = new AbortController();
+
+    const result = client
+      .fetchArticles(20, 0, "-published_at", {}, "articles", {
+        signal: controller.signal,
+      })
+      .catch((e) => e);
+    controller.abort();
+
+    expect(await result).toMatchObject({ code: "ABORTED" });
+  });
+});
+
+describe("circuit breaker", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should fail fast once the upstream keeps failing", async () => {
+    const stubFetch = vi.fn(async () =>
+      createMockResponse(null, 500, "Server Error"),
+    );
+    const client = createSpaceflightClient({
+      fetch: stubFetch,
+      cache: false,
+      circuitBreaker: { failureThreshold: 2 },
+    });
+    const options = { retries: 0 };
+
+    await client
+      .fetchArticles(20, 0, "-published_at", {}, "articles", options)
+      .catch(() => {});
+    await client
+      .fetchArticles(20, 0, "-published_at", {}, "articles", options)
+      .catch(() => {});
+    const error = await client
+      .fetchArticles(20, 0, "-published_at", {}, "articles", options)
+      .catch((e) => e);
+
+    expect(stubFetch).toHaveBeenCalledTimes(2);
+    expect(error).toBeInstanceOf(SpaceflightApiError);
+    expect(error.code).toBe("CIRCUIT_OPEN");
+    expect(client.getHealth().circuit).toMatchObject({
+      state: "open",
+      consecutiveFailures: 2,
+    });
+  });
+
+  it("should not count client errors as upstream failures", async () => {
+    const stubFetch = vi.fn(async () =>
+      createMockResponse(null, 404, "Not Found"),
+    );
+    const client = createSpaceflightClient({
+      fetch: stubFetch,
+      cache: false,
+      circuitBreaker: { failureThreshold: 1 },
+    });
+
+    await client.fetchArticleById(1).catch(() => {});
+    await client.fetchArticleById(2).catch(() => {});
+
+    expect(stubFetch).toHaveBeenCalledTimes(2);
+    expect(client.getHealth().circuit?.state).toBe("closed");
+  });
+
+  it("should probe the upstream again after the reset timeout", async () => {
+    let time = 0;
+    const stubFetch = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(createMockResponse(null, 503, "Unavailable"))
+      .mockResolvedValueOnce(createMockResponse(mockApiResponse));
+    const client = createSpaceflightClient({
+      fetch: stubFetch,
+      cache: false,
+      circuitBreaker: {
+        failureThreshold: 1,
+        resetTimeoutMs: 30000,
+        now: () => time,
+      },
+    });
+    const options = { retries: 0 };
+
+    await client
+      .fetchArticles(20, 0, "-published_at", {}, "articles", options)
+      .catch(() => {});
+    time = 30000;
+    const result = await client.fetchArticles(
+      20,
+      0,
+      "-published_at",
+      {},
+      "articles",
+      options,
+    );
+
+    expect(result).toEqual(mockApiResponse);
+    expect(client.getHealth().circuit?.state).toBe("closed");
+  });
+
+  it("should serve cached pages while the circuit is open", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    let time = 0;
+    const stubFetch = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(createMockResponse(mockApiResponse))
+      .mockResolvedValue(createMockResponse(null, 500, "Server Error"));
+    const client = createSpaceflightClient({
+      fetch: stubFetch,
+      cache: { ttlMs: 1000, staleWhileRevalidateMs: 0, now: () => time },
+      circuitBreaker: { failureThreshold: 1 },
+    });
+    const options = { retries: 0, onStale: vi.fn() };
+
+    await client.fetchArticles();
+    time = 60000;
+    await client.fetchArticles(20, 0, "-published_at", {}, "articles", options);
+    const result = await client.fetchArticles(
+      20,
+      0,
+      "-published_at",
+      {},
+      "articles",
+      options,
+    );
+
+    expect(result).toEqual(mockApiResponse);
+    expect(stubFetch).toHaveBeenCalledTimes(2);
+    expect(options.onStale).toHaveBeenLastCalledWith(
+      expect.objectContaining({ code: "CIRCUIT_OPEN" }),
+    );
+  });
+});
+
+describe("client health", () => {
+  it("should report recent upstream outcomes and cache size", async () => {
+    const stubFetch = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(createMockResponse(mockApiResponse))
+      .mockResolvedValueOnce(createMockResponse(null, 404, "Not Found"))
+      .mockResolvedValueOnce(createMockResponse(null, 500, "Server Error"));
+    const client = createSpaceflightClient({ fetch: stubFetch });
+    const options = { retries: 0 };
+
+    await client.fetchArticles(20, 0, "-published_at", {}, "articles", options);
+    await client.fetchArticleById(1, "articles", options).catch(() => {});
+    await client.fetchArticleById(2, "articles", options).catch(() => {});
+
+    expect(client.getHealth()).toMatchObject({
+      circuit: { state: "closed", consecutiveFailures: 1 },
+      requests: { requests: 3, failures: 1 },
+      cache: { entries: 1 },
+    });
+  });
+});
+
+describe("getClientOptionsFromEnv", () => {
+  it("should read the API settings from the environment", () => {
+    expect(
+      getClientOptionsFromEnv({
+        SPACEFLIGHT_API_URL: "http://mirror.internal/v4",
+        SPACEFLIGHT_API_TIMEOUT_MS: "3000",
+        SPACEFLIGHT_API_USER_AGENT: "spaceflight-news",
+      }),
+    ).toEqual({
+      baseUrl: "http://mirror.internal/v4",
+      timeoutMs: 3000,
+      userAgent: "spaceflight-news",
+    });
+  });
+
+  it("should fall back to defaults for missing or invalid values", () => {
+    expect(
+      getClientOptionsFromEnv({ SPACEFLIGHT_API_TIMEOUT_MS: "soon" }),
+    ).toEqual({
+      baseUrl: undefined,
+      timeoutMs: undefined,
+      userAgent: undefined,
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import {
+  getThemePreference,
+  isThemePreference,
+  serializeThemePreference,
+} from "../theme";
+
+function requestWithCookie(cookie?: string): Request {
+  return new Request("https://example.com/", {
+    headers: cookie ? { Cookie: cookie } : {},
+  });
+}
+
+describe("theme preference", () => {
+  it("reads back the theme it stored", async () => {
+    const setCookie = await serializeThemePreference("dark");
+    const cookie = setCookie.split(";")[0];
+
+    expect(await getThemePreference(requestWithCookie(cookie))).toBe("dark");
+  });
+
+  it("stores the theme for the whole site", async () => {
+    const setCookie = await serializeThemePreference("light");
+
+    expect(setCookie).toMatch(/^theme=/);
+    expect(setCookie).toContain("Path=/");
+    expect(setCookie).toContain("SameSite=Lax");
+    expect(setCookie).toContain("Max-Age=31536000");
+  });
+
+  it("follows the system without a cookie", async () => {
+    expect(await getThemePreference(requestWithCookie())).toBe("system");
+  });
+
+  it("ignores a tampered cookie", async () => {
+    const value = btoa(encodeURIComponent(JSON.stringify("purple")));
+
+    expect(await getThemePreference(requestWithCookie(`theme=${value}`))).toBe(
+      "system",
+    );
+  });
+
+  it("only accepts the known themes", () => {
+    expect(isThemePreference("light")).toBe(true);
+    expect(isThemePreference("dark")).toBe(true);
+    expect(isThemePreference("system")).toBe(true);
+    expect(isThemePreference("sepia")).toBe(false);
+    expect(isThemePreference(null)).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { createCookie } from "react-router";
+import type {
+  AccessibilityPreferences,
+  ContrastPreference,
+  MotionPreference,
+} from "~/types";
+
+export const MOTION_PREFERENCES: readonly MotionPreference[] = [
+  "system",
+  "reduce",
+  "full",
+];
+
+export const CONTRAST_PREFERENCES: readonly ContrastPreference[] = [
+  "system",
+  "more",
+  "standard",
+];
+
+export const DEFAULT_ACCESSIBILITY_PREFERENCES: AccessibilityPreferences = {
+  motion: "system",
+  contrast: "system",
+};
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+const accessibilityCookie = createCookie("accessibility", {
+  path: "/",
+  sameSite: "lax",
+  maxAge: ONE_YEAR_SECONDS,
+});
+
+export function isMotionPreference(value: unknown): value is MotionPreference {
+  return MOTION_PREFERENCES.includes(value as MotionPreference);
+}
+
+export function isContrastPreference(
+  value: unknown,
+): value is ContrastPreference {
+  return CONTRAST_PREFERENCES.includes(value as ContrastPreference);
+}
+
+/**
+ * Reads the motion and contrast overrides from the request cookie; anything
+ * missing or unknown follows the OS setting
+ */
+export async function getAccessibilityPreferences(
+  request: Request,
+): Promise<AccessibilityPreferences> {
+  const value: unknown = await accessibilityCookie.parse(
+    request.headers.get("Cookie"),
+  );
+  const stored =
+    typeof value === "object" && value !== null
+      ? (value as Record<string, unknown>)
+      : {};
+
+  return {
+    motion: isMotionPreference(stored.motion)
+      ? stored.motion
+      : DEFAULT_ACCESSIBILITY_PREFERENCES.motion,
+    contrast: isContrastPreference(stored.contrast)
+      ? stored.contrast
+      : DEFAULT_ACCESSIBILITY_PREFERENCES.contrast,
+  };
+}
+
+/**
+ * Set-Cookie header value storing the overrides
+ */
+export function serializeAccessibilityPreferences(
+  preferences: AccessibilityPreferences,
+): Promise<string> {
+  return accessibilityCookie.serialize(preferences);
+}
@@ -0,0 +1,259 @@
+import {
+  fetchArticles,
+  fetchNewsSiteFacets,
+  SpaceflightApiError,
+} from "./spaceflight-api";
+import { formatValidationIssue } from "./response-validation";
+import { NO_STORE_CACHE_CONTROL, serverErrorResponse } from "./server-error";
+import {
+  getArticleFiltersFromParams,
+  getContentTypeFromParams,
+  getFeedHref,
+  sortArticles,
+  toArticleQueryFilters,
+} from "~/utils";
+import type { ArticlesLoaderData, NewsSiteFacetsData, SortBy } from "~/types";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+/** Cache for 5 minutes, serve stale for 10 minutes */
+export const PUBLIC_CACHE_CONTROL =
+  "public, max-age=300, stale-while-revalidate=600";
+
+/**
+ * Parses a positive integer query param, falling back on missing or bad input
+ */
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = parseInt(value ?? "", 10);
+  return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
+
+/**
+ * Reads the pagination, sort, type and filter params shared by the index
+ * route and the /api/articles resource route
+ */
+function getPageRequest(url: URL) {
+  const limit = Math.min(
+    parsePositiveInt(url.searchParams.get("limit"), DEFAULT_LIMIT),
+    MAX_LIMIT,
+  ); // Cap at 50 articles
+  const page = parsePositiveInt(url.searchParams.get("page"), 1);
+  // An explicit offset takes precedence over the 1-based page number
+  const offset = url.searchParams.has("offset")
+    ? Math.max(parseInt(url.searchParams.get("offset") ?? "", 10) || 0, 0)
+    : (page - 1) * limit;
+  const sortBy: SortBy =
+    url.searchParams.get("sort") === "title" ? "title" : "date";
+
+  return {
+    limit,
+    page,
+    offset,
+    sortBy,
+    contentType: getContentTypeFromParams(url.searchParams),
+    filters: toArticleQueryFilters(
+      getArticleFiltersFromParams(url.searchParams),
+    ),
+  };
+}
+
+/**
+ * Fetches one page of articles for the given request (type, limit, page,
+ * offset, sort and the ArticleFilters params). Throws when the upstream
+ * fails and no cached page can stand in.
+ */
+export async function fetchArticlesPage(
+  request: Request,
+): Promise<ArticlesLoaderData> {
+  const { limit, offset, sortBy, contentType, filters } = getPageRequest(
+    new URL(request.url),
+  );
+  const loadedAt = new Date().toISOString();
+  // Set when the service falls back to the last good page
+  let stale = false;
+
+  // The service retries transient failures and serves cached pages
+  const response = await fetchArticles(
+    limit,
+    offset,
+    "-published_at",
+    filters,
+    contentType,
+    {
+      signal: request.signal,
+      onStale: () => {
+        stale = true;
+      },
+    },
+  );
+
+  return {
+    // Like the UI, sort=title re-sorts the loaded page; the upstream only
+    // orders by date
+    articles:
+      sortBy === "title"
+        ? sortArticles(response.results, sortBy)
+        : response.results,
+    contentType,
+    error: null,
+    meta: {
+      total: response.count,
+      hasMore: response.next !== null,
+      limit,
+      offset,
+      loadedAt,
+      stale,
+    },
+  };
+}
+
+function articlesPageResponse(loaderData: ArticlesLoaderData): Response {
+  return new Response(JSON.stringify(loaderData), {
+    headers: {
+      "Content-Type": "application/json",
+      // Don't let downstream caches keep a fallback page
+      "Cache-Control": loaderData.meta.stale
+        ? NO_STORE_CACHE_CONTROL
+        : PUBLIC_CACHE_CONTROL,
+    },
+  });
+}
+
+/**
+ * The page's URL without view, sort and page size params, so every variant
+ * of a feed page is indexed once
+ */
+function getCanonicalUrl(url: URL): string {
+  const { page, contentType } = getPageRequest(url);
+  const canonicalUrl = new URL(
+    getFeedHref(contentType, getArticleFiltersFromParams(url.searchParams)),
+    url.origin,
+  );
+  if (page > 1) canonicalUrl.searchParams.set("page", page.toString());
+  return canonicalUrl.href;
+}
+
+/**
+ * Loads one page of articles for the index route. Failures still render
+ * the page, with an empty list and the error message in the loader data.
+ */
+export async function loadArticlesPage(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const canonicalUrl = getCanonicalUrl(url);
+
+  try {
+    return articlesPageResponse({
+      ...(await fetchArticlesPage(request)),
+      canonicalUrl,
+    });
+  } catch (error) {
+    const { limit, offset, contentType } = getPageRequest(url);
+
+    console.error("Failed to fetch articles:", error);
+    if (error instanceof SpaceflightApiError && error.issues.length > 0) {
+      console.error(
+        "Invalid API payload:",
+        error.issues.map(formatValidationIssue),
+      );
+    }
+
+    // Enhanced error handling with different fallback strategies
+    let errorMessage = "Failed to load articles";
+    let statusCode = 500;
+    let retryAfter: number | undefined;
+
+    if (error instanceof SpaceflightApiError) {
+      errorMessage = error.message;
+      statusCode = error.status || 500;
+
+      // Set retry-after for rate limiting or temporary failures
+      if (error.status === 429 || error.status === 503) {
+        retryAfter = 60; // Retry after 1 minute
+      }
+    } else if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+
+    // Return fallback data with error information
+    const fallbackData: ArticlesLoaderData = {
+      articles: [], // Empty array as fallback
+      contentType,
+      error: errorMessage,
+      canonicalUrl,
+      meta: {
+        total: 0,
+        hasMore: false,
+        limit,
+        offset,
+        loadedAt: new Date().toISOString(),
+        stale: false,
+      },
+    };
+
+    const headers: Record<string, string> = {
+      "Cache-Control": NO_STORE_CACHE_CONTROL, // Don't cache errors
+    };
+
+    if (retryAfter) {
+      headers["Retry-After"] = retryAfter.toString();
+    }
+
+    // For server errors, return 500 status but still provide JSON response
+    // This allows the client to handle the error gracefully
+    return new Response(JSON.stringify(fallbackData), {
+      status: statusCode >= 500 ? 500 : 200, // Return 500 for server errors, 200 for client errors with error data
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+    });
+  }
+}
+
+/**
+ * Loads one page of articles for the /api/articles resource route. Unlike
+ * the index route, failures are answered with a ServerError.
+ */
+export async function loadArticlesApiPage(request: Request): Promise<Response> {
+  try {
+    return articlesPageResponse(await fetchArticlesPage(request));
+  } catch (error) {
+    return serverErrorResponse(error, "Failed to load articles");
+  }
+}
+
+/**
+ * Loads the news site counts for the source filter, for the
+ * /api/news-sites resource route. The feed page fetches them after it
+ * renders, since they take one upstream request per site on a cold cache.
+ * They are optional: a failure answers with no facets, which only hides the
+ * filter.
+ */
+export async function loadNewsSiteFacets(request: Request): Promise<Response> {
+  const contentType = getContentTypeFromParams(
+    new URL(request.url).searchParams,
+  );
+  let data: NewsSiteFacetsData;
+  let cacheControl = PUBLIC_CACHE_CONTROL;
+
+  try {
+    data = {
+      contentType,
+      facets: await fetchNewsSiteFacets(contentType, {
+        signal: request.signal,
+      }),
+    };
+  } catch (error) {
+    console.warn("Failed to fetch news site facets:", error);
+    data = { contentType, facets: [] };
+    cacheControl = NO_STORE_CACHE_CONTROL;
+  }
+
+  return new Response(JSON.stringify(data), {
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": cacheControl,
+    },
+  });
+}
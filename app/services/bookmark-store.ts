@@ -0,0 +1,182 @@
+import { parseArticle } from "./response-validation";
+import { isContentType } from "~/utils";
+import type { ContentType, SavedArticle } from "~/types";
+
+export interface BookmarkStoreOptions {
+  indexedDB?: IDBFactory;
+  dbName?: string;
+}
+
+/**
+ * Persistence for the read-later list. Records are keyed by content type
+ * and id, since ids are only unique within one API endpoint.
+ */
+export interface BookmarkStore {
+  list(): Promise<SavedArticle[]>;
+  put(saved: SavedArticle[]): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+export interface BookmarksImport {
+  bookmarks: SavedArticle[];
+  /** Entries that were not valid saved articles */
+  skipped: number;
+}
+
+const DEFAULT_DB_NAME = "spaceflight-news";
+const DB_VERSION = 1;
+const STORE_NAME = "bookmarks";
+
+/** Format version written to exports; bump when the shape changes */
+export const BOOKMARKS_EXPORT_VERSION = 1;
+
+interface BookmarkRecord extends SavedArticle {
+  key: string;
+}
+
+export function getBookmarkKey(contentType: ContentType, id: number): string {
+  return `${contentType}:${id}`;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toSavedArticle({ key: _key, ...saved }: BookmarkRecord): SavedArticle {
+  return saved;
+}
+
+/**
+ * Creates a bookmark store backed by IndexedDB, so the full article
+ * snapshots are available offline. The database is opened on first use.
+ */
+export function createBookmarkStore({
+  indexedDB = globalThis.indexedDB,
+  dbName = DEFAULT_DB_NAME,
+}: BookmarkStoreOptions = {}): BookmarkStore {
+  let db: Promise<IDBDatabase> | undefined;
+
+  function open(): Promise<IDBDatabase> {
+    if (!indexedDB) {
+      return Promise.reject(new Error("IndexedDB is not available"));
+    }
+
+    db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error: unknown) => {
+      // Let the next call try again, e.g. after the user unblocks storage
+      db = undefined;
+      throw error;
+    });
+
+    return db;
+  }
+
+  async function transact<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T> | void,
+  ): Promise<T | undefined> {
+    const transaction = (await open()).transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    // Listen before the request settles; handlers added later never fire
+    const result = request ? promisify(request) : undefined;
+    // A failed request also fails the transaction, which is what we report
+    result?.catch(() => {});
+
+    // Writes only count once the whole transaction has committed
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+
+    return result;
+  }
+
+  return {
+    async list() {
+      const records = await transact<BookmarkRecord[]>("readonly", (store) =>
+        store.getAll(),
+      );
+      return (records ?? []).map(toSavedArticle);
+    },
+
+    async put(saved) {
+      await transact("readwrite", (store) => {
+        for (const item of saved) {
+          store.put({
+            key: getBookmarkKey(item.contentType, item.article.id),
+            ...item,
+          } satisfies BookmarkRecord);
+        }
+      });
+    },
+
+    async remove(key) {
+      await transact("readwrite", (store) => store.delete(key));
+    },
+  };
+}
+
+/**
+ * Serialises the list for moving it to another browser
+ */
+export function serializeBookmarks(
+  bookmarks: SavedArticle[],
+  now: Date = new Date(),
+): string {
+  return JSON.stringify(
+    {
+      version: BOOKMARKS_EXPORT_VERSION,
+      exportedAt: now.toISOString(),
+      bookmarks,
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Reads an export made by serializeBookmarks. Articles are validated like
+ * API responses; invalid entries are skipped rather than failing the import.
+ */
+export function parseBookmarksExport(text: string): BookmarksImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const entries =
+    data && typeof data === "object" && "bookmarks" in data
+      ? data.bookmarks
+      : undefined;
+  if (!Array.isArray(entries)) {
+    throw new Error("The file is not a saved articles export");
+  }
+
+  const bookmarks: SavedArticle[] = [];
+  for (const entry of entries) {
+    const { value: article } = parseArticle(entry?.article);
+    const savedAt = Date.parse(entry?.savedAt);
+
+    if (article && isContentType(entry.contentType) && !isNaN(savedAt)) {
+      bookmarks.push({
+        article,
+        contentType: entry.contentType,
+        savedAt: new Date(savedAt).toISOString(),
+      });
+    }
+  }
+
+  return { bookmarks, skipped: entries.length - bookmarks.length };
+}
@@ -0,0 +1,103 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a probe is let through */
+  resetTimeoutMs?: number;
+  now?: () => number;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** ISO timestamp of when the circuit last opened */
+  openedAt: string | null;
+  /** ISO timestamp of when the next probe is allowed, while open */
+  nextProbeAt: string | null;
+}
+
+export interface CircuitBreaker {
+  /**
+   * Whether a request may go out now. In half-open state only one probe is
+   * let through; every caller that gets true must report back with
+   * recordSuccess, recordFailure or release.
+   */
+  tryAcquire(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  /** Reports a request that ended without telling us anything, e.g. aborted */
+  release(): void;
+  getSnapshot(): CircuitBreakerSnapshot;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Creates a circuit breaker that stops calling a failing upstream for a
+ * while, so callers fail fast instead of waiting out timeouts
+ */
+export function createCircuitBreaker({
+  failureThreshold = DEFAULT_FAILURE_THRESHOLD,
+  resetTimeoutMs = DEFAULT_RESET_TIMEOUT_MS,
+  now = Date.now,
+}: CircuitBreakerOptions = {}): CircuitBreaker {
+  let state: CircuitState = "closed";
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let probeInFlight = false;
+
+  function open() {
+    state = "open";
+    openedAt = now();
+    probeInFlight = false;
+  }
+
+  return {
+    tryAcquire() {
+      if (state === "open" && openedAt !== null) {
+        if (now() - openedAt < resetTimeoutMs) return false;
+        state = "half-open";
+      }
+
+      if (state === "half-open") {
+        if (probeInFlight) return false;
+        probeInFlight = true;
+      }
+
+      return true;
+    },
+
+    recordSuccess() {
+      state = "closed";
+      consecutiveFailures = 0;
+      openedAt = null;
+      probeInFlight = false;
+    },
+
+    recordFailure() {
+      consecutiveFailures++;
+      // A failed probe reopens the circuit straight away
+      if (state === "half-open" || consecutiveFailures >= failureThreshold) {
+        open();
+      }
+    },
+
+    release() {
+      if (state === "half-open") probeInFlight = false;
+    },
+
+    getSnapshot() {
+      return {
+        state,
+        consecutiveFailures,
+        openedAt: openedAt === null ? null : new Date(openedAt).toISOString(),
+        nextProbeAt:
+          state === "open" && openedAt !== null
+            ? new Date(openedAt + resetTimeoutMs).toISOString()
+            : null,
+      };
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import { createCookie } from "react-router";
+import type { DateDisplay, DateFormatSettings, TimestampStyle } from "~/types";
+import { DEFAULT_DATE_FORMAT } from "~/utils";
+
+export const DATE_DISPLAYS: readonly DateDisplay[] = ["local", "iso"];
+
+export const TIMESTAMP_STYLES: readonly TimestampStyle[] = [
+  "relative",
+  "absolute",
+];
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+const dateFormatCookie = createCookie("date-format", {
+  path: "/",
+  sameSite: "lax",
+  maxAge: ONE_YEAR_SECONDS,
+});
+
+export function isDateDisplay(value: unknown): value is DateDisplay {
+  return DATE_DISPLAYS.includes(value as DateDisplay);
+}
+
+export function isTimestampStyle(value: unknown): value is TimestampStyle {
+  return TIMESTAMP_STYLES.includes(value as TimestampStyle);
+}
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || value === "") return false;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The most preferred locale in an Accept-Language header that Intl can
+ * format dates in
+ */
+export function getPreferredLocale(acceptLanguage: string | null): string {
+  const locales = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const qParam = params.find((param) => param.trim().startsWith("q="));
+      const quality = qParam ? Number(qParam.trim().slice(2)) : 1;
+      return { tag: tag.trim(), quality: isNaN(quality) ? 0 : quality };
+    })
+    .filter(({ tag, quality }) => tag && tag !== "*" && quality > 0)
+    // Array#sort is stable, so equal weights keep the header's order
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const { tag } of locales) {
+    try {
+      const [supported] = Intl.DateTimeFormat.supportedLocalesOf(tag);
+      if (supported) return supported;
+    } catch {
+      // Malformed language tag; try the next one
+    }
+  }
+
+  return DEFAULT_DATE_FORMAT.locale;
+}
+
+/**
+ * Date settings for a request: the locale from Accept-Language and the time
+ * zone, display and timestamp style from the date-format cookie
+ */
+export async function getDateFormatSettings(
+  request: Request,
+): Promise<DateFormatSettings> {
+  const value: unknown = await dateFormatCookie.parse(
+    request.headers.get("Cookie"),
+  );
+  const stored =
+    typeof value === "object" && value !== null
+      ? (value as Record<string, unknown>)
+      : {};
+
+  return {
+    locale: getPreferredLocale(request.headers.get("Accept-Language")),
+    timeZone: isTimeZone(stored.timeZone) ? stored.timeZone : null,
+    display: isDateDisplay(stored.display)
+      ? stored.display
+      : DEFAULT_DATE_FORMAT.display,
+    timestamps: isTimestampStyle(stored.timestamps)
+      ? stored.timestamps
+      : DEFAULT_DATE_FORMAT.timestamps,
+  };
+}
+
+/**
+ * Set-Cookie header value storing the time zone, display and timestamp
+ * style. The locale is not stored; it comes with every request.
+ */
+export function serializeDateFormatSettings({
+  timeZone,
+  display,
+  timestamps,
+}: Omit<DateFormatSettings, "locale">): Promise<string> {
+  return dateFormatCookie.serialize({ timeZone, display, timestamps });
+}
@@ -0,0 +1,175 @@
+import { fetchArticles } from "./spaceflight-api";
+import { PUBLIC_CACHE_CONTROL } from "./articles-loader";
+import { NO_STORE_CACHE_CONTROL, serverErrorResponse } from "./server-error";
+import {
+  buildAtomFeed,
+  buildJsonFeed,
+  buildRssFeed,
+  CONTENT_TYPE_LABELS,
+  getArticleFiltersFromParams,
+  getContentPath,
+  getContentTypeFromParams,
+  getFeedHref,
+  getFeedLastModified,
+  toArticleQueryFilters,
+} from "~/utils";
+import type { FeedChannel } from "~/utils";
+import type { ArticleFilters, SyndicationFormat } from "~/types";
+
+const FEED_LIMIT = 30;
+
+const CONTENT_TYPES: Record<SyndicationFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+const BUILDERS: Record<
+  SyndicationFormat,
+  typeof buildRssFeed | typeof buildAtomFeed | typeof buildJsonFeed
+> = {
+  rss: buildRssFeed,
+  atom: buildAtomFeed,
+  json: buildJsonFeed,
+};
+
+/**
+ * FNV-1a hash of the document, used as its ETag
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Describes the active filters, e.g. ` matching "Artemis" from NASA`
+ */
+function describeFilters(filters: ArticleFilters): string {
+  let description = "";
+
+  if (filters.searchTerm) {
+    description += ` matching "${filters.searchTerm}"`;
+  }
+  if (filters.newsSites && filters.newsSites.length > 0) {
+    description += ` from ${filters.newsSites.join(", ")}`;
+  }
+
+  return description;
+}
+
+/**
+ * Whether the client's cached copy is still current. If-None-Match wins
+ * over If-Modified-Since, as HTTP requires.
+ */
+function isNotModified(
+  request: Request,
+  etag: string,
+  lastModified: Date | null,
+): boolean {
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .some((tag) => tag === etag || tag === "*");
+  }
+
+  const ifModifiedSince = Date.parse(
+    request.headers.get("If-Modified-Since") ?? "",
+  );
+  if (lastModified && !isNaN(ifModifiedSince)) {
+    // HTTP dates only carry whole seconds
+    return Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince;
+  }
+
+  return false;
+}
+
+/**
+ * Loads the newest articles for the request's filters and serialises them
+ * as an RSS, Atom or JSON feed. Honours the index page's type, q,
+ * news_site, launch, event and date range params, and answers conditional
+ * GETs with 304 Not Modified.
+ */
+export async function loadSyndicationFeed(
+  request: Request,
+  format: SyndicationFormat,
+): Promise<Response> {
+  const url = new URL(request.url);
+  const contentType = getContentTypeFromParams(url.searchParams);
+  const filters = getArticleFiltersFromParams(url.searchParams);
+
+  let articles;
+  // Set when the service falls back to the last good page
+  let stale = false;
+  try {
+    const response = await fetchArticles(
+      FEED_LIMIT,
+      0,
+      "-published_at",
+      toArticleQueryFilters(filters),
+      contentType,
+      {
+        signal: request.signal,
+        onStale: () => {
+          stale = true;
+        },
+      },
+    );
+    articles = response.results;
+  } catch (error) {
+    // JSON clients get a structured error like the /api routes
+    if (format === "json") {
+      return serverErrorResponse(error, "Failed to build JSON Feed");
+    }
+
+    console.error(`Failed to build ${format} feed:`, error);
+    return new Response("Feed temporarily unavailable", {
+      status: 503,
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": NO_STORE_CACHE_CONTROL, // Don't cache errors
+        "Retry-After": "60",
+      },
+    });
+  }
+
+  const { plural } = CONTENT_TYPE_LABELS[contentType];
+  const qualifiers = describeFilters(filters);
+  const channel: FeedChannel = {
+    title: `Spaceflight News - ${plural}${qualifiers}`,
+    description: `The latest ${plural.toLowerCase()}${qualifiers} from the Spaceflight News API`,
+    siteUrl: new URL(getFeedHref(contentType, filters), url.origin).href,
+    feedUrl: url.href,
+    getArticleUrl: (article) =>
+      new URL(getContentPath(contentType, article.id), url.origin).href,
+  };
+
+  const body = BUILDERS[format](channel, articles);
+  const etag = `"${hashString(body)}"`;
+  const lastModified = getFeedLastModified(articles);
+
+  const headers: Record<string, string> = {
+    // Same freshness as the HTML feed, and likewise not kept when stale
+    "Cache-Control": stale ? NO_STORE_CACHE_CONTROL : PUBLIC_CACHE_CONTROL,
+    ETag: etag,
+  };
+  if (lastModified) {
+    headers["Last-Modified"] = lastModified.toUTCString();
+  }
+
+  if (isNotModified(request, etag, lastModified)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+      ...headers,
+    },
+  });
+}
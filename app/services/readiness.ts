@@ -0,0 +1,125 @@
+import { fetchNewsSites } from "./spaceflight-api";
+import type {
+  SpaceflightApiError,
+  SpaceflightClientHealth,
+} from "./spaceflight-api";
+
+export type ReadinessStatus = "ready" | "degraded" | "down";
+
+export interface ReadinessThresholds {
+  /** Recent error rate from which the service reports degraded */
+  degradedErrorRate: number;
+  /** Recent error rate from which the service reports down */
+  downErrorRate: number;
+  /** Fewer requests than this in the window never change the status */
+  minRequests: number;
+}
+
+export interface UpstreamCheck {
+  reachable: boolean;
+  error: string | null;
+}
+
+export const DEFAULT_READINESS_THRESHOLDS: ReadinessThresholds = {
+  degradedErrorRate: 0.1,
+  downErrorRate: 0.5,
+  minRequests: 5,
+};
+
+const UPSTREAM_CHECK_TIMEOUT_MS = 2000;
+
+type Env = Record<string, string | undefined>;
+
+function getProcessEnv(): Env {
+  return typeof process === "undefined" ? {} : process.env;
+}
+
+function parseRate(value: string | undefined, fallback: number): number {
+  const rate = Number(value);
+  return value && rate >= 0 && rate <= 1 ? rate : fallback;
+}
+
+/**
+ * Reads readiness thresholds from the environment:
+ * READY_DEGRADED_ERROR_RATE, READY_DOWN_ERROR_RATE (0 to 1) and
+ * READY_MIN_REQUESTS
+ */
+export function getReadinessThresholdsFromEnv(
+  env: Env = getProcessEnv(),
+): ReadinessThresholds {
+  const minRequests = Number(env.READY_MIN_REQUESTS);
+
+  return {
+    degradedErrorRate: parseRate(
+      env.READY_DEGRADED_ERROR_RATE,
+      DEFAULT_READINESS_THRESHOLDS.degradedErrorRate,
+    ),
+    downErrorRate: parseRate(
+      env.READY_DOWN_ERROR_RATE,
+      DEFAULT_READINESS_THRESHOLDS.downErrorRate,
+    ),
+    minRequests:
+      Number.isInteger(minRequests) && minRequests >= 0
+        ? minRequests
+        : DEFAULT_READINESS_THRESHOLDS.minRequests,
+  };
+}
+
+/**
+ * Build version set at image build time, "dev" otherwise
+ */
+export function getBuildVersion(env: Env = getProcessEnv()): string {
+  return env.BUILD_VERSION || "dev";
+}
+
+/**
+ * Checks that the upstream answers, without retries. A response served
+ * from the cache within its TTL counts as reachable; a stale fallback
+ * does not.
+ */
+export async function checkUpstream(
+  signal?: AbortSignal,
+): Promise<UpstreamCheck> {
+  let staleError: SpaceflightApiError | undefined;
+
+  try {
+    await fetchNewsSites({
+      retries: 0,
+      timeoutMs: UPSTREAM_CHECK_TIMEOUT_MS,
+      signal,
+      onStale: (error) => {
+        staleError = error;
+      },
+    });
+  } catch (error) {
+    return {
+      reachable: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  return staleError
+    ? { reachable: false, error: staleError.message }
+    : { reachable: true, error: null };
+}
+
+/**
+ * Decides readiness from the upstream check and the service layer state
+ */
+export function evaluateReadiness(
+  health: SpaceflightClientHealth,
+  upstream: UpstreamCheck,
+  thresholds: ReadinessThresholds = DEFAULT_READINESS_THRESHOLDS,
+): ReadinessStatus {
+  if (!upstream.reachable || health.circuit?.state === "open") {
+    return "down";
+  }
+
+  const { requests, errorRate } = health.requests;
+  if (requests >= thresholds.minRequests) {
+    if (errorRate >= thresholds.downErrorRate) return "down";
+    if (errorRate >= thresholds.degradedErrorRate) return "degraded";
+  }
+
+  return health.circuit?.state === "half-open" ? "degraded" : "ready";
+}
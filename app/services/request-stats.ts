@@ -0,0 +1,75 @@
+export interface RequestStatsOptions {
+  /** How far back outcomes count towards the error rate, in milliseconds */
+  windowMs?: number;
+  now?: () => number;
+}
+
+export interface RequestStatsSnapshot {
+  windowMs: number;
+  requests: number;
+  failures: number;
+  /** Share of failed requests in the window, 0 when there were none */
+  errorRate: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+}
+
+export interface RequestStats {
+  recordSuccess(): void;
+  recordFailure(): void;
+  getSnapshot(): RequestStatsSnapshot;
+}
+
+const DEFAULT_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Tracks upstream request outcomes over a rolling window
+ */
+export function createRequestStats({
+  windowMs = DEFAULT_WINDOW_MS,
+  now = Date.now,
+}: RequestStatsOptions = {}): RequestStats {
+  let outcomes: { at: number; ok: boolean }[] = [];
+  let lastSuccessAt: number | null = null;
+  let lastFailureAt: number | null = null;
+
+  function prune() {
+    const cutoff = now() - windowMs;
+    // Outcomes are appended in time order, so expired ones are at the front
+    const firstLive = outcomes.findIndex((outcome) => outcome.at > cutoff);
+    outcomes = firstLive === -1 ? [] : outcomes.slice(firstLive);
+  }
+
+  function record(ok: boolean) {
+    const at = now();
+    outcomes.push({ at, ok });
+    if (ok) {
+      lastSuccessAt = at;
+    } else {
+      lastFailureAt = at;
+    }
+    prune();
+  }
+
+  function toIso(time: number | null) {
+    return time === null ? null : new Date(time).toISOString();
+  }
+
+  return {
+    recordSuccess: () => record(true),
+    recordFailure: () => record(false),
+    getSnapshot() {
+      prune();
+      const failures = outcomes.filter((outcome) => !outcome.ok).length;
+
+      return {
+        windowMs,
+        requests: outcomes.length,
+        failures,
+        errorRate: outcomes.length === 0 ? 0 : failures / outcomes.length,
+        lastSuccessAt: toIso(lastSuccessAt),
+        lastFailureAt: toIso(lastFailureAt),
+      };
+    },
+  };
+}
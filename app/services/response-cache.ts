@@ -0,0 +1,123 @@
+export interface ResponseCacheOptions {
+  /** How long an entry is served without revalidating, in milliseconds */
+  ttlMs?: number;
+  /**
+   * How long after the TTL an entry is still served while it is refreshed
+   * in the background, in milliseconds
+   */
+  staleWhileRevalidateMs?: number;
+  /** Least recently stored entries are evicted beyond this size */
+  maxEntries?: number;
+  now?: () => number;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  /** True when the load failed and the last good value was served instead */
+  stale: boolean;
+  /** The failure that caused a stale value to be served */
+  error?: unknown;
+}
+
+export interface CacheLoadOptions {
+  /** Decides whether a failed load may fall back to the last good value */
+  shouldServeStale?: (error: unknown) => boolean;
+}
+
+export interface ResponseCache {
+  get<T>(
+    key: string,
+    load: () => Promise<T>,
+    options?: CacheLoadOptions,
+  ): Promise<CacheResult<T>>;
+  clear(): void;
+  /** Number of entries held, including expired ones kept for fallback */
+  size(): number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+const DEFAULT_TTL_MS = 60 * 1000;
+const DEFAULT_STALE_WHILE_REVALIDATE_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * Creates an in-memory cache for upstream responses. Concurrent loads of the
+ * same key share one promise, and entries outlive their TTL so they can be
+ * served when the upstream fails.
+ */
+export function createResponseCache({
+  ttlMs = DEFAULT_TTL_MS,
+  staleWhileRevalidateMs = DEFAULT_STALE_WHILE_REVALIDATE_MS,
+  maxEntries = DEFAULT_MAX_ENTRIES,
+  now = Date.now,
+}: ResponseCacheOptions = {}): ResponseCache {
+  const entries = new Map<string, CacheEntry>();
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  function store(key: string, value: unknown) {
+    // Re-inserting moves the key to the end, so the first key is the oldest
+    entries.delete(key);
+    entries.set(key, { value, storedAt: now() });
+
+    if (entries.size > maxEntries) {
+      const oldestKey = entries.keys().next().value;
+      if (oldestKey !== undefined) entries.delete(oldestKey);
+    }
+  }
+
+  function refresh<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = load()
+      .then((value) => {
+        store(key, value);
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+
+    inFlight.set(key, promise);
+    return promise;
+  }
+
+  async function get<T>(
+    key: string,
+    load: () => Promise<T>,
+    { shouldServeStale = () => true }: CacheLoadOptions = {},
+  ): Promise<CacheResult<T>> {
+    const entry = entries.get(key);
+    const age = entry ? now() - entry.storedAt : Infinity;
+
+    if (entry && age < ttlMs) {
+      return { value: entry.value as T, stale: false };
+    }
+
+    if (entry && age < ttlMs + staleWhileRevalidateMs) {
+      // A failed background refresh leaves the current entry in place
+      refresh(key, load).catch(() => {});
+      return { value: entry.value as T, stale: false };
+    }
+
+    try {
+      return { value: await refresh(key, load), stale: false };
+    } catch (error) {
+      if (entry && shouldServeStale(error)) {
+        return { value: entry.value as T, stale: true, error };
+      }
+      throw error;
+    }
+  }
+
+  return {
+    get,
+    clear() {
+      entries.clear();
+      inFlight.clear();
+    },
+    size: () => entries.size,
+  };
+}
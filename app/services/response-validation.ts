@@ -0,0 +1,259 @@
+import type {
+  ArticleAuthor,
+  ArticleEvent,
+  ArticleLaunch,
+  SpaceflightApiInfo,
+  SpaceflightApiResponse,
+  SpaceflightArticle,
+} from "~/types/spaceflight";
+
+/**
+ * A single problem found in an API payload, e.g.
+ * { path: "results[12].image_url", message: "expected string, got null" }
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  /** Parsed (and possibly repaired) value, or null when unusable */
+  value: T | null;
+  issues: ValidationIssue[];
+}
+
+const INVALID = Symbol("invalid");
+
+type Schema<T> = (
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+) => T | typeof INVALID;
+
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return `${issue.path || "(root)"}: ${issue.message}`;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function fail(
+  issues: ValidationIssue[],
+  path: string,
+  expected: string,
+  value: unknown,
+): typeof INVALID {
+  issues.push({
+    path,
+    message: `expected ${expected}, got ${describeValue(value)}`,
+  });
+  return INVALID;
+}
+
+function primitive<T>(type: "string" | "number" | "boolean"): Schema<T> {
+  return (value, path, issues) =>
+    typeof value === type ? (value as T) : fail(issues, path, type, value);
+}
+
+const string = () => primitive<string>("string");
+const number = () => primitive<number>("number");
+const boolean = () => primitive<boolean>("boolean");
+
+/**
+ * Narrows a schema with an extra check, e.g. "non-empty string"
+ */
+function refine<T>(
+  schema: Schema<T>,
+  check: (value: T) => boolean,
+  expected: string,
+): Schema<T> {
+  return (value, path, issues) => {
+    const parsed = schema(value, path, issues);
+    if (parsed === INVALID) return INVALID;
+    return check(parsed) ? parsed : fail(issues, path, expected, value);
+  };
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path, issues) =>
+    value === null ? null : schema(value, path, issues);
+}
+
+/**
+ * Missing or null values are left out; malformed ones are reported and
+ * left out too, so a bad optional field never costs the whole record
+ */
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues) => {
+    if (value === undefined || value === null) return undefined;
+    const parsed = schema(value, path, issues);
+    return parsed === INVALID ? undefined : parsed;
+  };
+}
+
+/**
+ * Repairs a malformed value by substituting a fallback
+ */
+function withFallback<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return (value, path, issues) => {
+    const parsed = schema(value, path, issues);
+    return parsed === INVALID ? fallback : parsed;
+  };
+}
+
+/**
+ * Parses each item, dropping the ones that fail
+ */
+function arrayOf<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) return fail(issues, path, "array", value);
+    return value
+      .map((entry, index) => item(entry, joinPath(path, index), issues))
+      .filter((entry): entry is T => entry !== INVALID);
+  };
+}
+
+function object<T extends object>(shape: {
+  [K in keyof T]-?: Schema<T[K]>;
+}): Schema<T> {
+  return (value, path, issues) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return fail(issues, path, "object", value);
+    }
+
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    let valid = true;
+
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const parsed = shape[key](record[key], joinPath(path, key), issues);
+      if (parsed === INVALID) {
+        valid = false; // Keep going so every broken field is reported
+      } else if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+
+    return valid ? (result as T) : INVALID;
+  };
+}
+
+/**
+ * Social links are sparse in practice; empty entries are not worth reporting
+ */
+const socials: Schema<Record<string, string>> = (value, path, issues) => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return fail(issues, path, "object", value);
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, string] =>
+        typeof entry[1] === "string" && entry[1] !== "",
+    ),
+  );
+};
+
+const isoDate = () =>
+  refine(
+    string(),
+    (value) => !isNaN(new Date(value).getTime()),
+    "ISO 8601 date",
+  );
+
+const authorSchema = object<ArticleAuthor>({
+  name: refine(string(), (name) => name.trim() !== "", "non-empty string"),
+  socials: optional(socials),
+});
+
+const launchSchema = object<ArticleLaunch>({
+  launch_id: string(),
+  provider: string(),
+});
+
+const eventSchema = object<ArticleEvent>({
+  event_id: number(),
+  provider: string(),
+});
+
+const articleSchema = object<SpaceflightArticle>({
+  id: number(),
+  title: string(),
+  // Cards cope with an empty summary or image, so these are repaired
+  summary: withFallback(string(), ""),
+  image_url: withFallback(string(), ""),
+  news_site: string(),
+  published_at: isoDate(),
+  url: string(),
+  authors: optional(arrayOf(authorSchema)),
+  featured: optional(boolean()),
+  updated_at: optional(isoDate()),
+  launches: optional(arrayOf(launchSchema)),
+  events: optional(arrayOf(eventSchema)),
+});
+
+const apiResponseSchema = object<SpaceflightApiResponse>({
+  count: number(),
+  next: nullable(string()),
+  previous: nullable(string()),
+  results: arrayOf(articleSchema),
+});
+
+const apiInfoSchema = object<SpaceflightApiInfo>({
+  version: string(),
+  news_sites: arrayOf(string()),
+});
+
+function run<T>(schema: Schema<T>, data: unknown): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const parsed = schema(data, "", issues);
+  return { value: parsed === INVALID ? null : parsed, issues };
+}
+
+/**
+ * Parses a page of articles. Bad records are repaired or dropped
+ * individually; the page is only rejected when its envelope is broken or
+ * none of its records survive, which points at an upstream schema change.
+ */
+export function parseApiResponse(
+  data: unknown,
+): ValidationResult<SpaceflightApiResponse> {
+  const result = run(apiResponseSchema, data);
+  const rawResults = (data as { results?: unknown } | null)?.results;
+
+  if (
+    result.value &&
+    result.value.results.length === 0 &&
+    Array.isArray(rawResults) &&
+    rawResults.length > 0
+  ) {
+    return {
+      value: null,
+      issues: [
+        ...result.issues,
+        { path: "results", message: "no valid records" },
+      ],
+    };
+  }
+
+  return result;
+}
+
+export function parseArticle(
+  data: unknown,
+): ValidationResult<SpaceflightArticle> {
+  return run(articleSchema, data);
+}
+
+export function parseApiInfo(
+  data: unknown,
+): ValidationResult<SpaceflightApiInfo> {
+  return run(apiInfoSchema, data);
+}
@@ -0,0 +1,78 @@
+import { SpaceflightApiError } from "./spaceflight-api";
+import { formatValidationIssue } from "./response-validation";
+import type { ServerError } from "~/types";
+
+/**
+ * Seconds clients are asked to wait after rate limiting or an outage
+ */
+const RETRY_AFTER_SECONDS = 60;
+
+/** For errors and fallback pages downstream caches must not keep */
+export const NO_STORE_CACHE_CONTROL = "no-cache, no-store, must-revalidate";
+
+/**
+ * HTTP status to report for an upstream failure. Our own timeouts and
+ * network errors are gateway problems, not the client's.
+ */
+function getErrorStatus(error: unknown): number {
+  if (!(error instanceof SpaceflightApiError)) return 500;
+  if (error.code === "TIMEOUT") return 504;
+  if (!error.status || error.status < 400) return 502;
+  return error.status;
+}
+
+/**
+ * Describes a failed request as a ServerError
+ */
+export function toServerError(
+  error: unknown,
+  fallbackMessage: string,
+): ServerError {
+  const status = getErrorStatus(error);
+
+  return {
+    message:
+      error instanceof SpaceflightApiError ? error.message : fallbackMessage,
+    status,
+    timestamp: new Date().toISOString(),
+    ...(status === 429 || status === 503
+      ? { retryAfter: RETRY_AFTER_SECONDS }
+      : {}),
+  };
+}
+
+/**
+ * Serialises a ServerError as an uncacheable JSON response
+ */
+export function serverErrorJson(serverError: ServerError): Response {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "Cache-Control": NO_STORE_CACHE_CONTROL, // Don't cache errors
+  };
+  if (serverError.retryAfter) {
+    headers["Retry-After"] = serverError.retryAfter.toString();
+  }
+
+  return new Response(JSON.stringify(serverError), {
+    status: serverError.status,
+    headers,
+  });
+}
+
+/**
+ * Logs a failed request and answers it with a ServerError JSON body
+ */
+export function serverErrorResponse(
+  error: unknown,
+  fallbackMessage: string,
+): Response {
+  console.error(`${fallbackMessage}:`, error);
+  if (error instanceof SpaceflightApiError && error.issues.length > 0) {
+    console.error(
+      "Invalid API payload:",
+      error.issues.map(formatValidationIssue),
+    );
+  }
+
+  return serverErrorJson(toServerError(error, fallbackMessage));
+}
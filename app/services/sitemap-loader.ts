@@ -0,0 +1,244 @@
+import { fetchArticles, fetchNewsSites } from "./spaceflight-api";
+import { PUBLIC_CACHE_CONTROL } from "./articles-loader";
+import { NO_STORE_CACHE_CONTROL } from "./server-error";
+import {
+  buildRobotsTxt,
+  buildSitemap,
+  buildSitemapIndex,
+  CONTENT_TYPE_LABELS,
+  getContentPath,
+  getFeedHref,
+  isContentType,
+} from "~/utils";
+import type { SitemapEntry } from "~/utils";
+import type { ContentType, SpaceflightArticle } from "~/types";
+
+/** Detail pages per child sitemap, one API request each */
+const SITEMAP_PAGE_SIZE = 100;
+/** Child sitemaps per content type; older items are left to the feeds */
+const SITEMAP_MAX_PAGES = 10;
+
+const SITEMAP_PATH = "/sitemap.xml";
+
+/** Resource routes crawlers have no use for */
+const ROBOTS_DISALLOW = ["/api/", "/health", "/ready"];
+
+const CONTENT_TYPES = Object.keys(CONTENT_TYPE_LABELS) as ContentType[];
+
+type Env = Record<string, string | undefined>;
+
+function getProcessEnv(): Env {
+  return typeof process === "undefined" ? {} : process.env;
+}
+
+/**
+ * Whether search engines may index this deployment. DEPLOY_ENV names the
+ * environment (falling back to NODE_ENV); only production is indexed, so
+ * staging and preview deployments stay out of search results.
+ */
+export function isIndexingAllowed(env: Env = getProcessEnv()): boolean {
+  return (env.DEPLOY_ENV || env.NODE_ENV) === "production";
+}
+
+/**
+ * Sitemaps report when an item was published; updates are too sparse in
+ * the API to be worth a crawl
+ */
+function getLastmod(article: SpaceflightArticle): string {
+  return new Date(article.published_at).toISOString();
+}
+
+function getDetailEntries(
+  origin: string,
+  contentType: ContentType,
+  articles: SpaceflightArticle[],
+): SitemapEntry[] {
+  return articles.map((article) => ({
+    loc: new URL(getContentPath(contentType, article.id), origin).href,
+    lastmod: getLastmod(article),
+  }));
+}
+
+/**
+ * The index page, one landing page per content type and one per news site.
+ * Type landing pages change whenever their newest item is published.
+ */
+function getLandingEntries(
+  origin: string,
+  newest: Partial<Record<ContentType, SpaceflightArticle>>,
+  newsSites: string[],
+): SitemapEntry[] {
+  return [
+    ...CONTENT_TYPES.map((contentType) => {
+      const article = newest[contentType];
+      return {
+        loc: new URL(getFeedHref(contentType), origin).href,
+        ...(article ? { lastmod: getLastmod(article) } : {}),
+      };
+    }),
+    ...newsSites.map((newsSite) => ({
+      loc: new URL(getFeedHref("articles", { newsSites: [newsSite] }), origin)
+        .href,
+    })),
+  ];
+}
+
+function getChildSitemapUrl(origin: string, section: string, page?: number) {
+  const url = new URL(SITEMAP_PATH, origin);
+  url.searchParams.set("section", section);
+  if (page !== undefined) url.searchParams.set("page", page.toString());
+  return url.href;
+}
+
+function fetchDetailPage(
+  contentType: ContentType,
+  page: number,
+  signal: AbortSignal,
+) {
+  return fetchArticles(
+    SITEMAP_PAGE_SIZE,
+    (page - 1) * SITEMAP_PAGE_SIZE,
+    "-published_at",
+    {},
+    contentType,
+    { signal },
+  );
+}
+
+/**
+ * Builds /sitemap.xml. While the recent items of every content type fit in
+ * one page the sitemap lists everything; beyond that it becomes a sitemap
+ * index of ?section=pages (landing pages) and ?section=<type>&page=<n>
+ * (detail pages, newest first).
+ */
+async function buildSitemapDocument(request: Request): Promise<string | null> {
+  const url = new URL(request.url);
+  const { origin } = url;
+  const section = url.searchParams.get("section");
+
+  if (isContentType(section)) {
+    const page = Number(url.searchParams.get("page") ?? "1");
+    if (!Number.isInteger(page) || page < 1 || page > SITEMAP_MAX_PAGES) {
+      return null;
+    }
+
+    const response = await fetchDetailPage(section, page, request.signal);
+    if (page > 1 && response.results.length === 0) return null;
+    return buildSitemap(getDetailEntries(origin, section, response.results));
+  }
+
+  if (section !== null && section !== "pages") return null;
+
+  const [firstPages, newsSites] = await Promise.all([
+    Promise.all(
+      CONTENT_TYPES.map((contentType) =>
+        fetchDetailPage(contentType, 1, request.signal),
+      ),
+    ),
+    fetchNewsSites({ signal: request.signal }),
+  ]);
+  const newest = Object.fromEntries(
+    CONTENT_TYPES.map((contentType, i) => [
+      contentType,
+      firstPages[i].results[0],
+    ]),
+  );
+  const landingEntries = getLandingEntries(origin, newest, newsSites);
+
+  if (section === "pages") {
+    return buildSitemap(landingEntries);
+  }
+
+  const isPaged = firstPages.some(
+    (response) => response.count > SITEMAP_PAGE_SIZE,
+  );
+  if (!isPaged) {
+    return buildSitemap([
+      ...landingEntries,
+      ...CONTENT_TYPES.flatMap((contentType, i) =>
+        getDetailEntries(origin, contentType, firstPages[i].results),
+      ),
+    ]);
+  }
+
+  const newestLastmod = landingEntries
+    .map((entry) => entry.lastmod)
+    .filter((lastmod) => lastmod !== undefined)
+    .sort()
+    .at(-1);
+
+  return buildSitemapIndex([
+    {
+      loc: getChildSitemapUrl(origin, "pages"),
+      ...(newestLastmod ? { lastmod: newestLastmod } : {}),
+    },
+    ...CONTENT_TYPES.flatMap((contentType, i) => {
+      const pageCount = Math.min(
+        Math.ceil(firstPages[i].count / SITEMAP_PAGE_SIZE),
+        SITEMAP_MAX_PAGES,
+      );
+      const article = newest[contentType];
+      return Array.from({ length: pageCount }, (_, index) => ({
+        loc: getChildSitemapUrl(origin, contentType, index + 1),
+        // Only the first page's newest item is known without fetching
+        ...(index === 0 && article ? { lastmod: getLastmod(article) } : {}),
+      }));
+    }),
+  ]);
+}
+
+/**
+ * Serves /sitemap.xml and its child sitemaps. Unknown sections and pages
+ * past the end are 404s.
+ */
+export async function loadSitemap(request: Request): Promise<Response> {
+  let body: string | null;
+  try {
+    body = await buildSitemapDocument(request);
+  } catch (error) {
+    console.error("Failed to build sitemap:", error);
+    return new Response("Sitemap temporarily unavailable", {
+      status: 503,
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": NO_STORE_CACHE_CONTROL, // Don't cache errors
+        "Retry-After": "60",
+      },
+    });
+  }
+
+  if (body === null) {
+    return new Response("Not Found", {
+      status: 404,
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  }
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Cache-Control": PUBLIC_CACHE_CONTROL,
+    },
+  });
+}
+
+/**
+ * Serves /robots.txt for the current environment
+ */
+export function loadRobotsTxt(
+  request: Request,
+  env: Env = getProcessEnv(),
+): Response {
+  const body = buildRobotsTxt({
+    allowIndexing: isIndexingAllowed(env),
+    sitemapUrl: new URL(SITEMAP_PATH, request.url).href,
+    disallow: ROBOTS_DISALLOW,
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": PUBLIC_CACHE_CONTROL,
+    },
+  });
+}
@@ -1,19 +1,48 @@
+import {
+  formatValidationIssue,
+  parseApiInfo,
+  parseApiResponse,
+  parseArticle,
+} from "./response-validation";
+import type { ValidationIssue } from "./response-validation";
+import { createResponseCache } from "./response-cache";
+import type { ResponseCacheOptions } from "./response-cache";
+import { createCircuitBreaker } from "./circuit-breaker";
 import type {
+  CircuitBreakerOptions,
+  CircuitBreakerSnapshot,
+} from "./circuit-breaker";
+import { createRequestStats } from "./request-stats";
+import type {
+  RequestStatsOptions,
+  RequestStatsSnapshot,
+} from "./request-stats";
+import type {
+  ArticleQueryFilters,
+  ContentType,
+  NewsSiteFacet,
   SpaceflightApiResponse,
   SpaceflightArticle,
 } from "~/types/spaceflight";
 
-const BASE_URL = "https://api.spaceflightnewsapi.net/v4";
-const ARTICLES_ENDPOINT = "/articles/";
+const DEFAULT_BASE_URL = "https://api.spaceflightnewsapi.net/v4";
+const CONTENT_ENDPOINTS: Record<ContentType, string> = {
+  articles: "/articles/",
+  blogs: "/blogs/",
+  reports: "/reports/",
+};
+const INFO_ENDPOINT = "/info/";
 
 /**
- * Custom error class for API-related errors
+ * Custom error class for API-related errors. `issues` lists the field-level
+ * problems when a payload failed validation.
  */
 export class SpaceflightApiError extends Error {
   constructor(
     message: string,
     public status?: number,
     public code?: string,
+    public issues: ValidationIssue[] = [],
   ) {
     super(message);
     this.name = "SpaceflightApiError";
@@ -21,81 +50,236 @@ export class SpaceflightApiError extends Error {
 }
 
 /**
- * Validates if the response matches the expected SpaceflightApiResponse structure
+ * Logs records that were repaired or dropped while parsing a usable payload
  */
-function validateApiResponse(data: unknown): data is SpaceflightApiResponse {
-  if (!data || typeof data !== "object") {
-    return false;
+function reportIssues(context: string, issues: ValidationIssue[]): void {
+  if (issues.length > 0) {
+    console.warn(
+      `${context}: repaired or dropped invalid fields`,
+      issues.map(formatValidationIssue),
+    );
   }
+}
+
+/**
+ * Retry and timeout settings for a request. Every field is optional; the
+ * defaults suit server-side loaders.
+ */
+export interface RequestOptions {
+  /** Additional attempts after the first one for retryable failures */
+  retries?: number;
+  /** Timeout for a single attempt; overrides the client's `timeoutMs` */
+  timeoutMs?: number;
+  /** Budget for all attempts and backoff delays together, in milliseconds */
+  deadlineMs?: number;
+  /** Cancels the in-flight attempt and any pending retries */
+  signal?: AbortSignal;
+  /** Merged over the client's headers */
+  headers?: Record<string, string>;
+  /** Called when the upstream failed and the last good response is served */
+  onStale?: (error: SpaceflightApiError) => void;
+}
+
+/**
+ * Configuration for {@link createSpaceflightClient}
+ */
+export interface SpaceflightClientOptions {
+  /** API root without a trailing slash, e.g. a local mirror */
+  baseUrl?: string;
+  /** Default timeout for a single attempt, in milliseconds */
+  timeoutMs?: number;
+  /** Fetch implementation, e.g. a stub in tests */
+  fetch?: typeof fetch;
+  /** Sent with every request */
+  headers?: Record<string, string>;
+  userAgent?: string;
+  /** Response cache settings, or false to always hit the upstream */
+  cache?: ResponseCacheOptions | false;
+  /** Circuit breaker settings, or false to never fail fast */
+  circuitBreaker?: CircuitBreakerOptions | false;
+  /** Window for the recent error rate reported by getHealth */
+  stats?: RequestStatsOptions;
+}
+
+/**
+ * Service layer state reported by the health and readiness routes
+ */
+export interface SpaceflightClientHealth {
+  circuit: CircuitBreakerSnapshot | null;
+  requests: RequestStatsSnapshot;
+  cache: { entries: number } | null;
+}
+
+export interface SpaceflightClient {
+  fetchArticles(
+    limit?: number,
+    offset?: number,
+    ordering?: string,
+    filters?: ArticleQueryFilters,
+    contentType?: ContentType,
+    options?: RequestOptions,
+  ): Promise<SpaceflightApiResponse>;
+  fetchArticleById(
+    id: number,
+    contentType?: ContentType,
+    options?: RequestOptions,
+  ): Promise<SpaceflightArticle>;
+  fetchLatestArticles(
+    limit?: number,
+    contentType?: ContentType,
+    options?: RequestOptions,
+  ): Promise<SpaceflightArticle[]>;
+  fetchNewsSites(options?: RequestOptions): Promise<string[]>;
+  fetchNewsSiteFacets(
+    contentType?: ContentType,
+    options?: RequestOptions,
+  ): Promise<NewsSiteFacet[]>;
+  /** Drops every cached response */
+  clearCache(): void;
+  /** Circuit, error rate and cache state, for health checks */
+  getHealth(): SpaceflightClientHealth;
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_DEADLINE_MS = 25000;
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 4000;
+
+/**
+ * Facet counts change slowly and cost one request per news site, so they
+ * are cached as a whole per content type, for much longer than pages
+ */
+const FACET_CACHE_OPTIONS: ResponseCacheOptions = {
+  ttlMs: 15 * 60 * 1000,
+  staleWhileRevalidateMs: 60 * 60 * 1000,
+  maxEntries: 3,
+};
+/** Count requests in flight at once while loading facets */
+const FACET_CONCURRENCY = 4;
+
+function abortedError(): SpaceflightApiError {
+  return new SpaceflightApiError("Request aborted", 0, "ABORTED");
+}
+
+/**
+ * Exponential backoff with full jitter, so concurrent requests that failed
+ * together do not retry in lockstep
+ */
+function getBackoffDelay(attempt: number): number {
+  return (
+    Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt)
+  );
+}
 
-  const response = data as Record<string, unknown>;
+/**
+ * Reads a Retry-After header, which is either a number of seconds or an
+ * HTTP date, as a delay in milliseconds
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now: number = Date.now(),
+): number | undefined {
+  if (!header?.trim()) return undefined;
 
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000;
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+function isRetryable(error: SpaceflightApiError): boolean {
+  const status = error.status ?? 0;
   return (
-    typeof response.count === "number" &&
-    (response.next === null || typeof response.next === "string") &&
-    (response.previous === null || typeof response.previous === "string") &&
-    Array.isArray(response.results) &&
-    response.results.every(validateArticle)
+    error.code === "TIMEOUT" ||
+    error.code === "NETWORK_ERROR" ||
+    status === 429 ||
+    status >= 500
   );
 }
 
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortedError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 /**
- * Validates if an object matches the SpaceflightArticle structure
+ * Rejects as soon as the signal aborts, without cancelling the underlying
+ * promise, which other callers may still be waiting on
  */
-function validateArticle(article: unknown): article is SpaceflightArticle {
-  if (!article || typeof article !== "object") {
-    return false;
-  }
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortedError());
 
-  const art = article as Record<string, unknown>;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortedError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
 
+/**
+ * Only upstream trouble falls back to a cached response. A 404 or a
+ * cancelled request must not be papered over.
+ */
+function canServeStale(error: unknown): boolean {
   return (
-    typeof art.id === "number" &&
-    typeof art.title === "string" &&
-    typeof art.summary === "string" &&
-    typeof art.image_url === "string" &&
-    typeof art.news_site === "string" &&
-    typeof art.published_at === "string" &&
-    typeof art.url === "string"
+    error instanceof SpaceflightApiError &&
+    (isRetryable(error) || error.issues.length > 0)
   );
 }
 
 /**
- * Makes HTTP requests with error handling and timeout
+ * Cache key for a request URL that ignores query param order
  */
-async function makeRequest(
+function getCacheKey(url: string): string {
+  const normalised = new URL(url);
+  normalised.searchParams.sort();
+  return normalised.toString();
+}
+
+/**
+ * Makes a single attempt. Non-2xx responses are returned as-is so the
+ * caller can decide whether to retry.
+ */
+async function attemptRequest(
+  fetchImpl: typeof fetch,
   url: string,
-  options: RequestInit = {},
+  headers: Record<string, string>,
+  timeoutMs: number,
+  signal?: AbortSignal,
 ): Promise<Response> {
+  if (signal?.aborted) {
+    throw abortedError();
+  }
+
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
 
   try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-      headers: {
-        "Content-Type": "application/json",
-        ...options.headers,
-      },
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new SpaceflightApiError(
-        `HTTP error! status: ${response.status}`,
-        response.status,
-        response.statusText,
-      );
-    }
-
-    return response;
+    return await fetchImpl(url, { signal: controller.signal, headers });
   } catch (error) {
-    clearTimeout(timeoutId);
-
-    if (error instanceof SpaceflightApiError) {
-      throw error;
+    if (signal?.aborted) {
+      throw abortedError();
     }
 
     if (error instanceof Error) {
@@ -110,85 +294,559 @@ async function makeRequest(
     }
 
     throw new SpaceflightApiError("Unknown error occurred", 0, "UNKNOWN_ERROR");
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
   }
 }
 
 /**
- * Fetches articles from the Spaceflight News API
+ * Makes HTTP requests with a per-attempt timeout, retrying 5xx responses,
+ * timeouts and network errors with backoff. A Retry-After header on 429 and
+ * 503 responses replaces the backoff delay. Retries stop once the overall
+ * deadline would be overrun, and the last failure is thrown.
  */
-export async function fetchArticles(
-  limit: number = 20,
-  offset: number = 0,
-  ordering: string = "-published_at",
-): Promise<SpaceflightApiResponse> {
-  const params = new URLSearchParams({
-    limit: limit.toString(),
-    offset: offset.toString(),
-    ordering,
-  });
+async function makeRequest(
+  fetchImpl: typeof fetch,
+  url: string,
+  headers: Record<string, string>,
+  options: RequestOptions,
+): Promise<Response> {
+  const {
+    retries = DEFAULT_RETRIES,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    deadlineMs = DEFAULT_DEADLINE_MS,
+    signal,
+  } = options;
+  const deadline = Date.now() + deadlineMs;
 
-  const url = `${BASE_URL}${ARTICLES_ENDPOINT}?${params}`;
+  for (let attempt = 0; ; attempt++) {
+    const remaining = deadline - Date.now();
+    let error: SpaceflightApiError;
+    let retryAfterMs: number | undefined;
 
-  try {
-    const response = await makeRequest(url);
-    const data = await response.json();
+    try {
+      const response = await attemptRequest(
+        fetchImpl,
+        url,
+        headers,
+        Math.min(timeoutMs, remaining),
+        signal,
+      );
 
-    if (!validateApiResponse(data)) {
-      throw new SpaceflightApiError(
-        "Invalid response format from API",
+      if (response.ok) {
+        return response;
+      }
+
+      error = new SpaceflightApiError(
+        `HTTP error! status: ${response.status}`,
         response.status,
-        "INVALID_RESPONSE",
+        response.statusText,
       );
+      if (response.status === 429 || response.status === 503) {
+        retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+      }
+    } catch (caught) {
+      error = caught as SpaceflightApiError;
     }
 
-    return data;
-  } catch (error) {
-    if (error instanceof SpaceflightApiError) {
+    if (attempt >= retries || !isRetryable(error)) {
       throw error;
     }
-    throw new SpaceflightApiError("Failed to fetch articles", 0, "FETCH_ERROR");
+
+    const delay = retryAfterMs ?? getBackoffDelay(attempt);
+    if (Date.now() + delay >= deadline) {
+      throw error;
+    }
+
+    await sleep(delay, signal);
   }
 }
 
 /**
- * Fetches a single article by ID
+ * Creates an API client. Everything that used to be hardcoded (base URL,
+ * timeout, headers, the fetch implementation) can be overridden, so the app
+ * can point at a mirror and tests can pass a stub instead of mocking globals.
  */
-export async function fetchArticleById(
-  id: number,
-): Promise<SpaceflightArticle> {
-  const url = `${BASE_URL}${ARTICLES_ENDPOINT}${id}/`;
+export function createSpaceflightClient(
+  config: SpaceflightClientOptions = {},
+): SpaceflightClient {
+  const baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+  // Resolved per call so a fetch replaced after creation is still used
+  const fetchImpl: typeof fetch =
+    config.fetch ?? ((input, init) => globalThis.fetch(input, init));
+  const baseHeaders: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...config.headers,
+    ...(config.userAgent ? { "User-Agent": config.userAgent } : {}),
+  };
 
-  try {
-    const response = await makeRequest(url);
-    const data = await response.json();
+  const cache =
+    config.cache === false ? undefined : createResponseCache(config.cache);
+  const facetCache =
+    config.cache === false
+      ? undefined
+      : createResponseCache(FACET_CACHE_OPTIONS);
 
-    if (!validateArticle(data)) {
+  /**
+   * Serves a response from the cache when possible. Identical concurrent
+   * requests share one upstream fetch, which is why that fetch does not
+   * take any single caller's signal; a caller that aborts stops waiting
+   * instead.
+   */
+  async function cached<T>(
+    url: string,
+    options: RequestOptions,
+    load: (options: RequestOptions) => Promise<T>,
+  ): Promise<T> {
+    if (!cache) return load(options);
+
+    const { value, stale, error } = await raceAbort(
+      cache.get(
+        getCacheKey(url),
+        () => load({ ...options, signal: undefined }),
+        {
+          shouldServeStale: canServeStale,
+        },
+      ),
+      options.signal,
+    );
+
+    if (stale) {
+      console.warn(`${url}: upstream failed, serving cached response`, error);
+      options.onStale?.(error as SpaceflightApiError);
+    }
+    return value;
+  }
+
+  const breaker =
+    config.circuitBreaker === false
+      ? undefined
+      : createCircuitBreaker(config.circuitBreaker);
+  const stats = createRequestStats(config.stats);
+
+  /**
+   * Makes a request through the circuit breaker. Only upstream trouble
+   * counts as a failure; a 404 still proves the upstream is answering.
+   */
+  async function request(url: string, options: RequestOptions) {
+    if (breaker && !breaker.tryAcquire()) {
       throw new SpaceflightApiError(
-        "Invalid article format from API",
-        response.status,
-        "INVALID_ARTICLE",
+        "The news service is temporarily unavailable",
+        503,
+        "CIRCUIT_OPEN",
       );
     }
 
-    return data;
-  } catch (error) {
-    if (error instanceof SpaceflightApiError) {
+    try {
+      const response = await makeRequest(
+        fetchImpl,
+        url,
+        { ...baseHeaders, ...options.headers },
+        { ...options, timeoutMs: options.timeoutMs ?? config.timeoutMs },
+      );
+      breaker?.recordSuccess();
+      stats.recordSuccess();
+      return response;
+    } catch (error) {
+      if (error instanceof SpaceflightApiError && error.code === "ABORTED") {
+        breaker?.release();
+      } else if (error instanceof SpaceflightApiError && isRetryable(error)) {
+        breaker?.recordFailure();
+        stats.recordFailure();
+      } else {
+        breaker?.recordSuccess();
+        stats.recordSuccess();
+      }
       throw error;
     }
-    throw new SpaceflightApiError(
-      `Failed to fetch article ${id}`,
+  }
+
+  /**
+   * Makes a request outside the circuit breaker and request stats, for
+   * optional lookups whose failures must not fail fast the feed or count
+   * against readiness
+   */
+  function requestUntracked(url: string, options: RequestOptions) {
+    return makeRequest(
+      fetchImpl,
+      url,
+      { ...baseHeaders, ...options.headers },
+      { ...options, timeoutMs: options.timeoutMs ?? config.timeoutMs },
+    );
+  }
+
+  function getArticlesUrl(
+    limit: number,
+    offset: number,
+    ordering: string,
+    filters: ArticleQueryFilters,
+    contentType: ContentType,
+  ): string {
+    const params = new URLSearchParams({
+      limit: limit.toString(),
+      offset: offset.toString(),
+      ordering,
+    });
+
+    if (filters.search) {
+      params.set("search", filters.search);
+    }
+    if (filters.titleContains) {
+      params.set("title_contains", filters.titleContains);
+    }
+    if (filters.summaryContains) {
+      params.set("summary_contains", filters.summaryContains);
+    }
+    if (filters.newsSites && filters.newsSites.length > 0) {
+      params.set("news_site", filters.newsSites.join(","));
+    }
+    if (filters.launchId) {
+      params.set("launch", filters.launchId);
+    }
+    if (filters.eventId !== undefined) {
+      params.set("event", filters.eventId.toString());
+    }
+    if (filters.publishedAfter) {
+      params.set("published_at_gte", filters.publishedAfter);
+    }
+    if (filters.publishedBefore) {
+      params.set("published_at_lte", filters.publishedBefore);
+    }
+
+    return `${baseUrl}${CONTENT_ENDPOINTS[contentType]}?${params}`;
+  }
+
+  /**
+   * Loads and validates a page of articles, bypassing the cache
+   */
+  async function loadArticles(
+    url: string,
+    options: RequestOptions,
+    send: typeof request = request,
+  ): Promise<SpaceflightApiResponse> {
+    try {
+      const response = await send(url, options);
+      const { value, issues } = parseApiResponse(await response.json());
+
+      if (!value) {
+        throw new SpaceflightApiError(
+          "Invalid response format from API",
+          response.status,
+          "INVALID_RESPONSE",
+          issues,
+        );
+      }
+
+      reportIssues(url, issues);
+      return value;
+    } catch (error) {
+      if (error instanceof SpaceflightApiError) {
+        throw error;
+      }
+      throw new SpaceflightApiError(
+        "Failed to fetch articles",
+        0,
+        "FETCH_ERROR",
+      );
+    }
+  }
+
+  /**
+   * Fetches articles (or blogs or reports) from the Spaceflight News API
+   */
+  async function fetchArticles(
+    limit: number = 20,
+    offset: number = 0,
+    ordering: string = "-published_at",
+    filters: ArticleQueryFilters = {},
+    contentType: ContentType = "articles",
+    options: RequestOptions = {},
+  ): Promise<SpaceflightApiResponse> {
+    const url = getArticlesUrl(limit, offset, ordering, filters, contentType);
+
+    return cached(url, options, (requestOptions) =>
+      loadArticles(url, requestOptions),
+    );
+  }
+
+  /**
+   * Fetches a single article (or blog or report) by ID
+   */
+  async function fetchArticleById(
+    id: number,
+    contentType: ContentType = "articles",
+    options: RequestOptions = {},
+  ): Promise<SpaceflightArticle> {
+    const url = `${baseUrl}${CONTENT_ENDPOINTS[contentType]}${id}/`;
+
+    return cached(url, options, async (requestOptions) => {
+      try {
+        const response = await request(url, requestOptions);
+        const { value, issues } = parseArticle(await response.json());
+
+        if (!value) {
+          throw new SpaceflightApiError(
+            "Invalid article format from API",
+            response.status,
+            "INVALID_ARTICLE",
+            issues,
+          );
+        }
+
+        reportIssues(url, issues);
+        return value;
+      } catch (error) {
+        if (error instanceof SpaceflightApiError) {
+          throw error;
+        }
+        throw new SpaceflightApiError(
+          `Failed to fetch article ${id}`,
+          0,
+          "FETCH_ERROR",
+        );
+      }
+    });
+  }
+
+  /**
+   * Fetches the latest articles (convenience function)
+   */
+  async function fetchLatestArticles(
+    limit: number = 20,
+    contentType: ContentType = "articles",
+    options: RequestOptions = {},
+  ): Promise<SpaceflightArticle[]> {
+    const response = await fetchArticles(
+      limit,
       0,
-      "FETCH_ERROR",
+      "-published_at",
+      {},
+      contentType,
+      options,
+    );
+    return response.results;
+  }
+
+  /**
+   * Fetches the names of all news sites the API aggregates
+   */
+  async function fetchNewsSites(
+    options: RequestOptions = {},
+  ): Promise<string[]> {
+    const url = `${baseUrl}${INFO_ENDPOINT}`;
+
+    return cached(url, options, async (requestOptions) => {
+      try {
+        const response = await request(url, requestOptions);
+        const { value, issues } = parseApiInfo(await response.json());
+
+        if (!value) {
+          throw new SpaceflightApiError(
+            "Invalid info format from API",
+            response.status,
+            "INVALID_RESPONSE",
+            issues,
+          );
+        }
+
+        reportIssues(url, issues);
+        return value.news_sites;
+      } catch (error) {
+        if (error instanceof SpaceflightApiError) {
+          throw error;
+        }
+        throw new SpaceflightApiError(
+          "Failed to fetch news sites",
+          0,
+          "FETCH_ERROR",
+        );
+      }
+    });
+  }
+
+  /**
+   * Counts articles for each news site, a few requests at a time. The counts
+   * skip the page cache so they don't crowd out pages, and a site whose
+   * count fails is left out instead of failing every facet.
+   */
+  async function loadNewsSiteFacets(
+    newsSites: string[],
+    contentType: ContentType,
+    options: RequestOptions,
+  ): Promise<NewsSiteFacet[]> {
+    const facets: NewsSiteFacet[] = [];
+    let firstError: unknown;
+
+    for (let start = 0; start < newsSites.length; start += FACET_CONCURRENCY) {
+      const results = await Promise.allSettled(
+        newsSites.slice(start, start + FACET_CONCURRENCY).map(async (name) => {
+          // A single-result page is enough to read the count
+          const url = getArticlesUrl(
+            1,
+            0,
+            "-published_at",
+            { newsSites: [name] },
+            contentType,
+          );
+          const response = await loadArticles(url, options, requestUntracked);
+          return { name, count: response.count };
+        }),
+      );
+
+      for (const result of results) {
+        if (result.status === "fulfilled") {
+          facets.push(result.value);
+        } else {
+          firstError ??= result.reason;
+        }
+      }
+    }
+
+    if (facets.length === 0 && firstError !== undefined) {
+      throw firstError;
+    }
+    return facets.sort((a, b) =>
+      a.name.localeCompare(b.name, "en", { sensitivity: "base" }),
     );
   }
+
+  /**
+   * Counts the articles (or blogs or reports) of each news site. Counts
+   * ignore the feed's other filters, so each content type is one
+   * long-lived cache entry instead of one per search or date range. They are
+   * not retried and stay out of the circuit breaker and request stats,
+   * since each costs an upstream request and the feed works without them.
+   */
+  async function fetchNewsSiteFacets(
+    contentType: ContentType = "articles",
+    options: RequestOptions = {},
+  ): Promise<NewsSiteFacet[]> {
+    const newsSites = await fetchNewsSites(options);
+    const countOptions = { ...options, retries: 0 };
+
+    if (!facetCache) {
+      return loadNewsSiteFacets(newsSites, contentType, countOptions);
+    }
+
+    const { value } = await raceAbort(
+      facetCache.get(
+        contentType,
+        () =>
+          loadNewsSiteFacets(newsSites, contentType, {
+            ...countOptions,
+            signal: undefined,
+          }),
+        { shouldServeStale: canServeStale },
+      ),
+      options.signal,
+    );
+    return value;
+  }
+
+  return {
+    fetchArticles,
+    fetchArticleById,
+    fetchLatestArticles,
+    fetchNewsSites,
+    fetchNewsSiteFacets,
+    clearCache: () => {
+      cache?.clear();
+      facetCache?.clear();
+    },
+    getHealth: () => ({
+      circuit: breaker?.getSnapshot() ?? null,
+      requests: stats.getSnapshot(),
+      cache: cache ? { entries: cache.size() } : null,
+    }),
+  };
 }
 
 /**
- * Fetches the latest articles (convenience function)
+ * Reads client configuration from the environment:
+ * SPACEFLIGHT_API_URL, SPACEFLIGHT_API_TIMEOUT_MS and SPACEFLIGHT_API_USER_AGENT
  */
-export async function fetchLatestArticles(
-  limit: number = 20,
+export function getClientOptionsFromEnv(
+  env: Record<string, string | undefined> = typeof process === "undefined"
+    ? {}
+    : process.env,
+): SpaceflightClientOptions {
+  const timeoutMs = Number(env.SPACEFLIGHT_API_TIMEOUT_MS);
+
+  return {
+    baseUrl: env.SPACEFLIGHT_API_URL || undefined,
+    timeoutMs:
+      Number.isInteger(timeoutMs) && timeoutMs > 0 ? timeoutMs : undefined,
+    userAgent: env.SPACEFLIGHT_API_USER_AGENT || undefined,
+  };
+}
+
+let defaultClient: SpaceflightClient | undefined;
+
+/**
+ * The client behind the module-level functions, created on first use
+ */
+function getDefaultClient(): SpaceflightClient {
+  defaultClient ??= createSpaceflightClient(getClientOptionsFromEnv());
+  return defaultClient;
+}
+
+/**
+ * Fetches articles (or blogs or reports) with the default client
+ */
+export function fetchArticles(
+  ...args: Parameters<SpaceflightClient["fetchArticles"]>
+): Promise<SpaceflightApiResponse> {
+  return getDefaultClient().fetchArticles(...args);
+}
+
+/**
+ * Fetches a single article (or blog or report) with the default client
+ */
+export function fetchArticleById(
+  ...args: Parameters<SpaceflightClient["fetchArticleById"]>
+): Promise<SpaceflightArticle> {
+  return getDefaultClient().fetchArticleById(...args);
+}
+
+/**
+ * Fetches the latest articles with the default client
+ */
+export function fetchLatestArticles(
+  ...args: Parameters<SpaceflightClient["fetchLatestArticles"]>
 ): Promise<SpaceflightArticle[]> {
-  const response = await fetchArticles(limit, 0, "-published_at");
-  return response.results;
+  return getDefaultClient().fetchLatestArticles(...args);
+}
+
+/**
+ * Fetches the news site names with the default client
+ */
+export function fetchNewsSites(
+  ...args: Parameters<SpaceflightClient["fetchNewsSites"]>
+): Promise<string[]> {
+  return getDefaultClient().fetchNewsSites(...args);
+}
+
+/**
+ * Counts the articles of each news site with the default client
+ */
+export function fetchNewsSiteFacets(
+  ...args: Parameters<SpaceflightClient["fetchNewsSiteFacets"]>
+): Promise<NewsSiteFacet[]> {
+  return getDefaultClient().fetchNewsSiteFacets(...args);
+}
+
+/**
+ * Circuit, error rate and cache state of the default client
+ */
+export function getSpaceflightHealth(): SpaceflightClientHealth {
+  return getDefaultClient().getHealth();
+}
+
+/**
+ * Discards the default client, dropping its cache and circuit state. The
+ * next call builds a fresh one from the environment.
+ */
+export function resetSpaceflightClient(): void {
+  defaultClient = undefined;
 }
@@ -0,0 +1,41 @@
+import { createCookie } from "react-router";
+import type { ThemePreference } from "~/types";
+
+export const THEME_PREFERENCES: readonly ThemePreference[] = [
+  "light",
+  "dark",
+  "system",
+];
+
+export const DEFAULT_THEME: ThemePreference = "system";
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+const themeCookie = createCookie("theme", {
+  path: "/",
+  sameSite: "lax",
+  maxAge: ONE_YEAR_SECONDS,
+});
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return THEME_PREFERENCES.includes(value as ThemePreference);
+}
+
+/**
+ * Reads the theme from the request cookie, falling back to the OS preference
+ */
+export async function getThemePreference(
+  request: Request,
+): Promise<ThemePreference> {
+  const value: unknown = await themeCookie.parse(request.headers.get("Cookie"));
+  return isThemePreference(value) ? value : DEFAULT_THEME;
+}
+
+/**
+ * Set-Cookie header value storing the theme
+ */
+export function serializeThemePreference(
+  theme: ThemePreference,
+): Promise<string> {
+  return themeCookie.serialize(theme);
+}
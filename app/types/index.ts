@@ -1,10 +1,31 @@
 // Re-export all types for easier imports
 export type {
   SpaceflightArticle,
+  ArticleAuthor,
+  ArticleLaunch,
+  ArticleEvent,
   SpaceflightApiResponse,
+  SpaceflightApiInfo,
   ApiError,
   SortBy,
+  FeedView,
+  SyndicationFormat,
+  ContentType,
   ArticleFilters,
+  DateRangePreset,
+  ArticleQueryFilters,
+  NewsSiteFacet,
+  NewsSiteFacetsData,
   ArticlesLoaderData,
+  ArticleDetailLoaderData,
   ServerError,
+  SavedArticle,
+  ThemePreference,
+  MotionPreference,
+  ContrastPreference,
+  AccessibilityPreferences,
+  DateDisplay,
+  TimestampStyle,
+  DateFormatSettings,
+  RootLoaderData,
 } from "./spaceflight";
@@ -2,6 +2,27 @@
  * TypeScript interfaces for Spaceflight News API data models
  */
 
+export interface ArticleAuthor {
+  name: string;
+  socials?: Record<string, string> | null; // e.g. { x: "...", linkedin: "..." }
+}
+
+/**
+ * A launch covered by an article, identified by its Launch Library 2 id
+ */
+export interface ArticleLaunch {
+  launch_id: string;
+  provider: string;
+}
+
+/**
+ * An event covered by an article, identified by its Launch Library 2 id
+ */
+export interface ArticleEvent {
+  event_id: number;
+  provider: string;
+}
+
 export interface SpaceflightArticle {
   id: number;
   title: string;
@@ -10,6 +31,12 @@ export interface SpaceflightArticle {
   news_site: string;
   published_at: string; // ISO 8601 format
   url: string;
+  // Optional v4 fields; malformed values are dropped when parsing
+  authors?: ArticleAuthor[];
+  featured?: boolean;
+  updated_at?: string; // ISO 8601 format
+  launches?: ArticleLaunch[];
+  events?: ArticleEvent[];
 }
 
 export interface SpaceflightApiResponse {
@@ -19,6 +46,14 @@ export interface SpaceflightApiResponse {
   results: SpaceflightArticle[];
 }
 
+/**
+ * Response from the API's /info/ endpoint
+ */
+export interface SpaceflightApiInfo {
+  version: string;
+  news_sites: string[];
+}
+
 export interface ApiError {
   message: string;
   status?: number;
@@ -27,9 +62,63 @@ export interface ApiError {
 
 export type SortBy = "title" | "date";
 
+export type FeedView = "pages" | "scroll";
+
+/**
+ * Feed reader formats served next to the HTML feed
+ */
+export type SyndicationFormat = "rss" | "atom" | "json";
+
+/**
+ * Content types served by the API; all share the SpaceflightArticle shape
+ */
+export type ContentType = "articles" | "blogs" | "reports";
+
+/**
+ * Server-side filters forwarded to the articles endpoint as query params
+ */
+export interface ArticleQueryFilters {
+  search?: string; // Matches title or summary
+  titleContains?: string;
+  summaryContains?: string;
+  newsSites?: string[]; // Sent as a comma-separated news_site param
+  launchId?: string; // Sent as launch
+  eventId?: number; // Sent as event
+  publishedAfter?: string; // ISO 8601, sent as published_at_gte
+  publishedBefore?: string; // ISO 8601, sent as published_at_lte
+}
+
+/**
+ * A news site with its number of articles (or blogs or reports)
+ */
+export interface NewsSiteFacet {
+  name: string;
+  count: number;
+}
+
+/**
+ * Response of the /api/news-sites resource route
+ */
+export interface NewsSiteFacetsData {
+  contentType: ContentType;
+  facets: NewsSiteFacet[];
+}
+
+export type DateRangePreset = "24h" | "7d" | "30d";
+
+/**
+ * Feed filters as carried in the URL (?q, ?news_site, ?launch, ?event,
+ * ?range, ?from, ?to)
+ */
 export interface ArticleFilters {
   searchTerm?: string;
   sortBy?: SortBy;
+  newsSites?: string[];
+  launchId?: string;
+  eventId?: number;
+  datePreset?: DateRangePreset; // Relative to the time of the request
+  publishedFrom?: string; // YYYY-MM-DD, inclusive
+  publishedTo?: string; // YYYY-MM-DD, inclusive
 }
 
 /**
@@ -37,10 +126,31 @@ export interface ArticleFilters {
  */
 export interface ArticlesLoaderData {
   articles: SpaceflightArticle[];
+  contentType: ContentType;
   error: string | null;
+  /** Absolute URL search engines should index the page under; feed page only */
+  canonicalUrl?: string;
   meta: {
     total: number;
     hasMore: boolean;
+    limit: number;
+    offset: number;
+    loadedAt: string;
+    /** True when the upstream failed and a cached page is shown instead */
+    stale: boolean;
+  };
+}
+
+/**
+ * Loader data type for the article detail route
+ */
+export interface ArticleDetailLoaderData {
+  article: SpaceflightArticle;
+  contentType: ContentType;
+  relatedArticles: SpaceflightArticle[];
+  /** Absolute URL of the detail page, for canonical links and JSON-LD */
+  canonicalUrl: string;
+  meta: {
     loadedAt: string;
   };
 }
@@ -54,3 +164,55 @@ export interface ServerError {
   timestamp: string;
   retryAfter?: number;
 }
+
+/**
+ * An article snapshot kept in the browser's read-later list
+ */
+export interface SavedArticle {
+  article: SpaceflightArticle;
+  contentType: ContentType;
+  /** ISO timestamp of when the article was saved */
+  savedAt: string;
+}
+
+/**
+ * Color theme picked in the header; "system" follows the OS preference
+ */
+export type ThemePreference = "light" | "dark" | "system";
+
+/**
+ * Motion and contrast overrides picked in the footer; "system" follows the
+ * OS setting
+ */
+export type MotionPreference = "system" | "reduce" | "full";
+
+export type ContrastPreference = "system" | "more" | "standard";
+
+export interface AccessibilityPreferences {
+  motion: MotionPreference;
+  contrast: ContrastPreference;
+}
+
+/**
+ * How dates are shown: in the reader's locale and time zone, or as ISO 8601
+ * timestamps in UTC for ops
+ */
+export type DateDisplay = "local" | "iso";
+
+/** Whether article cards show "12 minutes ago" or the date */
+export type TimestampStyle = "relative" | "absolute";
+
+export interface DateFormatSettings {
+  /** BCP 47 locale, from Accept-Language */
+  locale: string;
+  /** IANA time zone; null until the browser has reported one, shown as UTC */
+  timeZone: string | null;
+  display: DateDisplay;
+  timestamps: TimestampStyle;
+}
+
+export interface RootLoaderData {
+  theme: ThemePreference;
+  accessibility: AccessibilityPreferences;
+  dateFormat: DateFormatSettings;
+}
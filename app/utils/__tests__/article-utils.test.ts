@@ -1,6 +1,8 @@
 import { describe, it, expect } from "vitest";
 import {
   formatPublishedDate,
+  formatTime,
+  toIsoDate,
   formatRelativeTime,
   truncateText,
   filterArticlesBySearch,
@@ -9,6 +11,9 @@ import {
   isValidImageUrl,
   getImageUrlWithFallback,
   extractDomain,
+  formatAuthorNames,
+  hasLaterUpdate,
+  PLACEHOLDER_IMAGE_URL,
 } from "../article-utils";
 import type { SpaceflightArticle } from "~/types/spaceflight";
 
@@ -58,13 +63,85 @@ describe("formatPublishedDate", () => {
     const result = formatPublishedDate("");
     expect(result).toBe("Unknown date");
   });
+
+  it("should use the given time zone", () => {
+    expect(
+      formatPublishedDate("2024-01-15T02:00:00Z", {
+        timeZone: "America/Los_Angeles",
+      }),
+    ).toBe("January 14, 2024");
+  });
+
+  it("should default to UTC so server and client agree", () => {
+    expect(formatPublishedDate("2024-01-15T23:30:00Z")).toBe(
+      "January 15, 2024",
+    );
+  });
+
+  it("should use the given locale", () => {
+    expect(
+      formatPublishedDate("2024-01-15T10:00:00Z", { locale: "en-GB" }),
+    ).toBe("15 January 2024");
+  });
+
+  it("should format an ISO timestamp in UTC for the iso display", () => {
+    expect(
+      formatPublishedDate("2024-01-15T10:00:00.000+02:00", {
+        display: "iso",
+        timeZone: "America/New_York",
+      }),
+    ).toBe("2024-01-15T08:00:00Z");
+  });
+});
+
+describe("toIsoDate", () => {
+  it("should normalise a parseable date", () => {
+    expect(toIsoDate("2024-01-15T12:00:00+02:00")).toBe(
+      "2024-01-15T10:00:00.000Z",
+    );
+  });
+
+  it("should return null instead of throwing for a bad or missing date", () => {
+    expect(toIsoDate("not a date")).toBeNull();
+    expect(toIsoDate(undefined)).toBeNull();
+  });
+});
+
+describe("formatTime", () => {
+  it("should format the time of day in the given time zone", () => {
+    expect(
+      formatTime("2024-01-15T10:05:00Z", {
+        locale: "en-GB",
+        timeZone: "Europe/Berlin",
+      }),
+    ).toBe("11:05");
+  });
+
+  it("should format an ISO time in UTC for the iso display", () => {
+    expect(formatTime("2024-01-15T10:05:00Z", { display: "iso" })).toBe(
+      "10:05:00Z",
+    );
+  });
+
+  it("should handle invalid date string", () => {
+    expect(formatTime("invalid-date")).toBe("Unknown time");
+  });
 });
 
 describe("formatRelativeTime", () => {
-  it("should return 'Just now' for very recent dates", () => {
+  it("should return 'now' for very recent dates", () => {
     const now = new Date();
     const result = formatRelativeTime(now.toISOString());
-    expect(result).toBe("Just now");
+    expect(result).toBe("now");
+  });
+
+  it("should return minutes ago within the hour", () => {
+    const result = formatRelativeTime(
+      "2024-01-15T10:00:00Z",
+      {},
+      Date.parse("2024-01-15T10:12:59Z"),
+    );
+    expect(result).toBe("12 minutes ago");
   });
 
   it("should return hours ago for same day", () => {
@@ -73,10 +150,10 @@ describe("formatRelativeTime", () => {
     expect(result).toBe("2 hours ago");
   });
 
-  it("should return 'Yesterday' for previous day", () => {
+  it("should return 'yesterday' for previous day", () => {
     const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
     const result = formatRelativeTime(yesterday.toISOString());
-    expect(result).toBe("Yesterday");
+    expect(result).toBe("yesterday");
   });
 
   it("should return days ago for recent dates", () => {
@@ -97,6 +174,24 @@ describe("formatRelativeTime", () => {
     expect(result).toMatch(/\w+ \d+, \d{4}/); // Should match "Month Day, Year" format
   });
 
+  it("should localise to the given locale", () => {
+    const result = formatRelativeTime(
+      "2024-01-15T10:00:00Z",
+      { locale: "de-DE" },
+      Date.parse("2024-01-15T13:00:00Z"),
+    );
+    expect(result).toBe("vor 3 Stunden");
+  });
+
+  it("should format very old dates with the given settings", () => {
+    const result = formatRelativeTime(
+      "2024-01-15T02:00:00Z",
+      { locale: "en-GB", timeZone: "America/Los_Angeles" },
+      Date.parse("2024-06-01T00:00:00Z"),
+    );
+    expect(result).toBe("14 January 2024");
+  });
+
   it("should handle invalid date string", () => {
     const result = formatRelativeTime("invalid-date");
     expect(result).toBe("Unknown date");
@@ -210,7 +305,10 @@ describe("sortArticles", () => {
 
 describe("processArticles", () => {
   it("should filter and sort articles", () => {
-    const result = processArticles(mockArticles, "NASA", "title");
+    const result = processArticles(mockArticles, {
+      searchTerm: "NASA",
+      sortBy: "title",
+    });
     expect(result).toHaveLength(1);
     expect(result[0].title).toBe("NASA Mars Mission Update");
   });
@@ -223,7 +321,7 @@ describe("processArticles", () => {
   });
 
   it("should handle empty search with sorting", () => {
-    const result = processArticles(mockArticles, "", "title");
+    const result = processArticles(mockArticles, { sortBy: "title" });
     expect(result).toHaveLength(3);
     expect(result[0].title).toBe("Blue Origin Test Flight");
   });
@@ -265,7 +363,7 @@ describe("getImageUrlWithFallback", () => {
 
   it("should return fallback URL if invalid", () => {
     const result = getImageUrlWithFallback("invalid-url");
-    expect(result).toBe("/placeholder-space-image.jpg");
+    expect(result).toBe(PLACEHOLDER_IMAGE_URL);
   });
 });
 
@@ -290,3 +388,38 @@ describe("extractDomain", () => {
     expect(result).toBe("Unknown source");
   });
 });
+
+describe("formatAuthorNames", () => {
+  it("joins author names into a byline", () => {
+    expect(formatAuthorNames([{ name: "Jeff Foust" }])).toBe("Jeff Foust");
+    expect(
+      formatAuthorNames([
+        { name: "Jeff Foust" },
+        { name: "Marcia Smith" },
+        { name: "Eric Berger" },
+      ]),
+    ).toBe("Jeff Foust, Marcia Smith, and Eric Berger");
+  });
+
+  it("returns an empty string without authors", () => {
+    expect(formatAuthorNames()).toBe("");
+    expect(formatAuthorNames([{ name: "  " }])).toBe("");
+  });
+});
+
+describe("hasLaterUpdate", () => {
+  const article = mockArticles[0]; // Published 2024-01-15T10:00:00Z
+
+  it("is true when updated on a later day", () => {
+    expect(
+      hasLaterUpdate({ ...article, updated_at: "2024-01-17T09:00:00Z" }),
+    ).toBe(true);
+  });
+
+  it("ignores same-day updates and missing timestamps", () => {
+    expect(
+      hasLaterUpdate({ ...article, updated_at: "2024-01-15T10:05:00Z" }),
+    ).toBe(false);
+    expect(hasLaterUpdate(article)).toBe(false);
+  });
+});
@@ -66,11 +66,16 @@ describe("filterArticlesBySearch", () => {
   });
 
   it("filters articles by partial title match", () => {
-    const result = filterArticlesBySearch(mockArticles, "rocket");
+    const result = filterArticlesBySearch(mockArticles, "origin");
     expect(result).toHaveLength(1);
     expect(result[0].id).toBe(3); // Blue Origin Rocket Test
   });
 
+  it("matches summaries as well as titles", () => {
+    const result = filterArticlesBySearch(mockArticles, "rocket");
+    expect(result.map((article) => article.id)).toEqual([1, 3]);
+  });
+
   it("returns empty array when no articles match", () => {
     const result = filterArticlesBySearch(mockArticles, "nonexistent");
     expect(result).toHaveLength(0);
@@ -78,7 +83,8 @@ describe("filterArticlesBySearch", () => {
 
   it("handles special characters in search term", () => {
     const result = filterArticlesBySearch(mockArticles, "nasa's");
-    expect(result).toHaveLength(0); // No exact match for "nasa's"
+    expect(result).toHaveLength(1); // Matches "NASA's" in the summary
+    expect(result[0].id).toBe(2);
   });
 
   it("filters by multiple words", () => {
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  getItemListJsonLd,
+  getNewsArticleJsonLd,
+  serializeJsonLd,
+} from "../structured-data";
+import type { SpaceflightArticle } from "~/types";
+
+const article: SpaceflightArticle = {
+  id: 1,
+  title: "Rocket Lab & NASA <CAPSTONE> update",
+  summary: "CAPSTONE reached its lunar orbit.",
+  image_url: "https://example.com/images/capstone.png",
+  news_site: "SpaceNews",
+  published_at: "2024-01-15T10:00:00Z",
+  updated_at: "2024-01-16T08:30:00Z",
+  url: "https://example.com/capstone",
+  authors: [{ name: "Jeff Foust" }],
+};
+
+const pageUrl = "https://news.example.com/articles/1";
+
+describe("getNewsArticleJsonLd", () => {
+  it("describes the story and links the original", () => {
+    expect(getNewsArticleJsonLd(article, pageUrl)).toEqual({
+      "@context": "https://schema.org",
+      "@type": "NewsArticle",
+      headline: "Rocket Lab & NASA <CAPSTONE> update",
+      description: "CAPSTONE reached its lunar orbit.",
+      url: pageUrl,
+      mainEntityOfPage: pageUrl,
+      isBasedOn: "https://example.com/capstone",
+      image: ["https://example.com/images/capstone.png"],
+      datePublished: "2024-01-15T10:00:00.000Z",
+      dateModified: "2024-01-16T08:30:00.000Z",
+      author: [{ "@type": "Person", name: "Jeff Foust" }],
+      publisher: { "@type": "Organization", name: "SpaceNews" },
+    });
+  });
+
+  it("credits the news site and skips unusable images", () => {
+    const jsonLd = getNewsArticleJsonLd(
+      { ...article, authors: [], image_url: "", updated_at: undefined },
+      pageUrl,
+    );
+
+    expect(jsonLd.author).toEqual([
+      { "@type": "Organization", name: "SpaceNews" },
+    ]);
+    expect(jsonLd).not.toHaveProperty("image");
+    expect(jsonLd.dateModified).toBe("2024-01-15T10:00:00.000Z");
+  });
+
+  it("shortens long headlines", () => {
+    const headline = getNewsArticleJsonLd(
+      { ...article, title: "A".repeat(200) },
+      pageUrl,
+    ).headline as string;
+
+    expect(headline).toHaveLength(110);
+    expect(headline.endsWith("…")).toBe(true);
+  });
+
+  it("leaves out dates that cannot be parsed", () => {
+    const jsonLd = getNewsArticleJsonLd(
+      { ...article, published_at: "not a date", updated_at: "not a date" },
+      pageUrl,
+    );
+
+    expect(jsonLd).not.toHaveProperty("datePublished");
+    expect(jsonLd).not.toHaveProperty("dateModified");
+  });
+});
+
+describe("getItemListJsonLd", () => {
+  it("numbers items after the page offset", () => {
+    const jsonLd = getItemListJsonLd(
+      [article, { ...article, id: 2 }],
+      (item) => `https://news.example.com/articles/${item.id}`,
+      40,
+    );
+
+    expect(jsonLd.itemListElement).toEqual([
+      expect.objectContaining({
+        position: 41,
+        url: "https://news.example.com/articles/1",
+      }),
+      expect.objectContaining({
+        position: 42,
+        url: "https://news.example.com/articles/2",
+      }),
+    ]);
+  });
+});
+
+describe("serializeJsonLd", () => {
+  it("escapes text that could close the script tag", () => {
+    const jsonLd = getNewsArticleJsonLd(
+      {
+        ...article,
+        title: "Starship <3 </script><b>",
+        summary: "a < b > c\u2028d\u2029e",
+      },
+      pageUrl,
+    );
+
+    const serialized = serializeJsonLd(jsonLd);
+
+    expect(serialized).not.toMatch(/[<>\u2028\u2029]/);
+    expect(serialized).toContain("Starship \\u003c3 \\u003c/script\\u003e");
+    expect(JSON.parse(serialized)).toEqual(jsonLd);
+    expect(JSON.parse(serialized).headline).toBe("Starship <3 </script><b>");
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildAtomFeed,
+  buildJsonFeed,
+  buildRssFeed,
+  escapeXml,
+  getFeedLastModified,
+  getImageMimeType,
+} from "../syndication-utils";
+import type { FeedChannel } from "../syndication-utils";
+import type { SpaceflightArticle } from "~/types";
+
+const channel: FeedChannel = {
+  title: "Spaceflight News - Articles",
+  description: "The latest articles from the Spaceflight News API",
+  siteUrl: "https://news.example.com/",
+  feedUrl: "https://news.example.com/feed.xml",
+  getArticleUrl: (article) => `https://news.example.com/articles/${article.id}`,
+};
+
+const articles: SpaceflightArticle[] = [
+  {
+    id: 1,
+    title: "Rocket Lab & NASA <CAPSTONE> update",
+    summary: 'Summary with "quotes" and \u0007 a control character',
+    image_url: "https://example.com/images/capstone.png?w=800",
+    news_site: "SpaceNews",
+    published_at: "2024-01-15T10:00:00Z",
+    updated_at: "2024-01-16T08:30:00Z",
+    url: "https://example.com/capstone",
+    authors: [{ name: "Jeff Foust" }],
+  },
+  {
+    id: 2,
+    title: "Untitled report",
+    summary: "",
+    image_url: "",
+    news_site: "NASA",
+    published_at: "2024-01-14T09:00:00Z",
+    url: "https://example.com/report",
+  },
+];
+
+function parseXml(xml: string) {
+  const document = new DOMParser().parseFromString(xml, "application/xml");
+  expect(document.querySelector("parsererror")).toBeNull();
+  return document;
+}
+
+describe("escapeXml", () => {
+  it("escapes markup characters and drops invalid control characters", () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>\u0000`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;",
+    );
+  });
+});
+
+describe("getImageMimeType", () => {
+  it("maps the file extension and defaults to JPEG", () => {
+    expect(getImageMimeType("https://example.com/a.PNG?w=1")).toBe("image/png");
+    expect(getImageMimeType("https://example.com/a.webp")).toBe("image/webp");
+    expect(getImageMimeType("https://example.com/image")).toBe("image/jpeg");
+  });
+});
+
+describe("getFeedLastModified", () => {
+  it("returns the newest publication or update time", () => {
+    expect(getFeedLastModified(articles)?.toISOString()).toBe(
+      "2024-01-16T08:30:00.000Z",
+    );
+    expect(getFeedLastModified([])).toBeNull();
+  });
+});
+
+describe("buildRssFeed", () => {
+  it("builds a well-formed RSS 2.0 document", () => {
+    const document = parseXml(buildRssFeed(channel, articles));
+
+    expect(document.querySelector("channel > title")?.textContent).toBe(
+      "Spaceflight News - Articles",
+    );
+    expect(document.querySelector("lastBuildDate")?.textContent).toBe(
+      "Tue, 16 Jan 2024 08:30:00 GMT",
+    );
+
+    const items = document.querySelectorAll("item");
+    expect(items).toHaveLength(2);
+    expect(items[0].querySelector("title")?.textContent).toBe(
+      "Rocket Lab & NASA <CAPSTONE> update",
+    );
+    expect(items[0].querySelector("guid")?.textContent).toBe(
+      "https://news.example.com/articles/1",
+    );
+    expect(items[0].querySelector("pubDate")?.textContent).toBe(
+      "Mon, 15 Jan 2024 10:00:00 GMT",
+    );
+    expect(items[0].getElementsByTagName("dc:creator")[0]?.textContent).toBe(
+      "Jeff Foust",
+    );
+  });
+
+  it("adds an enclosure only for usable images", () => {
+    const document = parseXml(buildRssFeed(channel, articles));
+    const enclosures = document.querySelectorAll("enclosure");
+
+    expect(enclosures).toHaveLength(1);
+    expect(enclosures[0].getAttribute("url")).toBe(
+      "https://example.com/images/capstone.png?w=800",
+    );
+    expect(enclosures[0].getAttribute("type")).toBe("image/png");
+    expect(enclosures[0].getAttribute("length")).toBe("0");
+  });
+});
+
+describe("buildAtomFeed", () => {
+  it("builds a well-formed Atom document", () => {
+    const document = parseXml(buildAtomFeed(channel, articles));
+
+    expect(document.querySelector("feed > id")?.textContent).toBe(
+      "https://news.example.com/feed.xml",
+    );
+    expect(document.querySelector("feed > updated")?.textContent).toBe(
+      "2024-01-16T08:30:00.000Z",
+    );
+
+    const entries = document.querySelectorAll("entry");
+    expect(entries).toHaveLength(2);
+    expect(
+      entries[0].querySelector('link[rel="enclosure"]')?.getAttribute("href"),
+    ).toBe("https://example.com/images/capstone.png?w=800");
+    expect(
+      entries[0].querySelector('link[rel="related"]')?.getAttribute("href"),
+    ).toBe("https://example.com/capstone");
+    expect(entries[0].querySelector("updated")?.textContent).toBe(
+      "2024-01-16T08:30:00.000Z",
+    );
+  });
+
+  it("credits the news site when an entry has no authors", () => {
+    const document = parseXml(buildAtomFeed(channel, articles));
+    const entry = document.querySelectorAll("entry")[1];
+
+    expect(entry.querySelector("author > name")?.textContent).toBe("NASA");
+    expect(entry.querySelector('link[rel="enclosure"]')).toBeNull();
+  });
+
+  it("leaves out entries whose dates cannot be parsed", () => {
+    const document = parseXml(
+      buildAtomFeed(channel, [
+        { ...articles[0], updated_at: "not a date" },
+        { ...articles[1], published_at: "not a date" },
+      ]),
+    );
+
+    const entries = document.querySelectorAll("entry");
+    expect(entries).toHaveLength(1);
+    expect(entries[0].querySelector("updated")?.textContent).toBe(
+      "2024-01-15T10:00:00.000Z",
+    );
+  });
+});
+
+describe("buildJsonFeed", () => {
+  it("builds a JSON Feed 1.1 document", () => {
+    const feed = JSON.parse(buildJsonFeed(channel, articles));
+
+    expect(feed).toMatchObject({
+      version: "https://jsonfeed.org/version/1.1",
+      title: "Spaceflight News - Articles",
+      home_page_url: "https://news.example.com/",
+      feed_url: "https://news.example.com/feed.xml",
+    });
+    expect(feed.items[0]).toEqual({
+      id: "https://news.example.com/articles/1",
+      url: "https://news.example.com/articles/1",
+      external_url: "https://example.com/capstone",
+      title: "Rocket Lab & NASA <CAPSTONE> update",
+      summary: articles[0].summary,
+      content_text: articles[0].summary,
+      image: "https://example.com/images/capstone.png?w=800",
+      date_published: "2024-01-15T10:00:00.000Z",
+      date_modified: "2024-01-16T08:30:00.000Z",
+      authors: [{ name: "Jeff Foust" }],
+      tags: ["SpaceNews"],
+    });
+  });
+
+  it("leaves out missing images and authors", () => {
+    const item = JSON.parse(buildJsonFeed(channel, articles)).items[1];
+
+    expect(item).not.toHaveProperty("image");
+    expect(item).not.toHaveProperty("authors");
+    expect(item.date_modified).toBe("2024-01-14T09:00:00.000Z");
+  });
+
+  it("leaves out dates that cannot be parsed", () => {
+    const [updated, unpublished] = JSON.parse(
+      buildJsonFeed(channel, [
+        { ...articles[0], updated_at: "not a date" },
+        { ...articles[1], published_at: "not a date" },
+      ]),
+    ).items;
+
+    expect(updated.date_modified).toBe("2024-01-15T10:00:00.000Z");
+    expect(unpublished).not.toHaveProperty("date_published");
+    expect(unpublished).not.toHaveProperty("date_modified");
+  });
+});
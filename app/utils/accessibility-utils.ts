@@ -95,77 +95,109 @@ export function meetsWCAGAAA(
   return isLargeText ? ratio >= 4.5 : ratio >= 7;
 }
 
+export const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+export const HIGH_CONTRAST_QUERY = "(prefers-contrast: more)";
+
 /**
  * Check if user prefers reduced motion
  */
 export function prefersReducedMotion(): boolean {
-  if (typeof window === "undefined") return false;
-  return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+  if (typeof window === "undefined" || !window.matchMedia) return false;
+  return window.matchMedia(REDUCED_MOTION_QUERY).matches;
 }
 
 /**
  * Check if user prefers high contrast
  */
 export function prefersHighContrast(): boolean {
-  if (typeof window === "undefined") return false;
-  return window.matchMedia("(prefers-contrast: high)").matches;
-}
-
-/**
- * Check if user prefers dark color scheme
- */
-export function prefersDarkMode(): boolean {
-  if (typeof window === "undefined") return false;
-  return window.matchMedia("(prefers-color-scheme: dark)").matches;
+  if (typeof window === "undefined" || !window.matchMedia) return false;
+  return window.matchMedia(HIGH_CONTRAST_QUERY).matches;
 }
 
 /**
- * Validate color combinations used in the app
+ * Color combinations used in the app, per theme. The values mirror the
+ * semantic tokens in panda.config.ts.
  */
 export const COLOR_COMBINATIONS = {
-  primary: {
-    foreground: "#374151", // gray.700
-    background: "#ffffff", // white
-    name: "Primary text on white",
-  },
-  secondary: {
-    foreground: "#6b7280", // gray.500
-    background: "#ffffff", // white
-    name: "Secondary text on white",
-  },
-  link: {
-    foreground: "#2563eb", // blue.700 - darker for better contrast
-    background: "#ffffff", // white
-    name: "Link text on white",
+  light: {
+    primary: {
+      foreground: "#374151", // fg.body: gray.700
+      background: "#ffffff", // bg.surface: white
+      name: "Primary text on white",
+    },
+    secondary: {
+      foreground: "#6b7280", // fg.subtle: gray.500
+      background: "#ffffff", // bg.surface: white
+      name: "Secondary text on white",
+    },
+    link: {
+      foreground: "#2563eb", // fg.accent: blue.600
+      background: "#ffffff", // bg.surface: white
+      name: "Link text on white",
+    },
+    button: {
+      foreground: "#ffffff", // white
+      background: "#2563eb", // blue.600
+      name: "Button text on blue",
+    },
+    error: {
+      foreground: "#dc2626", // fg.danger: red.600
+      background: "#ffffff", // bg.surface: white
+      name: "Error text on white",
+    },
   },
-  button: {
-    foreground: "#ffffff", // white
-    background: "#2563eb", // blue.700 - darker for better contrast
-    name: "Button text on blue",
-  },
-  error: {
-    foreground: "#dc2626", // red.600
-    background: "#ffffff", // white
-    name: "Error text on white",
+  dark: {
+    primary: {
+      foreground: "#e5e7eb", // fg.body: gray.200
+      background: "#111827", // bg.surface: gray.900
+      name: "Primary text on gray.900",
+    },
+    secondary: {
+      foreground: "#9ca3af", // fg.subtle: gray.400
+      background: "#111827", // bg.surface: gray.900
+      name: "Secondary text on gray.900",
+    },
+    link: {
+      foreground: "#60a5fa", // fg.accent: blue.400
+      background: "#111827", // bg.surface: gray.900
+      name: "Link text on gray.900",
+    },
+    button: {
+      foreground: "#ffffff", // white
+      background: "#2563eb", // blue.600
+      name: "Button text on blue",
+    },
+    error: {
+      foreground: "#f87171", // fg.danger: red.400
+      background: "#111827", // bg.surface: gray.900
+      name: "Error text on gray.900",
+    },
   },
 } as const;
 
+export type ColorTheme = keyof typeof COLOR_COMBINATIONS;
+
 /**
- * Validate all color combinations in the app
+ * Validate all color combinations in the app, for both themes
  */
 export function validateAllColorCombinations(): {
+  theme: ColorTheme;
   name: string;
   ratio: number | null;
   meetsAA: boolean;
   meetsAAA: boolean;
 }[] {
-  return Object.values(COLOR_COMBINATIONS).map((combo) => {
-    const ratio = getContrastRatio(combo.foreground, combo.background);
-    return {
-      name: combo.name,
-      ratio,
-      meetsAA: meetsWCAGAA(combo.foreground, combo.background),
-      meetsAAA: meetsWCAGAAA(combo.foreground, combo.background),
-    };
-  });
+  return (Object.keys(COLOR_COMBINATIONS) as ColorTheme[]).flatMap((theme) =>
+    Object.values(COLOR_COMBINATIONS[theme]).map((combo) => {
+      const ratio = getContrastRatio(combo.foreground, combo.background);
+      return {
+        theme,
+        name: combo.name,
+        ratio,
+        meetsAA: meetsWCAGAA(combo.foreground, combo.background),
+        meetsAAA: meetsWCAGAAA(combo.foreground, combo.background),
+      };
+    }),
+  );
 }
@@ -1,18 +1,70 @@
-import type { SpaceflightArticle, SortBy } from "~/types/spaceflight";
+import type {
+  ArticleAuthor,
+  ArticleFilters,
+  DateFormatSettings,
+  SpaceflightArticle,
+  SortBy,
+} from "~/types/spaceflight";
 
 /**
- * Formats a date string to a human-readable format
+ * Inline placeholder shown when an article has no usable image
  */
-export function formatPublishedDate(dateString: string): string {
+export const PLACEHOLDER_IMAGE_URL =
+  "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='400' height='225' viewBox='0 0 400 225'%3E%3Crect width='400' height='225' fill='%23f3f4f6'/%3E%3Ctext x='200' y='112.5' text-anchor='middle' fill='%236b7280' font-family='Arial, sans-serif' font-size='14'%3ESpace News Image%3C/text%3E%3C/svg%3E";
+
+/**
+ * Used for anything not given explicitly. The time zone is fixed rather
+ * than the runtime's, so the server and the browser format alike.
+ */
+export const DEFAULT_DATE_FORMAT = {
+  locale: "en-US",
+  timeZone: "UTC",
+  display: "local",
+  timestamps: "relative",
+} as const satisfies DateFormatSettings;
+
+/**
+ * ISO 8601 timestamp for a date string, or null when it cannot be parsed.
+ * Unlike `new Date(value).toISOString()`, it never throws.
+ */
+export function toIsoDate(value: string | undefined): string | null {
+  if (value === undefined) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * ISO 8601 timestamp in UTC without milliseconds, e.g. 2024-01-15T10:00:00Z
+ */
+function toIsoTimestamp(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+/**
+ * Formats a date string to a human-readable format, or to an ISO timestamp
+ * in "iso" display
+ */
+export function formatPublishedDate(
+  dateString: string,
+  {
+    locale = DEFAULT_DATE_FORMAT.locale,
+    timeZone,
+    display = DEFAULT_DATE_FORMAT.display,
+  }: Partial<DateFormatSettings> = {},
+): string {
   try {
     const date = new Date(dateString);
     if (isNaN(date.getTime())) {
       return "Unknown date";
     }
-    return date.toLocaleDateString("en-US", {
+    if (display === "iso") {
+      return toIsoTimestamp(date);
+    }
+    return date.toLocaleDateString(locale, {
       year: "numeric",
       month: "long",
       day: "numeric",
+      timeZone: timeZone ?? DEFAULT_DATE_FORMAT.timeZone,
     });
   } catch {
     return "Unknown date";
@@ -20,46 +72,113 @@ export function formatPublishedDate(dateString: string): string {
 }
 
 /**
- * Formats a date string to a relative time format (e.g., "2 days ago")
+ * Formats the time of day of a date string, e.g. 10:30 AM, or as an ISO time
+ * in UTC in "iso" display
  */
-export function formatRelativeTime(dateString: string): string {
+export function formatTime(
+  dateString: string,
+  {
+    locale = DEFAULT_DATE_FORMAT.locale,
+    timeZone,
+    display = DEFAULT_DATE_FORMAT.display,
+  }: Partial<DateFormatSettings> = {},
+): string {
   try {
     const date = new Date(dateString);
     if (isNaN(date.getTime())) {
-      return "Unknown date";
+      return "Unknown time";
     }
-    const now = new Date();
-    const diffInMs = now.getTime() - date.getTime();
-    const diffInDays = Math.floor(diffInMs / (1000 * 60 * 60 * 24));
-
-    if (diffInDays === 0) {
-      const diffInHours = Math.floor(diffInMs / (1000 * 60 * 60));
-      if (diffInHours === 0) {
-        const diffInMinutes = Math.floor(diffInMs / (1000 * 60));
-        return diffInMinutes <= 1 ? "Just now" : `${diffInMinutes} minutes ago`;
-      }
-      return diffInHours === 1 ? "1 hour ago" : `${diffInHours} hours ago`;
+    if (display === "iso") {
+      return toIsoTimestamp(date).slice("YYYY-MM-DDT".length);
     }
+    return date.toLocaleTimeString(locale, {
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone: timeZone ?? DEFAULT_DATE_FORMAT.timeZone,
+    });
+  } catch {
+    return "Unknown time";
+  }
+}
 
-    if (diffInDays === 1) {
-      return "Yesterday";
-    }
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
 
-    if (diffInDays < 7) {
-      return `${diffInDays} days ago`;
+/**
+ * Formats a date string relative to now in the given locale (e.g., "2 days
+ * ago"), falling back to the date once it is a month old
+ */
+export function formatRelativeTime(
+  dateString: string,
+  settings: Partial<DateFormatSettings> = {},
+  now: number = Date.now(),
+): string {
+  try {
+    const date = new Date(dateString);
+    if (isNaN(date.getTime())) {
+      return "Unknown date";
     }
-
-    if (diffInDays < 30) {
-      const weeks = Math.floor(diffInDays / 7);
-      return weeks === 1 ? "1 week ago" : `${weeks} weeks ago`;
+    const diffInMs = now - date.getTime();
+    if (diffInMs >= 30 * DAY_MS) {
+      return formatPublishedDate(dateString, settings);
     }
 
-    return formatPublishedDate(dateString);
+    const rtf = new Intl.RelativeTimeFormat(
+      settings.locale ?? DEFAULT_DATE_FORMAT.locale,
+      { numeric: "auto" },
+    );
+
+    // Clock skew can put a fresh story slightly in the future
+    if (diffInMs < MINUTE_MS) {
+      return rtf.format(0, "second");
+    }
+    if (diffInMs < HOUR_MS) {
+      return rtf.format(-Math.floor(diffInMs / MINUTE_MS), "minute");
+    }
+    if (diffInMs < DAY_MS) {
+      return rtf.format(-Math.floor(diffInMs / HOUR_MS), "hour");
+    }
+    if (diffInMs < 7 * DAY_MS) {
+      return rtf.format(-Math.floor(diffInMs / DAY_MS), "day");
+    }
+    return rtf.format(-Math.floor(diffInMs / (7 * DAY_MS)), "week");
   } catch {
     return "Unknown date";
   }
 }
 
+/**
+ * Joins author names into a byline, e.g. "Jane Doe, John Roe, and Ann Poe"
+ */
+export function formatAuthorNames(authors: ArticleAuthor[] = []): string {
+  const names = authors.map((author) => author.name.trim()).filter(Boolean);
+  return new Intl.ListFormat("en", {
+    style: "long",
+    type: "conjunction",
+  }).format(names);
+}
+
+/**
+ * Whether an article was updated on a later day than it was published.
+ * The API touches updated_at when it ingests an article, so same-day
+ * updates are not worth showing.
+ */
+export function hasLaterUpdate(
+  article: SpaceflightArticle,
+): article is SpaceflightArticle & { updated_at: string } {
+  if (!article.updated_at) {
+    return false;
+  }
+  const updated = new Date(article.updated_at).getTime();
+  const published = new Date(article.published_at).getTime();
+  return (
+    updated > published &&
+    formatPublishedDate(article.updated_at) !==
+      formatPublishedDate(article.published_at)
+  );
+}
+
 /**
  * Truncates text to a specified length with ellipsis
  */
@@ -71,7 +190,8 @@ export function truncateText(text: string, maxLength: number): string {
 }
 
 /**
- * Filters articles based on search term (searches in title and summary)
+ * Filters articles based on search term (searches in title, summary and
+ * news site, matching the API's `search` parameter)
  */
 export function filterArticlesBySearch(
   articles: SpaceflightArticle[],
@@ -124,12 +244,12 @@ export function sortArticles(
 }
 
 /**
- * Combines filtering and sorting operations
+ * Combines filtering and sorting operations. This is the entry point the
+ * routes and components use to turn a list of articles into what is shown.
  */
 export function processArticles(
   articles: SpaceflightArticle[],
-  searchTerm: string = "",
-  sortBy: SortBy = "date",
+  { searchTerm = "", sortBy = "date" }: ArticleFilters = {},
 ): SpaceflightArticle[] {
   const filtered = filterArticlesBySearch(articles, searchTerm);
   return sortArticles(filtered, sortBy);
@@ -154,8 +274,7 @@ export function getImageUrlWithFallback(imageUrl: string): string {
   if (isValidImageUrl(imageUrl)) {
     return imageUrl;
   }
-  // Return a placeholder image URL
-  return "/placeholder-space-image.jpg";
+  return PLACEHOLDER_IMAGE_URL;
 }
 
 /**
@@ -169,3 +288,37 @@ export function extractDomain(url: string): string {
     return "Unknown source";
   }
 }
+
+/**
+ * Picks articles related to the given one from a pool of candidates.
+ * Articles from the same news site and with shared title keywords rank first.
+ */
+export function getRelatedArticles(
+  article: SpaceflightArticle,
+  candidates: SpaceflightArticle[],
+  limit: number = 3,
+): SpaceflightArticle[] {
+  const keywords = new Set(
+    article.title
+      .toLowerCase()
+      .split(/\W+/)
+      .filter((word) => word.length > 3),
+  );
+
+  const scored = candidates
+    .filter((candidate) => candidate.id !== article.id)
+    .map((candidate) => {
+      const sharedKeywords = candidate.title
+        .toLowerCase()
+        .split(/\W+/)
+        .filter((word) => keywords.has(word)).length;
+      const sameSite = candidate.news_site === article.news_site ? 1 : 0;
+      return { candidate, score: sharedKeywords * 2 + sameSite };
+    });
+
+  // Stable sort keeps the candidates' original (newest first) order on ties
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
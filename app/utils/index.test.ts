@@ -1,5 +1,19 @@
 import { describe, it, expect } from "vitest";
-import { sortArticles } from "./index";
+import {
+  sortArticles,
+  getRelatedArticles,
+  getPageNumbers,
+  getNewsSitesFromParams,
+  getArticleFiltersFromParams,
+  setArticleFiltersParams,
+  toArticleQueryFilters,
+  getContentTypeFromParams,
+  getContentPath,
+  getFeedHref,
+  getSyndicationHref,
+  getSafeRedirect,
+  isPreferenceAction,
+} from "./index";
 import type { SpaceflightArticle } from "~/types";
 
 describe("sortArticles", () => {
@@ -153,3 +167,269 @@ describe("sortArticles", () => {
     expect(sorted[2].title).toBe("zebra mission");
   });
 });
+
+describe("getRelatedArticles", () => {
+  const article: SpaceflightArticle = {
+    id: 10,
+    title: "Starship Orbital Flight Test",
+    summary: "Starship flies again",
+    image_url: "https://example.com/starship.jpg",
+    news_site: "SpaceNews",
+    published_at: "2024-01-15T10:00:00Z",
+    url: "https://example.com/starship",
+  };
+
+  const candidates: SpaceflightArticle[] = [
+    { ...article, id: 10 },
+    {
+      ...article,
+      id: 11,
+      title: "Mars Sample Return Delayed",
+      news_site: "NASA",
+    },
+    { ...article, id: 12, title: "Weather Report", news_site: "SpaceNews" },
+    {
+      ...article,
+      id: 13,
+      title: "Starship Flight Test Scrubbed",
+      news_site: "NASA",
+    },
+  ];
+
+  it("excludes the article itself", () => {
+    const related = getRelatedArticles(article, candidates, 10);
+    expect(related.map((a) => a.id)).not.toContain(10);
+  });
+
+  it("ranks shared title keywords above same news site", () => {
+    const related = getRelatedArticles(article, candidates);
+    expect(related.map((a) => a.id)).toEqual([13, 12, 11]);
+  });
+
+  it("respects the limit", () => {
+    expect(getRelatedArticles(article, candidates, 1)).toHaveLength(1);
+  });
+});
+
+describe("getPageNumbers", () => {
+  it("lists every page when there are few", () => {
+    expect(getPageNumbers(2, 3)).toEqual([1, 2, 3]);
+  });
+
+  it("collapses gaps on both sides of the current page", () => {
+    expect(getPageNumbers(10, 20)).toEqual([
+      1,
+      "ellipsis",
+      9,
+      10,
+      11,
+      "ellipsis",
+      20,
+    ]);
+  });
+
+  it("returns an empty list when there are no pages", () => {
+    expect(getPageNumbers(1, 0)).toEqual([]);
+  });
+});
+
+describe("getNewsSitesFromParams", () => {
+  it("splits a comma-separated news_site param", () => {
+    const params = new URLSearchParams("news_site=SpaceNews,NASA");
+    expect(getNewsSitesFromParams(params)).toEqual(["SpaceNews", "NASA"]);
+  });
+
+  it("accepts repeated params and drops blanks and duplicates", () => {
+    const params = new URLSearchParams(
+      "news_site=SpaceNews&news_site=%20NASA%20,,SpaceNews",
+    );
+    expect(getNewsSitesFromParams(params)).toEqual(["SpaceNews", "NASA"]);
+  });
+
+  it("returns an empty list when no sites are selected", () => {
+    expect(getNewsSitesFromParams(new URLSearchParams("q=mars"))).toEqual([]);
+  });
+});
+
+describe("getArticleFiltersFromParams", () => {
+  it("reads search, news sites and an explicit date range", () => {
+    const params = new URLSearchParams(
+      "q=%20Artemis%20&news_site=NASA&from=2024-01-01&to=2024-01-07",
+    );
+    expect(getArticleFiltersFromParams(params)).toEqual({
+      searchTerm: "Artemis",
+      newsSites: ["NASA"],
+      publishedFrom: "2024-01-01",
+      publishedTo: "2024-01-07",
+    });
+  });
+
+  it("prefers a date preset over from and to", () => {
+    const params = new URLSearchParams("range=7d&from=2024-01-01");
+    expect(getArticleFiltersFromParams(params)).toEqual({ datePreset: "7d" });
+  });
+
+  it("ignores unknown presets and invalid dates", () => {
+    const params = new URLSearchParams("range=1y&from=2024-02-30&to=yesterday");
+    expect(getArticleFiltersFromParams(params)).toEqual({});
+  });
+
+  it("swaps a reversed date range", () => {
+    const params = new URLSearchParams("from=2024-01-07&to=2024-01-01");
+    expect(getArticleFiltersFromParams(params)).toEqual({
+      publishedFrom: "2024-01-01",
+      publishedTo: "2024-01-07",
+    });
+  });
+});
+
+describe("setArticleFiltersParams", () => {
+  it("round-trips filters through the URL", () => {
+    const filters = {
+      searchTerm: "Starship",
+      newsSites: ["SpaceNews", "NASA"],
+      publishedFrom: "2024-03-10",
+      publishedTo: "2024-03-16",
+    };
+    const params = setArticleFiltersParams(new URLSearchParams(), filters);
+
+    expect(params.get("news_site")).toBe("SpaceNews,NASA");
+    expect(getArticleFiltersFromParams(params)).toEqual(filters);
+  });
+
+  it("round-trips launch and event coverage filters", () => {
+    const filters = { launchId: "f059ef7a", eventId: 742 };
+    const params = setArticleFiltersParams(new URLSearchParams(), filters);
+
+    expect(params.toString()).toBe("launch=f059ef7a&event=742");
+    expect(getArticleFiltersFromParams(params)).toEqual(filters);
+  });
+
+  it("resets pagination but keeps unrelated params", () => {
+    const params = setArticleFiltersParams(
+      new URLSearchParams("view=scroll&page=3&offset=40&q=mars&range=24h"),
+      { datePreset: "30d" },
+    );
+    expect(params.toString()).toBe("view=scroll&range=30d");
+  });
+});
+
+describe("toArticleQueryFilters", () => {
+  const now = new Date("2024-03-20T12:00:00.000Z");
+
+  it("maps a preset to a lower bound relative to now", () => {
+    expect(toArticleQueryFilters({ datePreset: "24h" }, now)).toEqual({
+      publishedAfter: "2024-03-19T12:00:00.000Z",
+    });
+    expect(toArticleQueryFilters({ datePreset: "7d" }, now)).toEqual({
+      publishedAfter: "2024-03-13T12:00:00.000Z",
+    });
+  });
+
+  it("rounds a preset bound down to the hour so it can be cached", () => {
+    const later = new Date("2024-03-20T12:34:56.789Z");
+
+    expect(toArticleQueryFilters({ datePreset: "24h" }, later)).toEqual({
+      publishedAfter: "2024-03-19T12:00:00.000Z",
+    });
+  });
+
+  it("covers whole UTC days for an explicit range", () => {
+    expect(
+      toArticleQueryFilters({
+        searchTerm: "launch",
+        newsSites: ["ESA"],
+        publishedFrom: "2024-03-10",
+        publishedTo: "2024-03-10",
+      }),
+    ).toEqual({
+      search: "launch",
+      newsSites: ["ESA"],
+      publishedAfter: "2024-03-10T00:00:00.000Z",
+      publishedBefore: "2024-03-10T23:59:59.999Z",
+    });
+  });
+
+  it("returns no filters for an empty filter set", () => {
+    expect(toArticleQueryFilters({})).toEqual({});
+  });
+});
+
+describe("getContentTypeFromParams", () => {
+  it("reads blogs and reports from the type param", () => {
+    expect(getContentTypeFromParams(new URLSearchParams("type=blogs"))).toBe(
+      "blogs",
+    );
+    expect(getContentTypeFromParams(new URLSearchParams("type=reports"))).toBe(
+      "reports",
+    );
+  });
+
+  it("defaults to articles for missing or unknown types", () => {
+    expect(getContentTypeFromParams(new URLSearchParams())).toBe("articles");
+    expect(getContentTypeFromParams(new URLSearchParams("type=toString"))).toBe(
+      "articles",
+    );
+  });
+});
+
+describe("getContentPath", () => {
+  it("builds the detail page path for each content type", () => {
+    expect(getContentPath("articles", 7)).toBe("/articles/7");
+    expect(getContentPath("reports", 12)).toBe("/reports/12");
+  });
+});
+
+describe("getFeedHref", () => {
+  it("links to the feed with filters applied", () => {
+    expect(getFeedHref("articles")).toBe("/");
+    expect(getFeedHref("articles", { launchId: "f059ef7a" })).toBe(
+      "/?launch=f059ef7a",
+    );
+    expect(getFeedHref("blogs", { eventId: 742 })).toBe(
+      "/?type=blogs&event=742",
+    );
+  });
+});
+
+describe("getSyndicationHref", () => {
+  it("links to the RSS or Atom version of a filtered feed", () => {
+    expect(getSyndicationHref("rss", "articles")).toBe("/feed.xml");
+    expect(
+      getSyndicationHref("atom", "reports", {
+        searchTerm: "Artemis",
+        newsSites: ["NASA"],
+        sortBy: "title",
+      }),
+    ).toBe("/atom.xml?type=reports&q=Artemis&news_site=NASA");
+  });
+});
+
+describe("isPreferenceAction", () => {
+  it("matches the routes that only store a preference cookie", () => {
+    expect(isPreferenceAction("/date-format")).toBe(true);
+    expect(isPreferenceAction("/theme?index")).toBe(true);
+    expect(isPreferenceAction("/accessibility")).toBe(true);
+    expect(isPreferenceAction("/api/articles")).toBe(false);
+    expect(isPreferenceAction(undefined)).toBe(false);
+  });
+});
+
+describe("getSafeRedirect", () => {
+  it("accepts paths on this site", () => {
+    expect(getSafeRedirect("/saved?q=moon")).toBe("/saved?q=moon");
+  });
+
+  it("rejects other sites and missing values", () => {
+    expect(getSafeRedirect("https://evil.example.com/")).toBeNull();
+    expect(getSafeRedirect("//evil.example.com/")).toBeNull();
+    expect(getSafeRedirect(null)).toBeNull();
+  });
+
+  it("rejects paths that browsers read as another site", () => {
+    expect(getSafeRedirect("/\\evil.com")).toBeNull();
+    expect(getSafeRedirect("/\t/evil.com")).toBeNull();
+    expect(getSafeRedirect("\\/evil.com")).toBeNull();
+    expect(getSafeRedirect("/\n/evil.com")).toBeNull();
+  });
+});
@@ -1,92 +1,320 @@
-import type { SpaceflightArticle, SortBy } from "~/types";
+import type {
+  ArticleFilters,
+  ArticleQueryFilters,
+  ContentType,
+  DateRangePreset,
+  SyndicationFormat,
+} from "~/types";
+
+export const CONTENT_TYPE_LABELS: Record<
+  ContentType,
+  { singular: string; plural: string }
+> = {
+  articles: { singular: "Article", plural: "Articles" },
+  blogs: { singular: "Blog", plural: "Blogs" },
+  reports: { singular: "Report", plural: "Reports" },
+};
+
+export function isContentType(value: unknown): value is ContentType {
+  return typeof value === "string" && Object.hasOwn(CONTENT_TYPE_LABELS, value);
+}
+
+/**
+ * Reads the content type shown in the feed from ?type=, defaulting to articles
+ */
+export function getContentTypeFromParams(
+  searchParams: URLSearchParams,
+): ContentType {
+  const type = searchParams.get("type");
+  return isContentType(type) ? type : "articles";
+}
 
 /**
- * Filters articles by search term (searches in title)
+ * In-app detail page path for an article, blog or report
  */
-export function filterArticlesBySearch(
-  articles: SpaceflightArticle[],
-  searchTerm: string,
-): SpaceflightArticle[] {
-  if (!searchTerm.trim()) {
-    return articles;
+export function getContentPath(contentType: ContentType, id: number): string {
+  return `/${contentType}/${id}`;
+}
+
+/**
+ * Builds the list of page numbers to show in pagination controls.
+ * Always includes the first and last page, the current page and its
+ * neighbours; gaps are represented by "ellipsis".
+ */
+export function getPageNumbers(
+  currentPage: number,
+  totalPages: number,
+  siblings: number = 1,
+): (number | "ellipsis")[] {
+  const pages: (number | "ellipsis")[] = [];
+
+  for (let page = 1; page <= totalPages; page++) {
+    const isEdge = page === 1 || page === totalPages;
+    const isNearCurrent = Math.abs(page - currentPage) <= siblings;
+
+    if (isEdge || isNearCurrent) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== "ellipsis") {
+      pages.push("ellipsis");
+    }
   }
 
-  const lowercaseSearch = searchTerm.trim().toLowerCase();
-  return articles.filter((article) =>
-    article.title.toLowerCase().includes(lowercaseSearch),
-  );
+  return pages;
+}
+
+/**
+ * Reads the selected news sites from the URL. Accepts both the bookmarkable
+ * comma-separated form (?news_site=SpaceNews,NASA) and repeated params.
+ */
+export function getNewsSitesFromParams(
+  searchParams: URLSearchParams,
+): string[] {
+  const sites = searchParams
+    .getAll("news_site")
+    .flatMap((value) => value.split(","))
+    .map((site) => site.trim())
+    .filter(Boolean);
+
+  return Array.from(new Set(sites));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_RANGE_PRESET_MS: Record<DateRangePreset, number> = {
+  "24h": DAY_MS,
+  "7d": 7 * DAY_MS,
+  "30d": 30 * DAY_MS,
+};
+
+/**
+ * Preset lower bounds are rounded down to this, so requests within the same
+ * hour share one upstream URL and cache entry
+ */
+const DATE_PRESET_PRECISION_MS = 60 * 60 * 1000;
+
+// URL params owned by ArticleFilters; pagination is reset when they change
+const FILTER_PARAMS = [
+  "q",
+  "news_site",
+  "launch",
+  "event",
+  "range",
+  "from",
+  "to",
+];
+
+function isDateRangePreset(value: string | null): value is DateRangePreset {
+  return value !== null && Object.hasOwn(DATE_RANGE_PRESET_MS, value);
 }
 
 /**
- * Sorts articles by the specified criteria
+ * Returns the value if it is a real calendar date in YYYY-MM-DD form
  */
-export function sortArticles(
-  articles: SpaceflightArticle[],
-  sortBy: SortBy,
-): SpaceflightArticle[] {
-  const sortedArticles = [...articles];
-
-  switch (sortBy) {
-    case "title":
-      return sortedArticles.sort((a, b) => a.title.localeCompare(b.title));
-    case "date":
-      return sortedArticles.sort(
-        (a, b) =>
-          new Date(b.published_at).getTime() -
-          new Date(a.published_at).getTime(),
-      );
-    default:
-      return sortedArticles;
+function parseDateParam(value: string | null): string | undefined {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return undefined;
   }
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value)
+    ? value
+    : undefined;
 }
 
 /**
- * Formats a date string for display
+ * Reads the feed filters from the URL. A date preset (?range=7d) wins over
+ * an explicit ?from / ?to range; a reversed range is swapped.
  */
-export function formatDate(dateString: string): string {
-  try {
-    const date = new Date(dateString);
-    return date.toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
-  } catch {
-    return "Invalid date";
+export function getArticleFiltersFromParams(
+  searchParams: URLSearchParams,
+): ArticleFilters {
+  const filters: ArticleFilters = {};
+
+  const searchTerm = searchParams.get("q")?.trim();
+  if (searchTerm) {
+    filters.searchTerm = searchTerm;
+  }
+
+  const newsSites = getNewsSitesFromParams(searchParams);
+  if (newsSites.length > 0) {
+    filters.newsSites = newsSites;
+  }
+
+  const launchId = searchParams.get("launch")?.trim();
+  if (launchId) {
+    filters.launchId = launchId;
+  }
+
+  const eventId = Number(searchParams.get("event"));
+  if (Number.isInteger(eventId) && eventId > 0) {
+    filters.eventId = eventId;
+  }
+
+  const range = searchParams.get("range");
+  if (isDateRangePreset(range)) {
+    filters.datePreset = range;
+    return filters;
   }
+
+  let from = parseDateParam(searchParams.get("from"));
+  let to = parseDateParam(searchParams.get("to"));
+  if (from && to && from > to) {
+    [from, to] = [to, from];
+  }
+  if (from) {
+    filters.publishedFrom = from;
+  }
+  if (to) {
+    filters.publishedTo = to;
+  }
+
+  return filters;
 }
 
 /**
- * Truncates text to a specified length with ellipsis
+ * Writes the feed filters back into a copy of the URL params, dropping the
+ * current page so the new results start from the beginning
  */
-export function truncateText(text: string, maxLength: number): string {
-  if (text.length <= maxLength) {
-    return text;
+export function setArticleFiltersParams(
+  searchParams: URLSearchParams,
+  filters: ArticleFilters,
+): URLSearchParams {
+  const params = new URLSearchParams(searchParams);
+  params.delete("page");
+  params.delete("offset");
+  FILTER_PARAMS.forEach((name) => params.delete(name));
+
+  if (filters.searchTerm) {
+    params.set("q", filters.searchTerm);
+  }
+  if (filters.newsSites && filters.newsSites.length > 0) {
+    params.set("news_site", filters.newsSites.join(","));
+  }
+  if (filters.launchId) {
+    params.set("launch", filters.launchId);
+  }
+  if (filters.eventId !== undefined) {
+    params.set("event", filters.eventId.toString());
+  }
+  if (filters.datePreset) {
+    params.set("range", filters.datePreset);
+  } else {
+    if (filters.publishedFrom) {
+      params.set("from", filters.publishedFrom);
+    }
+    if (filters.publishedTo) {
+      params.set("to", filters.publishedTo);
+    }
   }
-  return text.slice(0, maxLength).trim() + "...";
+
+  return params;
+}
+
+/**
+ * Link to the feed for a content type with the given filters applied
+ */
+export function getFeedHref(
+  contentType: ContentType,
+  filters: ArticleFilters = {},
+): string {
+  const params = setArticleFiltersParams(
+    new URLSearchParams(
+      contentType === "articles" ? "" : { type: contentType },
+    ),
+    filters,
+  );
+  const query = params.toString();
+  return query ? `/?${query}` : "/";
+}
+
+export const SYNDICATION_PATHS: Record<SyndicationFormat, string> = {
+  rss: "/feed.xml",
+  atom: "/atom.xml",
+  json: "/feed.json",
+};
+
+/**
+ * Link to the RSS, Atom or JSON Feed version of a filtered feed
+ */
+export function getSyndicationHref(
+  format: SyndicationFormat,
+  contentType: ContentType,
+  filters: ArticleFilters = {},
+): string {
+  // Reuse the feed's query string, dropping its leading "/"
+  return `${SYNDICATION_PATHS[format]}${getFeedHref(contentType, filters).slice(1)}`;
 }
 
 /**
- * Validates if an image URL is accessible (basic validation)
+ * A form's redirectTo when it is a path on this site, so it cannot be used
+ * as an open redirect. The value is parsed the way a browser would read it,
+ * since browsers treat a backslash as "/" and drop tabs and newlines.
  */
-export function isValidImageUrl(url: string): boolean {
+export function getSafeRedirect(
+  value: FormDataEntryValue | null,
+): string | null {
+  if (typeof value !== "string" || !value.startsWith("/")) return null;
+
+  const base = "http://localhost";
+  let url: URL;
   try {
-    const parsedUrl = new URL(url);
-    return parsedUrl.protocol === "http:" || parsedUrl.protocol === "https:";
+    url = new URL(value, base);
   } catch {
-    return false;
+    return null;
   }
+  return url.origin === base ? `${url.pathname}${url.search}${url.hash}` : null;
+}
+
+/** Action routes that only store a display preference cookie */
+const PREFERENCE_ACTIONS = ["/theme", "/accessibility", "/date-format"];
+
+/**
+ * Whether a submission only stored a display preference. Page data does not
+ * depend on those, so page loaders need not run again after one.
+ */
+export function isPreferenceAction(formAction: string | undefined): boolean {
+  return (
+    formAction !== undefined &&
+    PREFERENCE_ACTIONS.includes(formAction.split("?")[0])
+  );
 }
 
 /**
- * Gets a fallback image URL if the original is invalid
+ * Converts feed filters into the API's query filters. Calendar dates are
+ * whole UTC days, so a from/to of the same day covers all 24 hours.
  */
-export function getImageUrlWithFallback(imageUrl: string): string {
-  if (isValidImageUrl(imageUrl)) {
-    return imageUrl;
+export function toArticleQueryFilters(
+  filters: ArticleFilters,
+  now: Date = new Date(),
+): ArticleQueryFilters {
+  const queryFilters: ArticleQueryFilters = {};
+
+  if (filters.searchTerm) {
+    queryFilters.search = filters.searchTerm;
   }
-  // Return a placeholder image URL - in production, this should be a real placeholder
-  return "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='400' height='225' viewBox='0 0 400 225'%3E%3Crect width='400' height='225' fill='%23f3f4f6'/%3E%3Ctext x='200' y='112.5' text-anchor='middle' fill='%236b7280' font-family='Arial, sans-serif' font-size='14'%3ESpace News Image%3C/text%3E%3C/svg%3E";
+  if (filters.newsSites && filters.newsSites.length > 0) {
+    queryFilters.newsSites = filters.newsSites;
+  }
+  if (filters.launchId) {
+    queryFilters.launchId = filters.launchId;
+  }
+  if (filters.eventId !== undefined) {
+    queryFilters.eventId = filters.eventId;
+  }
+  if (filters.datePreset) {
+    const after = now.getTime() - DATE_RANGE_PRESET_MS[filters.datePreset];
+    queryFilters.publishedAfter = new Date(
+      after - (after % DATE_PRESET_PRECISION_MS),
+    ).toISOString();
+  } else {
+    if (filters.publishedFrom) {
+      queryFilters.publishedAfter = `${filters.publishedFrom}T00:00:00.000Z`;
+    }
+    if (filters.publishedTo) {
+      queryFilters.publishedBefore = `${filters.publishedTo}T23:59:59.999Z`;
+    }
+  }
+
+  return queryFilters;
 }
 
 /**
@@ -103,5 +331,17 @@ export function debounce<T extends (...args: unknown[]) => unknown>(
   };
 }
 
+// Article processing toolkit
+export * from "./article-utils";
+
+// RSS, Atom and JSON feed builders
+export * from "./syndication-utils";
+
+// Sitemap and robots.txt builders
+export * from "./sitemap-utils";
+
+// JSON-LD structured data for search engines
+export * from "./structured-data";
+
 // Export accessibility utilities
 export * from "./accessibility-utils";
@@ -0,0 +1,79 @@
+import { escapeXml } from "./syndication-utils";
+
+/**
+ * A page or a child sitemap listed in a sitemap
+ */
+export interface SitemapEntry {
+  /** Absolute URL */
+  loc: string;
+  /** When the page last changed, as an ISO timestamp */
+  lastmod?: string;
+}
+
+export interface RobotsTxtOptions {
+  /** Whether crawlers may index the site; false disallows everything */
+  allowIndexing: boolean;
+  /** Absolute URL of the sitemap advertised to crawlers */
+  sitemapUrl: string;
+  /** Path prefixes kept out of search results */
+  disallow?: string[];
+}
+
+function renderEntries(tag: "url" | "sitemap", entries: SitemapEntry[]) {
+  return entries.map((entry) => {
+    const lines = [`<loc>${escapeXml(entry.loc)}</loc>`];
+    if (entry.lastmod) {
+      lines.push(`<lastmod>${escapeXml(entry.lastmod)}</lastmod>`);
+    }
+    return `  <${tag}>\n${lines.map((line) => `    ${line}`).join("\n")}\n  </${tag}>`;
+  });
+}
+
+/**
+ * Builds a sitemap listing pages
+ */
+export function buildSitemap(urls: SitemapEntry[]): string {
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...renderEntries("url", urls),
+    `</urlset>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Builds a sitemap index listing child sitemaps
+ */
+export function buildSitemapIndex(sitemaps: SitemapEntry[]): string {
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...renderEntries("sitemap", sitemaps),
+    `</sitemapindex>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Builds a robots.txt. When indexing is not allowed every crawler is kept
+ * out and no sitemap is advertised.
+ */
+export function buildRobotsTxt({
+  allowIndexing,
+  sitemapUrl,
+  disallow = [],
+}: RobotsTxtOptions): string {
+  if (!allowIndexing) {
+    return ["User-agent: *", "Disallow: /", ""].join("\n");
+  }
+
+  return [
+    "User-agent: *",
+    "Allow: /",
+    ...disallow.map((path) => `Disallow: ${path}`),
+    "",
+    `Sitemap: ${sitemapUrl}`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,79 @@
+import type { SpaceflightArticle } from "~/types/spaceflight";
+import { isValidImageUrl, toIsoDate } from "./article-utils";
+
+/** Search engines truncate longer NewsArticle headlines */
+const MAX_HEADLINE_LENGTH = 110;
+
+export type JsonLd = Record<string, unknown>;
+
+/** Characters that could end the script tag or break older JS parsers */
+const JSON_LD_UNSAFE = /[<>\u2028\u2029]/g;
+
+/**
+ * JSON-LD as script tag content. Angle brackets and the line and paragraph
+ * separators are written as \u escapes, so API text cannot close the tag but
+ * still reads the same once parsed.
+ */
+export function serializeJsonLd(jsonLd: JsonLd): string {
+  return JSON.stringify(jsonLd).replace(
+    JSON_LD_UNSAFE,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`,
+  );
+}
+
+/**
+ * schema.org NewsArticle for a detail page. The story itself lives on the
+ * news site, so it is linked with isBasedOn and the site is the publisher.
+ */
+export function getNewsArticleJsonLd(
+  article: SpaceflightArticle,
+  pageUrl: string,
+): JsonLd {
+  const authors = article.authors ?? [];
+  const datePublished = toIsoDate(article.published_at);
+  const dateModified = toIsoDate(article.updated_at) ?? datePublished;
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "NewsArticle",
+    headline:
+      article.title.length > MAX_HEADLINE_LENGTH
+        ? `${article.title.slice(0, MAX_HEADLINE_LENGTH - 1).trimEnd()}…`
+        : article.title,
+    description: article.summary,
+    url: pageUrl,
+    mainEntityOfPage: pageUrl,
+    isBasedOn: article.url,
+    ...(isValidImageUrl(article.image_url)
+      ? { image: [article.image_url] }
+      : {}),
+    ...(datePublished ? { datePublished } : {}),
+    ...(dateModified ? { dateModified } : {}),
+    author:
+      authors.length > 0
+        ? authors.map((author) => ({ "@type": "Person", name: author.name }))
+        : [{ "@type": "Organization", name: article.news_site }],
+    publisher: { "@type": "Organization", name: article.news_site },
+  };
+}
+
+/**
+ * schema.org ItemList of the detail pages shown on a feed page. Positions
+ * continue across pages, starting after `offset`.
+ */
+export function getItemListJsonLd(
+  articles: SpaceflightArticle[],
+  getArticleUrl: (article: SpaceflightArticle) => string,
+  offset: number = 0,
+): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    "@type": "ItemList",
+    itemListElement: articles.map((article, index) => ({
+      "@type": "ListItem",
+      position: offset + index + 1,
+      url: getArticleUrl(article),
+      name: article.title,
+    })),
+  };
+}
@@ -0,0 +1,229 @@
+import type { SpaceflightArticle } from "~/types/spaceflight";
+import { isValidImageUrl, toIsoDate } from "./article-utils";
+
+/**
+ * Channel-level details shared by the RSS, Atom and JSON feeds
+ */
+export interface FeedChannel {
+  title: string;
+  description: string;
+  /** Absolute URL of the matching page in the app */
+  siteUrl: string;
+  /** Absolute URL of the feed document itself */
+  feedUrl: string;
+  /** Absolute URL of an article's detail page in the app */
+  getArticleUrl: (article: SpaceflightArticle) => string;
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+};
+
+/**
+ * Escapes text for use in XML content and attribute values, dropping
+ * control characters that XML 1.0 does not allow at all
+ */
+export function escapeXml(value: string): string {
+  return (
+    value
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;")
+  );
+}
+
+/**
+ * Guesses an image MIME type from the URL's file extension
+ */
+export function getImageMimeType(url: string): string {
+  const extension = new URL(url).pathname.split(".").pop()?.toLowerCase();
+  return (extension && IMAGE_MIME_TYPES[extension]) || "image/jpeg";
+}
+
+/**
+ * Most recent publication or update time across the articles, or null
+ */
+export function getFeedLastModified(
+  articles: SpaceflightArticle[],
+): Date | null {
+  const times = articles
+    .map((article) =>
+      new Date(article.updated_at ?? article.published_at).getTime(),
+    )
+    .filter((time) => !isNaN(time));
+
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
+
+function element(name: string, content: string): string {
+  return `<${name}>${escapeXml(content)}</${name}>`;
+}
+
+function getAuthorNames(article: SpaceflightArticle): string[] {
+  return article.authors?.map((author) => author.name) ?? [];
+}
+
+/**
+ * Builds an RSS 2.0 document. The build date is the newest article's so the
+ * output only changes when the articles do.
+ */
+export function buildRssFeed(
+  channel: FeedChannel,
+  articles: SpaceflightArticle[],
+): string {
+  const lastModified = getFeedLastModified(articles);
+
+  const items = articles.map((article) => {
+    const link = channel.getArticleUrl(article);
+    const lines = [
+      element("title", article.title),
+      element("link", link),
+      `<guid isPermaLink="true">${escapeXml(link)}</guid>`,
+      element("description", article.summary),
+      element("pubDate", new Date(article.published_at).toUTCString()),
+      element("category", article.news_site),
+      ...getAuthorNames(article).map((name) => element("dc:creator", name)),
+    ];
+
+    if (isValidImageUrl(article.image_url)) {
+      // The size is unknown without fetching the image; 0 is the convention
+      lines.push(
+        `<enclosure url="${escapeXml(article.image_url)}" length="0" type="${getImageMimeType(article.image_url)}"/>`,
+      );
+    }
+
+    return `<item>\n${lines.map((line) => `      ${line}`).join("\n")}\n    </item>`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+    `  <channel>`,
+    `    ${element("title", channel.title)}`,
+    `    ${element("link", channel.siteUrl)}`,
+    `    ${element("description", channel.description)}`,
+    `    <language>en</language>`,
+    `    <atom:link href="${escapeXml(channel.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...(lastModified
+      ? [`    ${element("lastBuildDate", lastModified.toUTCString())}`]
+      : []),
+    ...items.map((item) => `    ${item}`),
+    `  </channel>`,
+    `</rss>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Builds an Atom 1.0 document. Entries without authors credit the news
+ * site, since Atom requires an author; articles without a usable publish
+ * date are left out, since it requires dates too.
+ */
+export function buildAtomFeed(
+  channel: FeedChannel,
+  articles: SpaceflightArticle[],
+): string {
+  const lastModified = getFeedLastModified(articles) ?? new Date(0);
+
+  const entries = articles.flatMap((article) => {
+    const published = toIsoDate(article.published_at);
+    if (!published) return [];
+
+    const link = channel.getArticleUrl(article);
+    const authorNames = getAuthorNames(article);
+    const lines = [
+      element("id", link),
+      element("title", article.title),
+      `<link rel="alternate" type="text/html" href="${escapeXml(link)}"/>`,
+      `<link rel="related" type="text/html" href="${escapeXml(article.url)}"/>`,
+      element("published", published),
+      element("updated", toIsoDate(article.updated_at) ?? published),
+      ...(authorNames.length > 0 ? authorNames : [article.news_site]).map(
+        (name) => `<author>${element("name", name)}</author>`,
+      ),
+      `<category term="${escapeXml(article.news_site)}"/>`,
+      element("summary", article.summary),
+    ];
+
+    if (isValidImageUrl(article.image_url)) {
+      lines.push(
+        `<link rel="enclosure" type="${getImageMimeType(article.image_url)}" href="${escapeXml(article.image_url)}"/>`,
+      );
+    }
+
+    return [
+      `<entry>\n${lines.map((line) => `    ${line}`).join("\n")}\n  </entry>`,
+    ];
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `  ${element("id", channel.feedUrl)}`,
+    `  ${element("title", channel.title)}`,
+    `  ${element("subtitle", channel.description)}`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(channel.feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(channel.siteUrl)}"/>`,
+    `  ${element("updated", lastModified.toISOString())}`,
+    ...entries.map((entry) => `  ${entry}`),
+    `</feed>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Builds a JSON Feed 1.1 document. The summary doubles as content_text,
+ * since the API only carries summaries. Dates that cannot be parsed are
+ * left out; both are optional in JSON Feed.
+ */
+export function buildJsonFeed(
+  channel: FeedChannel,
+  articles: SpaceflightArticle[],
+): string {
+  const items = articles.map((article) => {
+    const link = channel.getArticleUrl(article);
+    const authorNames = getAuthorNames(article);
+    const published = toIsoDate(article.published_at);
+    const modified = toIsoDate(article.updated_at) ?? published;
+
+    return {
+      id: link,
+      url: link,
+      external_url: article.url,
+      title: article.title,
+      summary: article.summary,
+      content_text: article.summary,
+      ...(isValidImageUrl(article.image_url)
+        ? { image: article.image_url }
+        : {}),
+      ...(published ? { date_published: published } : {}),
+      ...(modified ? { date_modified: modified } : {}),
+      ...(authorNames.length > 0
+        ? { authors: authorNames.map((name) => ({ name })) }
+        : {}),
+      tags: [article.news_site],
+    };
+  });
+
+  const feed = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: channel.title,
+    home_page_url: channel.siteUrl,
+    feed_url: channel.feedUrl,
+    description: channel.description,
+    language: "en",
+    items,
+  };
+
+  return `${JSON.stringify(feed, null, 2)}\n`;
+}
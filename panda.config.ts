@@ -10,11 +10,95 @@ export default defineConfig({
   // Files to exclude
   exclude: [],
 
+  // The theme and contrast are chosen with data-theme and data-contrast on
+  // <html>, set from cookies. "system" follows the OS preference through a
+  // media query instead.
+  conditions: {
+    extend: {
+      dark: "[data-theme=dark] &",
+      light: "[data-theme=light] &",
+      themeSystem: "[data-theme=system] &",
+      contrastMore: "[data-contrast=more] &",
+      contrastSystem: "[data-contrast=system] &",
+    },
+  },
+
   // Useful for theme customization
   theme: {
-    extend: {},
+    extend: {
+      semanticTokens: {
+        colors: {
+          bg: {
+            canvas: themed("gray.50", "gray.950", ["white", "black"]),
+            surface: themed("white", "gray.900", ["white", "gray.950"]),
+            subtle: themed("gray.100", "gray.800"),
+            muted: themed("gray.200", "gray.700"),
+            emphasis: themed("gray.300", "gray.600"),
+            accent: themed("blue.50", "blue.950"),
+            danger: themed("red.50", "red.950"),
+            warning: themed("yellow.50", "yellow.950"),
+          },
+          fg: {
+            default: themed("gray.900", "gray.50", ["black", "white"]),
+            body: themed("gray.700", "gray.200", ["gray.900", "white"]),
+            muted: themed("gray.600", "gray.300", ["gray.800", "gray.100"]),
+            subtle: themed("gray.500", "gray.400", ["gray.700", "gray.200"]),
+            faint: themed("gray.400", "gray.500", ["gray.600", "gray.300"]),
+            disabled: themed("gray.300", "gray.600"),
+            accent: themed("blue.600", "blue.400", ["blue.800", "blue.300"]),
+            accentEmphasis: themed("blue.700", "blue.300", [
+              "blue.900",
+              "blue.200",
+            ]),
+            accentStrong: themed("blue.800", "blue.200"),
+            danger: themed("red.600", "red.400", ["red.800", "red.300"]),
+            dangerEmphasis: themed("red.700", "red.300"),
+            dangerStrong: themed("red.800", "red.200"),
+            warning: themed("yellow.900", "yellow.200"),
+            feed: themed("orange.700", "orange.400"),
+          },
+          border: {
+            subtle: themed("gray.100", "gray.800", ["gray.400", "gray.500"]),
+            default: themed("gray.200", "gray.700", ["gray.500", "gray.400"]),
+            strong: themed("gray.300", "gray.600", ["gray.700", "gray.300"]),
+            accent: themed("blue.200", "blue.800"),
+            danger: themed("red.200", "red.800"),
+            warning: themed("yellow.200", "yellow.800"),
+          },
+        },
+      },
+    },
   },
 
   // The output directory for your css system
   outdir: "styled-system",
 });
+
+/**
+ * Semantic color token with a light value and a dark value, and optionally
+ * stronger light and dark values for high contrast
+ */
+function themed(
+  light: string,
+  dark: string,
+  [highContrastLight, highContrastDark] = [light, dark],
+) {
+  const byTheme = (lightValue: string, darkValue: string) => ({
+    base: `{colors.${lightValue}}`,
+    _dark: `{colors.${darkValue}}`,
+    _osDark: { _themeSystem: `{colors.${darkValue}}` },
+  });
+
+  if (highContrastLight === light && highContrastDark === dark) {
+    return { value: byTheme(light, dark) };
+  }
+
+  const highContrast = byTheme(highContrastLight, highContrastDark);
+  return {
+    value: {
+      ...byTheme(light, dark),
+      _contrastMore: highContrast,
+      _moreContrast: { _contrastSystem: highContrast },
+    },
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Service worker for offline reading.
+ *
+ * - The app shell (pages, the JS and CSS they load, icons) is precached.
+ * - Built assets are content-hashed, so they are served cache-first.
+ * - Pages and loader data are network-first, falling back to the last copy
+ *   when the network fails or is too slow.
+ * - Same-origin images are served stale-while-revalidate. Article images
+ *   from news sites are left to the browser: those hosts rarely send CORS
+ *   headers, so the worker would only see opaque responses, which it cannot
+ *   check and which browsers charge several megabytes of quota each. Offline
+ *   images are therefore limited to same-origin ones.
+ *
+ * Bump CACHE_VERSION when the caching rules change; old caches are dropped
+ * on activation.
+ */
+const CACHE_VERSION = "v3";
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const DATA_CACHE = `data-${CACHE_VERSION}`;
+const IMAGE_CACHE = `images-${CACHE_VERSION}`;
+const CACHES = [SHELL_CACHE, DATA_CACHE, IMAGE_CACHE];
+
+const SHELL_URLS = [
+  "/",
+  "/saved",
+  "/manifest.webmanifest",
+  "/favicon.ico",
+  "/icon-192.png",
+  "/icon-512.png",
+];
+
+/** How long to wait for the network before serving a cached copy */
+const NETWORK_TIMEOUT_MS = 4000;
+/** Entries kept per runtime cache; the oldest are evicted first */
+const MAX_DATA_ENTRIES = 100;
+const MAX_IMAGE_ENTRIES = 60;
+
+const OFFLINE_PAGE = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Offline - Spaceflight News</title>
+  </head>
+  <body style="font-family: system-ui, sans-serif; text-align: center; padding: 4rem 1rem">
+    <h1>You are offline</h1>
+    <p>This page has not been saved for offline reading yet.</p>
+    <p><a href="/saved">Read your saved articles</a> or <a href="/">the latest news</a>.</p>
+  </body>
+</html>`;
+
+/**
+ * Fetches the shell pages and everything under /assets/ they reference, so
+ * the app hydrates without a connection
+ */
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const assetUrls = new Set();
+
+  await Promise.all(
+    SHELL_URLS.map(async (url) => {
+      const response = await fetch(url, { cache: "no-cache" });
+      if (!response.ok) return;
+
+      if (response.headers.get("Content-Type")?.includes("text/html")) {
+        const html = await response.clone().text();
+        for (const match of html.matchAll(/["'](\/assets\/[^"']+)["']/g)) {
+          assetUrls.add(match[1]);
+        }
+      }
+      await cache.put(url, response);
+    }),
+  );
+
+  // A missing asset must not stop the worker from installing
+  await Promise.all(
+    [...assetUrls].map((url) => cache.add(url).catch(() => {})),
+  );
+}
+
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  // Keys come back in insertion order
+  await Promise.all(
+    keys
+      .slice(0, Math.max(keys.length - maxEntries, 0))
+      .map((key) => cache.delete(key)),
+  );
+}
+
+async function putInCache(cacheName, request, response, maxEntries) {
+  const cache = await caches.open(cacheName);
+  await cache.put(request, response);
+  await trimCache(cacheName, maxEntries);
+}
+
+/**
+ * Network-first with a timeout. A slow network still refreshes the cache
+ * in the background once it answers.
+ */
+async function networkFirst(event, fallback) {
+  const { request } = event;
+  const network = fetch(request);
+  // Registered first, so the copy is taken before the page reads the body
+  event.waitUntil(
+    network
+      .then((response) =>
+        response.ok
+          ? putInCache(DATA_CACHE, request, response.clone(), MAX_DATA_ENTRIES)
+          : undefined,
+      )
+      .catch(() => {}),
+  );
+
+  const timeout = new Promise((resolve) => {
+    setTimeout(resolve, NETWORK_TIMEOUT_MS);
+  });
+
+  try {
+    const response = await Promise.race([network, timeout]);
+    if (response) return response;
+  } catch {
+    // Offline; fall through to the cache
+  }
+
+  const cached =
+    (await caches.match(request, { cacheName: DATA_CACHE })) ??
+    (await caches.match(request, { cacheName: SHELL_CACHE }));
+  if (cached) return cached;
+
+  // Nothing cached: keep waiting for the network, or give up
+  return network.catch(() => fallback());
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(event) {
+  const { request } = event;
+  const network = fetch(request);
+  event.waitUntil(
+    network
+      .then((response) =>
+        response.ok
+          ? putInCache(
+              IMAGE_CACHE,
+              request,
+              response.clone(),
+              MAX_IMAGE_ENTRIES,
+            )
+          : undefined,
+      )
+      .catch(() => {}),
+  );
+
+  const cached = await caches.match(request, { cacheName: IMAGE_CACHE });
+  return cached ?? network;
+}
+
+function offlineResponse() {
+  return new Response(OFFLINE_PAGE, {
+    status: 503,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+function networkError() {
+  return Response.error();
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => !CACHES.includes(key))
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.destination === "image") {
+    event.respondWith(staleWhileRevalidate(event));
+    return;
+  }
+
+  // Health checks and feeds must always reflect the live service
+  if (
+    ["/health", "/ready"].includes(url.pathname) ||
+    /\.(xml|json|txt)$/.test(url.pathname)
+  ) {
+    return;
+  }
+
+  if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(event, offlineResponse));
+    return;
+  }
+
+  // Loader data for client-side navigations, and the JSON API
+  if (url.pathname.endsWith(".data") || url.pathname.startsWith("/api/")) {
+    event.respondWith(networkFirst(event, networkError));
+  }
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { action } from "~/routes/accessibility";
+import {
+  getAccessibilityPreferences,
+  serializeAccessibilityPreferences,
+} from "~/services/accessibility-preferences";
+
+function postPreferences(fields: Record<string, string>, cookie?: string) {
+  const request = new Request("https://example.com/accessibility", {
+    method: "POST",
+    body: new URLSearchParams(fields),
+    headers: cookie ? { Cookie: cookie } : {},
+  });
+  return action({ request, params: {}, context: {} });
+}
+
+function requestWithSetCookie(response: Response): Request {
+  const cookie = (response.headers.get("Set-Cookie") ?? "").split(";")[0];
+  return new Request("https://example.com/", { headers: { Cookie: cookie } });
+}
+
+describe("/accessibility action", () => {
+  it("stores a motion override", async () => {
+    const response = await postPreferences({ motion: "reduce" });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      motion: "reduce",
+      contrast: "system",
+    });
+    expect(
+      await getAccessibilityPreferences(requestWithSetCookie(response)),
+    ).toEqual({ motion: "reduce", contrast: "system" });
+  });
+
+  it("keeps the other stored override", async () => {
+    const stored = await serializeAccessibilityPreferences({
+      motion: "full",
+      contrast: "standard",
+    });
+
+    const response = await postPreferences(
+      { contrast: "more" },
+      stored.split(";")[0],
+    );
+
+    expect(
+      await getAccessibilityPreferences(requestWithSetCookie(response)),
+    ).toEqual({ motion: "full", contrast: "more" });
+  });
+
+  it("redirects back to the page for forms posted without JavaScript", async () => {
+    const response = await postPreferences({
+      contrast: "more",
+      redirectTo: "/saved",
+    });
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Location")).toBe("/saved");
+  });
+
+  it("rejects unknown or missing values", async () => {
+    expect((await postPreferences({ motion: "slow" })).status).toBe(400);
+    expect((await postPreferences({ contrast: "max" })).status).toBe(400);
+    expect((await postPreferences({})).status).toBe(400);
+  });
+});
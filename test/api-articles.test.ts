@@ -0,0 +1,284 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { loader } from "~/routes/api.articles";
+import { loader as itemLoader } from "~/routes/api.articles.$id";
+import { loader as newsSitesLoader } from "~/routes/api.news-sites";
+import {
+  fetchArticleById,
+  fetchArticles,
+  fetchNewsSiteFacets,
+  SpaceflightApiError,
+} from "~/services/spaceflight-api";
+import type {
+  ArticlesLoaderData,
+  NewsSiteFacetsData,
+  ServerError,
+  SpaceflightArticle,
+} from "~/types";
+
+// Mock the API service, keeping a working error class for the status mapping
+vi.mock("~/services/spaceflight-api", () => ({
+  fetchArticles: vi.fn(),
+  fetchArticleById: vi.fn(),
+  fetchNewsSiteFacets: vi.fn(),
+  SpaceflightApiError: class extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public code?: string,
+      public issues: unknown[] = [],
+    ) {
+      super(message);
+      this.name = "SpaceflightApiError";
+    }
+  },
+}));
+
+const mockFetchArticles = vi.mocked(fetchArticles);
+const mockFetchArticleById = vi.mocked(fetchArticleById);
+const mockFetchNewsSiteFacets = vi.mocked(fetchNewsSiteFacets);
+
+const mockArticles: SpaceflightArticle[] = [
+  {
+    id: 21,
+    title: "SpaceX Launches Starship",
+    summary:
+      "SpaceX successfully launched its Starship rocket on a test flight.",
+    image_url: "https://example.com/image1.jpg",
+    news_site: "SpaceNews",
+    published_at: "2024-01-15T10:00:00Z",
+    url: "https://example.com/article1",
+  },
+];
+
+describe("/api/articles resource route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return the requested page as JSON", async () => {
+    mockFetchArticles.mockResolvedValue({
+      count: 41,
+      next: "https://api.spaceflightnewsapi.net/v4/articles/?offset=40",
+      previous: "https://api.spaceflightnewsapi.net/v4/articles/?offset=0",
+      results: mockArticles,
+    });
+
+    const request = new Request("http://localhost:3000/api/articles?offset=20");
+    const response = await loader({ request, params: {}, context: {} });
+    const data: ArticlesLoaderData = await response.json();
+
+    expect(response.headers.get("Content-Type")).toBe("application/json");
+    expect(mockFetchArticles).toHaveBeenCalledWith(
+      20,
+      20,
+      "-published_at",
+      {},
+      "articles",
+      expect.any(Object),
+    );
+    expect(data.articles).toEqual(mockArticles);
+    expect(data.meta).toMatchObject({
+      total: 41,
+      hasMore: true,
+      limit: 20,
+      offset: 20,
+    });
+  });
+
+  it("should flag a cached page served while the upstream is down", async () => {
+    mockFetchArticles.mockImplementation(async (...args) => {
+      args[5]?.onStale?.(
+        new SpaceflightApiError("Request timeout", 408, "TIMEOUT"),
+      );
+      return { count: 1, next: null, previous: null, results: mockArticles };
+    });
+
+    const request = new Request("http://localhost:3000/api/articles");
+    const response = await loader({ request, params: {}, context: {} });
+    const data: ArticlesLoaderData = await response.json();
+
+    expect(data.articles).toEqual(mockArticles);
+    expect(data.error).toBeNull();
+    expect(data.meta.stale).toBe(true);
+    expect(response.headers.get("Cache-Control")).toContain("no-store");
+  });
+
+  it("should pass the request signal to the service", async () => {
+    mockFetchArticles.mockResolvedValue({
+      count: 0,
+      next: null,
+      previous: null,
+      results: [],
+    });
+
+    const request = new Request("http://localhost:3000/api/articles");
+    const response = await loader({ request, params: {}, context: {} });
+    const data: ArticlesLoaderData = await response.json();
+
+    expect(mockFetchArticles.mock.calls[0][5]?.signal).toBe(request.signal);
+    expect(data.meta.stale).toBe(false);
+  });
+
+  it("should re-sort the page by title when asked", async () => {
+    mockFetchArticles.mockResolvedValue({
+      count: 2,
+      next: null,
+      previous: null,
+      results: [
+        { ...mockArticles[0], id: 22, title: "Zenith satellite deployed" },
+        ...mockArticles,
+      ],
+    });
+
+    const request = new Request(
+      "http://localhost:3000/api/articles?sort=title",
+    );
+    const response = await loader({ request, params: {}, context: {} });
+    const data: ArticlesLoaderData = await response.json();
+
+    expect(data.articles.map((article) => article.id)).toEqual([21, 22]);
+  });
+
+  it("should return a ServerError when the API fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFetchArticles.mockRejectedValue(
+      new SpaceflightApiError("Service unavailable", 503),
+    );
+
+    const request = new Request("http://localhost:3000/api/articles?offset=20");
+    const response = await loader({ request, params: {}, context: {} });
+    const data: ServerError = await response.json();
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get("Retry-After")).toBe("60");
+    expect(response.headers.get("Cache-Control")).toContain("no-store");
+    expect(data).toEqual({
+      message: "Service unavailable",
+      status: 503,
+      timestamp: expect.any(String),
+      retryAfter: 60,
+    });
+  });
+
+  it("should report timeouts as 504", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFetchArticles.mockRejectedValue(
+      new SpaceflightApiError("Request timeout", 408, "TIMEOUT"),
+    );
+
+    const request = new Request("http://localhost:3000/api/articles");
+    const response = await loader({ request, params: {}, context: {} });
+
+    expect(response.status).toBe(504);
+    expect((await response.json()).message).toBe("Request timeout");
+  });
+});
+
+describe("/api/articles/:id resource route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function loadItem(id: string, search = "") {
+    const request = new Request(
+      `http://localhost:3000/api/articles/${id}${search}`,
+    );
+    return itemLoader({ request, params: { id }, context: {} });
+  }
+
+  it("should return the item for the requested type", async () => {
+    mockFetchArticleById.mockResolvedValue(mockArticles[0]);
+
+    const response = await loadItem("21", "?type=blogs");
+
+    expect(mockFetchArticleById).toHaveBeenCalledWith(
+      21,
+      "blogs",
+      expect.any(Object),
+    );
+    expect(response.headers.get("Cache-Control")).toBe(
+      "public, max-age=300, stale-while-revalidate=600",
+    );
+    expect(await response.json()).toEqual(mockArticles[0]);
+  });
+
+  it("should reject ids that are not positive integers", async () => {
+    const response = await loadItem("abc");
+
+    expect(response.status).toBe(400);
+    expect(mockFetchArticleById).not.toHaveBeenCalled();
+    expect((await response.json()).message).toBe("Invalid id");
+  });
+
+  it("should return 404 when the item does not exist", async () => {
+    mockFetchArticleById.mockRejectedValue(
+      new SpaceflightApiError("HTTP 404: Not Found", 404),
+    );
+
+    const response = await loadItem("999");
+    const data: ServerError = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data).toMatchObject({ message: "Not found", status: 404 });
+  });
+
+  it("should report network failures as 502", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFetchArticleById.mockRejectedValue(
+      new SpaceflightApiError("Network error", 0, "NETWORK_ERROR"),
+    );
+
+    const response = await loadItem("21");
+
+    expect(response.status).toBe(502);
+    expect(response.headers.get("Cache-Control")).toContain("no-store");
+  });
+});
+
+describe("/api/news-sites resource route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function loadFacets(search = "") {
+    const request = new Request(
+      `http://localhost:3000/api/news-sites${search}`,
+    );
+    return newsSitesLoader({ request, params: {}, context: {} });
+  }
+
+  it("should return the counts for the requested type", async () => {
+    mockFetchNewsSiteFacets.mockResolvedValue([
+      { name: "NASA", count: 7 },
+      { name: "SpaceNews", count: 3 },
+    ]);
+
+    const response = await loadFacets("?type=blogs&q=Artemis");
+    const data: NewsSiteFacetsData = await response.json();
+
+    expect(mockFetchNewsSiteFacets).toHaveBeenCalledWith(
+      "blogs",
+      expect.objectContaining({ signal: expect.any(AbortSignal) }),
+    );
+    expect(data).toEqual({
+      contentType: "blogs",
+      facets: [
+        { name: "NASA", count: 7 },
+        { name: "SpaceNews", count: 3 },
+      ],
+    });
+    expect(response.headers.get("Cache-Control")).toContain("max-age=300");
+  });
+
+  it("should answer with no facets when the counts fail", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockFetchNewsSiteFacets.mockRejectedValue(new Error("Info unavailable"));
+
+    const response = await loadFacets();
+    const data: NewsSiteFacetsData = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ contentType: "articles", facets: [] });
+    expect(response.headers.get("Cache-Control")).toContain("no-store");
+  });
+});
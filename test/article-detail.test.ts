@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { loader, meta, shouldRevalidate } from "~/routes/articles.$id";
+import {
+  fetchArticleById,
+  fetchLatestArticles,
+  SpaceflightApiError,
+} from "~/services/spaceflight-api";
+import type { ArticleDetailLoaderData, SpaceflightArticle } from "~/types";
+
+// Mock the API service
+vi.mock("~/services/spaceflight-api", () => ({
+  fetchArticleById: vi.fn(),
+  fetchLatestArticles: vi.fn(),
+  SpaceflightApiError: class extends Error {
+    constructor(
+      message: string,
+      public status?: number,
+      public code?: string,
+      public issues: unknown[] = [],
+    ) {
+      super(message);
+      this.name = "SpaceflightApiError";
+    }
+  },
+}));
+
+const mockFetchArticleById = vi.mocked(fetchArticleById);
+const mockFetchLatestArticles = vi.mocked(fetchLatestArticles);
+
+const mockArticle: SpaceflightArticle = {
+  id: 1,
+  title: "SpaceX Launches Starship",
+  summary: "SpaceX successfully launched its Starship rocket on a test flight.",
+  image_url: "https://example.com/image1.jpg",
+  news_site: "SpaceNews",
+  published_at: "2024-01-15T10:00:00Z",
+  url: "https://example.com/article1",
+};
+
+const mockRelated: SpaceflightArticle[] = [
+  mockArticle,
+  {
+    ...mockArticle,
+    id: 2,
+    title: "Starship Static Fire Complete",
+  },
+  {
+    ...mockArticle,
+    id: 3,
+    title: "NASA Mars Mission Update",
+    news_site: "NASA",
+  },
+];
+
+async function callLoader(id: string, contentType: string = "articles") {
+  const request = new Request(`http://localhost:3000/${contentType}/${id}`);
+  return loader({ request, params: { id }, context: {} });
+}
+
+async function getThrownResponse(promise: Promise<unknown>) {
+  const thrown = await promise.catch((e) => e);
+  expect(thrown).toBeInstanceOf(Response);
+  return thrown as Response;
+}
+
+describe("Article detail route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("loader function", () => {
+    it("should return the article with related articles", async () => {
+      mockFetchArticleById.mockResolvedValue(mockArticle);
+      mockFetchLatestArticles.mockResolvedValue(mockRelated);
+
+      const response = await callLoader("1");
+      const data: ArticleDetailLoaderData = await response.json();
+
+      expect(mockFetchArticleById).toHaveBeenCalledWith(1, "articles");
+      expect(data.article).toEqual(mockArticle);
+      expect(data.relatedArticles.map((a) => a.id)).toEqual([2, 3]);
+      expect(data.meta.loadedAt).toBeDefined();
+      expect(data.canonicalUrl).toBe("http://localhost:3000/articles/1");
+      expect(response.headers.get("Cache-Control")).toBe(
+        "public, max-age=300, stale-while-revalidate=600",
+      );
+    });
+
+    it("should load blogs and reports from their own endpoints", async () => {
+      mockFetchArticleById.mockResolvedValue(mockArticle);
+      mockFetchLatestArticles.mockResolvedValue(mockRelated);
+
+      const response = await callLoader("1", "reports");
+      const data: ArticleDetailLoaderData = await response.json();
+
+      expect(mockFetchArticleById).toHaveBeenCalledWith(1, "reports");
+      expect(mockFetchLatestArticles).toHaveBeenCalledWith(30, "reports");
+      expect(data.contentType).toBe("reports");
+    });
+
+    it("should throw a 404 response when the API returns 404", async () => {
+      mockFetchArticleById.mockRejectedValue(
+        new SpaceflightApiError("HTTP error! status: 404", 404, "Not Found"),
+      );
+      mockFetchLatestArticles.mockResolvedValue(mockRelated);
+
+      const response = await getThrownResponse(callLoader("999"));
+      expect(response.status).toBe(404);
+    });
+
+    it("should throw a 404 response for non-numeric ids", async () => {
+      const response = await getThrownResponse(callLoader("not-a-number"));
+
+      expect(response.status).toBe(404);
+      expect(mockFetchArticleById).not.toHaveBeenCalled();
+    });
+
+    it("should throw a 500 response for other API failures", async () => {
+      mockFetchArticleById.mockRejectedValue(
+        new SpaceflightApiError("API is down", 503),
+      );
+      mockFetchLatestArticles.mockResolvedValue([]);
+
+      const response = await getThrownResponse(callLoader("1"));
+      expect(response.status).toBe(500);
+    });
+
+    it("should still render when related articles fail to load", async () => {
+      mockFetchArticleById.mockResolvedValue(mockArticle);
+      mockFetchLatestArticles.mockRejectedValue(new Error("Network failure"));
+
+      const response = await callLoader("1");
+      const data: ArticleDetailLoaderData = await response.json();
+
+      expect(data.article).toEqual(mockArticle);
+      expect(data.relatedArticles).toEqual([]);
+    });
+  });
+
+  describe("shouldRevalidate", () => {
+    it("should skip reloading after a preference is stored", () => {
+      const args = { defaultShouldRevalidate: true } as Parameters<
+        typeof shouldRevalidate
+      >[0];
+
+      expect(shouldRevalidate({ ...args, formAction: "/date-format" })).toBe(
+        false,
+      );
+      expect(shouldRevalidate({ ...args, formAction: undefined })).toBe(true);
+    });
+  });
+
+  describe("meta function", () => {
+    it("should build tags from the article", () => {
+      const tags = meta({
+        data: { article: mockArticle, relatedArticles: [], meta: {} },
+      } as any);
+
+      expect(tags).toContainEqual({
+        title: "SpaceX Launches Starship - Spaceflight News",
+      });
+      expect(tags).toContainEqual({
+        name: "description",
+        content: mockArticle.summary,
+      });
+      expect(tags).toContainEqual({
+        property: "og:image",
+        content: mockArticle.image_url,
+      });
+    });
+
+    it("should add a canonical link and publication time", () => {
+      const canonicalUrl = "http://localhost:3000/blogs/1";
+      const tags = meta({
+        data: {
+          article: mockArticle,
+          relatedArticles: [],
+          canonicalUrl,
+          meta: {},
+        },
+      } as any);
+
+      expect(tags).toContainEqual({
+        tagName: "link",
+        rel: "canonical",
+        href: canonicalUrl,
+      });
+      expect(tags).toContainEqual({
+        property: "article:published_time",
+        content: "2024-01-15T10:00:00.000Z",
+      });
+      // The page renders the JSON-LD itself, escaped
+      expect(tags?.some((tag) => "script:ld+json" in tag)).toBe(false);
+    });
+
+    it("should leave out dates that cannot be parsed", () => {
+      const tags = meta({
+        data: {
+          article: {
+            ...mockArticle,
+            published_at: "not a date",
+            updated_at: "not a date",
+          },
+          relatedArticles: [],
+          canonicalUrl: "http://localhost:3000/articles/1",
+          meta: {},
+        },
+      } as any);
+
+      expect(tags).not.toContainEqual(
+        expect.objectContaining({ property: "article:published_time" }),
+      );
+      expect(tags).not.toContainEqual(
+        expect.objectContaining({ property: "article:modified_time" }),
+      );
+    });
+
+    it("should not advertise an unusable image", () => {
+      const tags = meta({
+        data: {
+          article: { ...mockArticle, image_url: "" },
+          relatedArticles: [],
+          meta: {},
+        },
+      } as any);
+
+      expect(tags).not.toContainEqual(
+        expect.objectContaining({ property: "og:image" }),
+      );
+      expect(tags).toContainEqual({
+        name: "twitter:card",
+        content: "summary",
+      });
+    });
+
+    it("should fall back to a not-found title without data", () => {
+      const tags = meta({
+        data: undefined,
+        location: { pathname: "/articles/999" },
+      } as any);
+
+      expect(tags).toEqual([{ title: "Article not found - Spaceflight News" }]);
+    });
+
+    it("should name the content type in the not-found title", () => {
+      const tags = meta({
+        data: undefined,
+        location: { pathname: "/blogs/999" },
+      } as any);
+
+      expect(tags).toEqual([{ title: "Blog not found - Spaceflight News" }]);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { action } from "~/routes/date-format";
+import {
+  getDateFormatSettings,
+  serializeDateFormatSettings,
+} from "~/services/date-format";
+
+function postSettings(fields: Record<string, string>, cookie?: string) {
+  const request = new Request("https://example.com/date-format", {
+    method: "POST",
+    body: new URLSearchParams(fields),
+    headers: cookie ? { Cookie: cookie } : {},
+  });
+  return action({ request, params: {}, context: {} });
+}
+
+function requestWithSetCookie(response: Response): Request {
+  const cookie = (response.headers.get("Set-Cookie") ?? "").split(";")[0];
+  return new Request("https://example.com/", { headers: { Cookie: cookie } });
+}
+
+describe("/date-format action", () => {
+  it("stores the time zone the browser reports", async () => {
+    const response = await postSettings({ timeZone: "Europe/Berlin" });
+
+    expect(response.status).toBe(200);
+    expect(
+      await getDateFormatSettings(requestWithSetCookie(response)),
+    ).toMatchObject({ timeZone: "Europe/Berlin", display: "local" });
+  });
+
+  it("keeps the stored time zone when the display changes", async () => {
+    const stored = await serializeDateFormatSettings({
+      timeZone: "Asia/Tokyo",
+      display: "local",
+      timestamps: "relative",
+    });
+
+    const response = await postSettings(
+      { display: "iso" },
+      stored.split(";")[0],
+    );
+
+    expect(await response.json()).toMatchObject({
+      timeZone: "Asia/Tokyo",
+      display: "iso",
+    });
+  });
+
+  it("stores the timestamp style", async () => {
+    const response = await postSettings({ timestamps: "absolute" });
+
+    expect(
+      await getDateFormatSettings(requestWithSetCookie(response)),
+    ).toMatchObject({ display: "local", timestamps: "absolute" });
+  });
+
+  it("redirects back to the page for forms posted without JavaScript", async () => {
+    const response = await postSettings({
+      display: "iso",
+      redirectTo: "/articles/1",
+    });
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Location")).toBe("/articles/1");
+  });
+
+  it("rejects unknown or missing values", async () => {
+    expect((await postSettings({ timeZone: "Mars/Base" })).status).toBe(400);
+    expect((await postSettings({ display: "unix" })).status).toBe(400);
+    expect((await postSettings({ timestamps: "fuzzy" })).status).toBe(400);
+    expect((await postSettings({})).status).toBe(400);
+  });
+});
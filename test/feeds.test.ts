@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { loader as rssLoader } from "~/routes/feed.xml";
+import { loader as atomLoader } from "~/routes/atom.xml";
+import { loader as jsonFeedLoader } from "~/routes/feed.json";
+import { meta } from "~/routes/_index";
+import { fetchArticles, SpaceflightApiError } from "~/services/spaceflight-api";
+import type { SpaceflightArticle } from "~/types";
+
+vi.mock("~/services/spaceflight-api");
+
+const mockFetchArticles = vi.mocked(fetchArticles);
+
+const mockArticles: SpaceflightArticle[] = [
+  {
+    id: 21,
+    title: "SpaceX Launches Starship",
+    summary: "SpaceX launched its Starship rocket on a test flight.",
+    image_url: "https://example.com/image1.jpg",
+    news_site: "SpaceNews",
+    published_at: "2024-01-15T10:00:00Z",
+    url: "https://example.com/article1",
+  },
+];
+
+function loadRss(path: string, headers: Record<string, string> = {}) {
+  const request = new Request(`http://localhost:3000${path}`, { headers });
+  return rssLoader({ request, params: {}, context: {} });
+}
+
+describe("feed resource routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFetchArticles.mockResolvedValue({
+      count: 1,
+      next: null,
+      previous: null,
+      results: mockArticles,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should serve RSS with the index page filters applied", async () => {
+    const response = await loadRss(
+      "/feed.xml?type=blogs&q=Starship&news_site=SpaceNews,NASA",
+    );
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/rss+xml; charset=utf-8",
+    );
+    expect(mockFetchArticles).toHaveBeenCalledWith(
+      30,
+      0,
+      "-published_at",
+      { search: "Starship", newsSites: ["SpaceNews", "NASA"] },
+      "blogs",
+      expect.any(Object),
+    );
+    expect(body).toContain(
+      "<title>Spaceflight News - Blogs matching &quot;Starship&quot; from SpaceNews, NASA</title>",
+    );
+    expect(body).toContain("<link>http://localhost:3000/blogs/21</link>");
+    expect(body).toContain(
+      "<link>http://localhost:3000/?type=blogs&amp;q=Starship&amp;news_site=SpaceNews%2CNASA</link>",
+    );
+  });
+
+  it("should serve Atom", async () => {
+    const request = new Request("http://localhost:3000/atom.xml");
+    const response = await atomLoader({ request, params: {}, context: {} });
+
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/atom+xml; charset=utf-8",
+    );
+    expect(await response.text()).toContain(
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+    );
+  });
+
+  it("should serve JSON Feed", async () => {
+    const request = new Request("http://localhost:3000/feed.json?type=blogs");
+    const response = await jsonFeedLoader({ request, params: {}, context: {} });
+    const feed = await response.json();
+
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/feed+json; charset=utf-8",
+    );
+    expect(feed.feed_url).toBe("http://localhost:3000/feed.json?type=blogs");
+    expect(feed.items[0].url).toBe("http://localhost:3000/blogs/21");
+  });
+
+  it("should send validators for conditional GET", async () => {
+    const response = await loadRss("/feed.xml");
+
+    expect(response.headers.get("ETag")).toMatch(/^"[0-9a-f]{8}"$/);
+    expect(response.headers.get("Last-Modified")).toBe(
+      "Mon, 15 Jan 2024 10:00:00 GMT",
+    );
+  });
+
+  it("should answer 304 when the ETag matches", async () => {
+    const etag = (await loadRss("/feed.xml")).headers.get("ETag") ?? "";
+
+    const response = await loadRss("/feed.xml", {
+      "If-None-Match": `W/"other", ${etag}`,
+    });
+
+    expect(response.status).toBe(304);
+    expect(response.headers.get("ETag")).toBe(etag);
+    expect(await response.text()).toBe("");
+  });
+
+  it("should answer 304 when nothing changed since If-Modified-Since", async () => {
+    const notModified = await loadRss("/feed.xml", {
+      "If-Modified-Since": "Mon, 15 Jan 2024 10:00:00 GMT",
+    });
+    const modified = await loadRss("/feed.xml", {
+      "If-Modified-Since": "Mon, 15 Jan 2024 09:59:59 GMT",
+    });
+
+    expect(notModified.status).toBe(304);
+    expect(modified.status).toBe(200);
+  });
+
+  it("should let If-None-Match take precedence over If-Modified-Since", async () => {
+    const response = await loadRss("/feed.xml", {
+      "If-None-Match": '"stale"',
+      "If-Modified-Since": "Mon, 15 Jan 2024 10:00:00 GMT",
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  it("should not let downstream caches keep a stale fallback feed", async () => {
+    mockFetchArticles.mockImplementation(async (...args) => {
+      args[5]?.onStale?.(
+        new SpaceflightApiError("Request timeout", 408, "TIMEOUT"),
+      );
+      return { count: 1, next: null, previous: null, results: mockArticles };
+    });
+
+    const response = await loadRss("/feed.xml");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toContain("no-store");
+  });
+
+  it("should answer 503 without caching when the API fails", async () => {
+    mockFetchArticles.mockRejectedValue(new Error("Network failure"));
+
+    const response = await loadRss("/feed.xml");
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get("Retry-After")).toBe("60");
+    expect(response.headers.get("Cache-Control")).toContain("no-store");
+  });
+
+  it("should answer JSON Feed failures with a ServerError", async () => {
+    mockFetchArticles.mockRejectedValue(new Error("Network failure"));
+
+    const request = new Request("http://localhost:3000/feed.json");
+    const response = await jsonFeedLoader({ request, params: {}, context: {} });
+
+    expect(response.status).toBe(500);
+    expect(response.headers.get("Content-Type")).toBe("application/json");
+    expect(await response.json()).toMatchObject({
+      message: "Failed to build JSON Feed",
+      status: 500,
+    });
+  });
+
+  it("should advertise feeds for the filtered view on the index page", () => {
+    const tags = meta({
+      location: { search: "?type=reports&q=Artemis&page=3" },
+    } as Parameters<typeof meta>[0]);
+
+    expect(tags).toContainEqual(
+      expect.objectContaining({
+        tagName: "link",
+        type: "application/rss+xml",
+        href: "/feed.xml?type=reports&q=Artemis",
+      }),
+    );
+    expect(tags).toContainEqual(
+      expect.objectContaining({
+        type: "application/atom+xml",
+        href: "/atom.xml?type=reports&q=Artemis",
+      }),
+    );
+    expect(tags).toContainEqual(
+      expect.objectContaining({
+        type: "application/feed+json",
+        href: "/feed.json?type=reports&q=Artemis",
+      }),
+    );
+  });
+});
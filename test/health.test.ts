@@ -0,0 +1,14 @@
+import { describe, it, expect } from "vitest";
+import { loader } from "~/routes/health";
+
+describe("/health resource route", () => {
+  it("should report the process as alive", async () => {
+    const response = await loader();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    expect(data.status).toBe("ok");
+    expect(data.uptimeSeconds).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,121 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import {
+  createRoutesStub,
+  Link,
+  useLoaderData,
+  useSearchParams,
+} from "react-router";
+import { describe, it, expect } from "vitest";
+import { useInfiniteArticles } from "~/hooks/useInfiniteArticles";
+import type { ArticlesLoaderData, SpaceflightArticle } from "~/types";
+
+function page(query: string, offset: number): ArticlesLoaderData {
+  const article: SpaceflightArticle = {
+    id: offset + 1,
+    title: `${query} ${offset + 1}`,
+    summary: "",
+    image_url: "",
+    news_site: "NASA",
+    published_at: "2024-01-15T10:00:00Z",
+    url: "https://example.com/",
+  };
+  return {
+    articles: [article],
+    contentType: "articles",
+    error: null,
+    meta: {
+      total: 3,
+      hasMore: true,
+      limit: 1,
+      offset,
+      loadedAt: "2024-01-15T10:00:00Z",
+      stale: false,
+    },
+  };
+}
+
+function Feed() {
+  const loaderData = useLoaderData<ArticlesLoaderData>();
+  const [searchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const { articles, isLoading, loadMore } = useInfiniteArticles(loaderData, {
+    getPageUrl: (offset) => `/api/articles?q=${query}&offset=${offset}`,
+    queryKey: query,
+  });
+
+  return (
+    <>
+      <ul>
+        {articles.map((article) => (
+          <li key={article.id}>{article.title}</li>
+        ))}
+      </ul>
+      <p>{isLoading ? "Loading" : "Idle"}</p>
+      <button onClick={loadMore}>Load more</button>
+      <Link to="/?q=Moon">Moon</Link>
+    </>
+  );
+}
+
+describe("useInfiniteArticles", () => {
+  it("appends the next page", async () => {
+    const Stub = createRoutesStub([
+      {
+        path: "/",
+        loader: ({ request }) =>
+          page(new URL(request.url).searchParams.get("q") ?? "", 0),
+        HydrateFallback: () => null,
+        Component: Feed,
+      },
+      {
+        path: "/api/articles",
+        loader: ({ request }) => {
+          const params = new URL(request.url).searchParams;
+          return page(params.get("q") ?? "", Number(params.get("offset")));
+        },
+      },
+    ]);
+    render(<Stub initialEntries={["/?q=Mars"]} />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Load more" }));
+
+    expect(await screen.findByText("Mars 2")).toBeInTheDocument();
+    expect(screen.getByText("Mars 1")).toBeInTheDocument();
+  });
+
+  it("drops a page that was loading when the query changed", async () => {
+    let resolvePage: () => void = () => {};
+    const Stub = createRoutesStub([
+      {
+        path: "/",
+        loader: ({ request }) =>
+          page(new URL(request.url).searchParams.get("q") ?? "", 0),
+        HydrateFallback: () => null,
+        Component: Feed,
+      },
+      {
+        path: "/api/articles",
+        loader: async ({ request }) => {
+          const params = new URL(request.url).searchParams;
+          await new Promise<void>((resolve) => {
+            resolvePage = resolve;
+          });
+          return page(params.get("q") ?? "", Number(params.get("offset")));
+        },
+      },
+    ]);
+    render(<Stub initialEntries={["/?q=Mars"]} />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Load more" }));
+    await screen.findByText("Loading");
+
+    fireEvent.click(screen.getByRole("link", { name: "Moon" }));
+    await screen.findByText("Moon 1");
+
+    resolvePage();
+    await screen.findByText("Idle");
+
+    expect(screen.queryByText("Mars 2")).not.toBeInTheDocument();
+    expect(screen.getByText("Moon 1")).toBeInTheDocument();
+  });
+});
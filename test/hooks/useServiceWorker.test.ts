@@ -0,0 +1,56 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { useServiceWorker } from "~/hooks/useServiceWorker";
+
+function mockServiceWorker(register: () => Promise<unknown>) {
+  Object.defineProperty(navigator, "serviceWorker", {
+    configurable: true,
+    value: { register: vi.fn(register) },
+  });
+  return navigator.serviceWorker.register as ReturnType<typeof vi.fn>;
+}
+
+describe("useServiceWorker", () => {
+  afterEach(() => {
+    delete (navigator as { serviceWorker?: unknown }).serviceWorker;
+    vi.restoreAllMocks();
+  });
+
+  it("registers the service worker when enabled", () => {
+    const register = mockServiceWorker(async () => ({}));
+
+    renderHook(() => useServiceWorker(true));
+
+    expect(register).toHaveBeenCalledWith("/sw.js");
+  });
+
+  it("does nothing when disabled", () => {
+    const register = mockServiceWorker(async () => ({}));
+
+    renderHook(() => useServiceWorker(false));
+
+    expect(register).not.toHaveBeenCalled();
+  });
+
+  it("does nothing without service worker support", () => {
+    expect(() => renderHook(() => useServiceWorker(true))).not.toThrow();
+  });
+
+  it("logs a failed registration", async () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    mockServiceWorker(async () => {
+      throw new Error("insecure context");
+    });
+
+    renderHook(() => useServiceWorker(true));
+
+    await waitFor(() =>
+      expect(consoleError).toHaveBeenCalledWith(
+        "Service worker registration failed:",
+        expect.any(Error),
+      ),
+    );
+  });
+});
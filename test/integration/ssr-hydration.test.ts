@@ -1,11 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { fetchLatestArticles } from "~/services/spaceflight-api";
-import type { SpaceflightArticle } from "~/types";
+import { fetchArticles } from "~/services/spaceflight-api";
+import type { SpaceflightApiResponse, SpaceflightArticle } from "~/types";
 
 // Mock the API service
 vi.mock("~/services/spaceflight-api");
 
-const mockFetchLatestArticles = vi.mocked(fetchLatestArticles);
+const mockFetchArticles = vi.mocked(fetchArticles);
 
 const mockArticles: SpaceflightArticle[] = [
   {
@@ -20,13 +20,20 @@ const mockArticles: SpaceflightArticle[] = [
   },
 ];
 
+const mockResponse: SpaceflightApiResponse = {
+  count: 1,
+  next: null,
+  previous: null,
+  results: mockArticles,
+};
+
 describe("SSR and Hydration Integration", () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
   it("should handle server-side data loading correctly", async () => {
-    mockFetchLatestArticles.mockResolvedValue(mockArticles);
+    mockFetchArticles.mockResolvedValue(mockResponse);
 
     // Import the loader function
     const { loader } = await import("~/routes/_index");
@@ -44,7 +51,7 @@ describe("SSR and Hydration Integration", () => {
   });
 
   it("should provide proper TypeScript types for loader data", async () => {
-    mockFetchLatestArticles.mockResolvedValue(mockArticles);
+    mockFetchArticles.mockResolvedValue(mockResponse);
 
     const { loader } = await import("~/routes/_index");
 
@@ -71,7 +78,7 @@ describe("SSR and Hydration Integration", () => {
 
   it("should provide fallback data structure on errors", async () => {
     const error = new Error("Network failure");
-    mockFetchLatestArticles.mockRejectedValue(error);
+    mockFetchArticles.mockRejectedValue(error);
 
     const { loader } = await import("~/routes/_index");
 
@@ -90,7 +97,7 @@ describe("SSR and Hydration Integration", () => {
   });
 
   it("should set appropriate HTTP headers for caching", async () => {
-    mockFetchLatestArticles.mockResolvedValue(mockArticles);
+    mockFetchArticles.mockResolvedValue(mockResponse);
 
     const { loader } = await import("~/routes/_index");
 
@@ -105,7 +112,7 @@ describe("SSR and Hydration Integration", () => {
   });
 
   it("should handle URL parameters correctly", async () => {
-    mockFetchLatestArticles.mockResolvedValue(mockArticles);
+    mockFetchArticles.mockResolvedValue(mockResponse);
 
     const { loader } = await import("~/routes/_index");
 
@@ -113,6 +120,13 @@ describe("SSR and Hydration Integration", () => {
     const request = new Request("http://localhost:3000/?limit=15");
     await loader({ request, params: {}, context: {} });
 
-    expect(mockFetchLatestArticles).toHaveBeenCalledWith(15);
+    expect(mockFetchArticles).toHaveBeenCalledWith(
+      15,
+      0,
+      "-published_at",
+      {},
+      "articles",
+      expect.any(Object),
+    );
   });
 });
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { loader } from "~/routes/ready";
+import {
+  fetchNewsSites,
+  getSpaceflightHealth,
+} from "~/services/spaceflight-api";
+import type { SpaceflightClientHealth } from "~/services/spaceflight-api";
+
+vi.mock("~/services/spaceflight-api");
+
+const mockFetchNewsSites = vi.mocked(fetchNewsSites);
+const mockGetHealth = vi.mocked(getSpaceflightHealth);
+
+function health(
+  overrides: Partial<SpaceflightClientHealth> = {},
+): SpaceflightClientHealth {
+  return {
+    circuit: {
+      state: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+      nextProbeAt: null,
+    },
+    requests: {
+      windowMs: 300000,
+      requests: 20,
+      failures: 0,
+      errorRate: 0,
+      lastSuccessAt: "2024-01-01T12:00:00.000Z",
+      lastFailureAt: null,
+    },
+    cache: { entries: 12 },
+    ...overrides,
+  };
+}
+
+async function getReadiness() {
+  const request = new Request("http://localhost:3000/ready");
+  const response = await loader({ request, params: {}, context: {} });
+  return { response, data: await response.json() };
+}
+
+describe("/ready resource route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetchNewsSites.mockResolvedValue(["NASA"]);
+    mockGetHealth.mockReturnValue(health());
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should report ready with version and cache warmness", async () => {
+    vi.stubEnv("BUILD_VERSION", "1.4.2");
+
+    const { response, data } = await getReadiness();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    expect(data).toMatchObject({
+      status: "ready",
+      version: "1.4.2",
+      upstream: { reachable: true, error: null, circuit: { state: "closed" } },
+      cache: { entries: 12, warm: true },
+    });
+  });
+
+  it("should report degraded but stay in rotation on a raised error rate", async () => {
+    mockGetHealth.mockReturnValue(
+      health({
+        requests: { ...health().requests, failures: 4, errorRate: 0.2 },
+      }),
+    );
+
+    const { response, data } = await getReadiness();
+
+    expect(response.status).toBe(200);
+    expect(data.status).toBe("degraded");
+  });
+
+  it("should report down when the upstream cannot be reached", async () => {
+    mockFetchNewsSites.mockRejectedValue(new Error("Request timeout"));
+
+    const { response, data } = await getReadiness();
+
+    expect(response.status).toBe(503);
+    expect(data.status).toBe("down");
+    expect(data.upstream).toMatchObject({
+      reachable: false,
+      error: "Request timeout",
+    });
+  });
+
+  it("should honour error rate thresholds from the environment", async () => {
+    vi.stubEnv("READY_DOWN_ERROR_RATE", "0.15");
+    mockGetHealth.mockReturnValue(
+      health({
+        requests: { ...health().requests, failures: 4, errorRate: 0.2 },
+      }),
+    );
+
+    const { response, data } = await getReadiness();
+
+    expect(response.status).toBe(503);
+    expect(data.status).toBe("down");
+    expect(data.thresholds.downErrorRate).toBe(0.15);
+  });
+});
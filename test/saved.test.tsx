@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import Saved from "~/routes/saved";
+import { BookmarksProvider } from "~/hooks";
+import { serializeBookmarks } from "~/services/bookmark-store";
+import type { BookmarkStore } from "~/services/bookmark-store";
+import type { SavedArticle, SpaceflightArticle } from "~/types";
+
+const article: SpaceflightArticle = {
+  id: 7,
+  title: "Artemis II crew named",
+  summary: "NASA named the four astronauts flying around the Moon.",
+  image_url: "https://example.com/artemis.jpg",
+  news_site: "NASA",
+  published_at: "2024-01-15T10:00:00Z",
+  url: "https://example.com/artemis",
+};
+
+const savedArticles: SavedArticle[] = [
+  { article, contentType: "blogs", savedAt: "2024-02-01T09:00:00.000Z" },
+  {
+    article: { ...article, title: "Starship static fire" },
+    contentType: "articles",
+    savedAt: "2024-02-02T09:00:00.000Z",
+  },
+];
+
+function createMemoryStore(initial: SavedArticle[] = []): BookmarkStore {
+  let records = [...initial];
+  return {
+    list: async () => records,
+    put: async (saved) => {
+      records = [...records, ...saved];
+    },
+    remove: async () => {},
+  };
+}
+
+function renderSaved(store: BookmarkStore | null) {
+  return render(
+    <BookmarksProvider store={store}>
+      <Saved />
+    </BookmarksProvider>,
+  );
+}
+
+describe("/saved route", () => {
+  it("lists saved items with links for their own content type", async () => {
+    renderSaved(createMemoryStore(savedArticles));
+
+    expect(
+      await screen.findByRole("link", { name: "Artemis II crew named" }),
+    ).toHaveAttribute("href", "/blogs/7");
+    expect(
+      screen.getByRole("link", { name: "Starship static fire" }),
+    ).toHaveAttribute("href", "/articles/7");
+  });
+
+  it("searches the saved list", async () => {
+    renderSaved(createMemoryStore(savedArticles));
+
+    fireEvent.change(
+      await screen.findByLabelText(
+        "Search saved articles by title, summary or source",
+      ),
+      {
+        target: { value: "starship" },
+      },
+    );
+
+    expect(screen.getByText("Starship static fire")).toBeInTheDocument();
+    expect(screen.queryByText("Artemis II crew named")).not.toBeInTheDocument();
+  });
+
+  it("explains an empty list", async () => {
+    renderSaved(createMemoryStore());
+
+    expect(await screen.findByText("Nothing saved yet")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Export" })).toBeDisabled();
+  });
+
+  it("explains when the browser cannot store bookmarks", async () => {
+    renderSaved(null);
+
+    expect(
+      await screen.findByText("Saved articles are not available"),
+    ).toBeInTheDocument();
+  });
+
+  it("imports an exported list, skipping what is already saved", async () => {
+    renderSaved(createMemoryStore([savedArticles[0]]));
+    await screen.findByText("Artemis II crew named");
+
+    const contents = serializeBookmarks(savedArticles);
+    const file = new File([contents], "saved.json", {
+      type: "application/json",
+    });
+    // jsdom's File has no text()
+    Object.assign(file, { text: async () => contents });
+    fireEvent.change(
+      screen.getByLabelText("Import saved articles from a JSON file"),
+      { target: { files: [file] } },
+    );
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      "Imported 1 saved article.",
+    );
+    expect(screen.getByText("Starship static fire")).toBeInTheDocument();
+  });
+
+  it("imports an entry repeated in one file only once", async () => {
+    renderSaved(createMemoryStore());
+    await screen.findByText("Nothing saved yet");
+
+    const contents = serializeBookmarks([
+      savedArticles[1],
+      { ...savedArticles[1], savedAt: "2024-03-01T09:00:00.000Z" },
+    ]);
+    const file = new File([contents], "saved.json", {
+      type: "application/json",
+    });
+    Object.assign(file, { text: async () => contents });
+    fireEvent.change(
+      screen.getByLabelText("Import saved articles from a JSON file"),
+      { target: { files: [file] } },
+    );
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      "Imported 1 saved article.",
+    );
+    expect(screen.getAllByText("Starship static fire")).toHaveLength(1);
+  });
+});
@@ -1,19 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { loader } from "~/routes/_index";
+import { loader, meta } from "~/routes/_index";
 import {
-  fetchLatestArticles,
+  fetchArticles,
+  fetchNewsSiteFacets,
   SpaceflightApiError,
 } from "~/services/spaceflight-api";
-import type { SpaceflightArticle } from "~/types";
+import type { SpaceflightApiResponse, SpaceflightArticle } from "~/types";
 
 // Mock the API service
 vi.mock("~/services/spaceflight-api", () => ({
-  fetchLatestArticles: vi.fn(),
+  fetchArticles: vi.fn(),
+  fetchNewsSiteFacets: vi.fn(),
   SpaceflightApiError: class extends Error {
     constructor(
       message: string,
       public status?: number,
       public code?: string,
+      public issues: unknown[] = [],
     ) {
       super(message);
       this.name = "SpaceflightApiError";
@@ -21,7 +24,8 @@ vi.mock("~/services/spaceflight-api", () => ({
   },
 }));
 
-const mockFetchLatestArticles = vi.mocked(fetchLatestArticles);
+const mockFetchArticles = vi.mocked(fetchArticles);
+const mockFetchNewsSiteFacets = vi.mocked(fetchNewsSiteFacets);
 
 const mockArticles: SpaceflightArticle[] = [
   {
@@ -45,14 +49,23 @@ const mockArticles: SpaceflightArticle[] = [
   },
 ];
 
+function mockResponse(
+  results: SpaceflightArticle[],
+  count: number = results.length,
+  next: string | null = null,
+): SpaceflightApiResponse {
+  return { count, next, previous: null, results };
+}
+
 describe("Server-side data loading", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockFetchNewsSiteFacets.mockResolvedValue([]);
   });
 
   describe("loader function", () => {
     it("should successfully fetch and return articles data", async () => {
-      mockFetchLatestArticles.mockResolvedValue(mockArticles);
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
 
       const request = new Request("http://localhost:3000/");
       const response = await loader({ request, params: {}, context: {} });
@@ -71,7 +84,7 @@ describe("Server-side data loading", () => {
         503,
         "SERVICE_UNAVAILABLE",
       );
-      mockFetchLatestArticles.mockRejectedValue(apiError);
+      mockFetchArticles.mockRejectedValue(apiError);
 
       const request = new Request("http://localhost:3000/");
       const response = await loader({ request, params: {}, context: {} });
@@ -86,7 +99,7 @@ describe("Server-side data loading", () => {
 
     it("should handle network errors", async () => {
       const networkError = new Error("Network connection failed");
-      mockFetchLatestArticles.mockRejectedValue(networkError);
+      mockFetchArticles.mockRejectedValue(networkError);
 
       const request = new Request("http://localhost:3000/");
       const response = await loader({ request, params: {}, context: {} });
@@ -99,25 +112,237 @@ describe("Server-side data loading", () => {
     });
 
     it("should respect limit parameter from URL", async () => {
-      mockFetchLatestArticles.mockResolvedValue(mockArticles);
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
 
       const request = new Request("http://localhost:3000/?limit=10");
       await loader({ request, params: {}, context: {} });
 
-      expect(mockFetchLatestArticles).toHaveBeenCalledWith(10);
+      expect(mockFetchArticles).toHaveBeenCalledWith(
+        10,
+        0,
+        "-published_at",
+        {},
+        "articles",
+        expect.any(Object),
+      );
     });
 
     it("should cap limit parameter at 50", async () => {
-      mockFetchLatestArticles.mockResolvedValue(mockArticles);
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
 
       const request = new Request("http://localhost:3000/?limit=100");
       await loader({ request, params: {}, context: {} });
 
-      expect(mockFetchLatestArticles).toHaveBeenCalledWith(50);
+      expect(mockFetchArticles).toHaveBeenCalledWith(
+        50,
+        0,
+        "-published_at",
+        {},
+        "articles",
+        expect.any(Object),
+      );
+    });
+
+    it("should translate the page parameter into an offset", async () => {
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
+
+      const request = new Request("http://localhost:3000/?page=3&limit=10");
+      const response = await loader({ request, params: {}, context: {} });
+      const data = await response.json();
+
+      expect(mockFetchArticles).toHaveBeenCalledWith(
+        10,
+        20,
+        "-published_at",
+        {},
+        "articles",
+        expect.any(Object),
+      );
+      expect(data.meta.offset).toBe(20);
+      expect(data.meta.limit).toBe(10);
+    });
+
+    it("should prefer an explicit offset over the page parameter", async () => {
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
+
+      const request = new Request("http://localhost:3000/?page=3&offset=5");
+      await loader({ request, params: {}, context: {} });
+
+      expect(mockFetchArticles).toHaveBeenCalledWith(
+        20,
+        5,
+        "-published_at",
+        {},
+        "articles",
+        expect.any(Object),
+      );
+    });
+
+    it("should ignore invalid pagination parameters", async () => {
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
+
+      const request = new Request("http://localhost:3000/?page=abc&limit=-4");
+      await loader({ request, params: {}, context: {} });
+
+      expect(mockFetchArticles).toHaveBeenCalledWith(
+        20,
+        0,
+        "-published_at",
+        {},
+        "articles",
+        expect.any(Object),
+      );
+    });
+
+    it("should forward the q parameter as a server-side search", async () => {
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles, 134));
+
+      const request = new Request("http://localhost:3000/?q=%20Artemis%20");
+      const response = await loader({ request, params: {}, context: {} });
+      const data = await response.json();
+
+      expect(mockFetchArticles).toHaveBeenCalledWith(
+        20,
+        0,
+        "-published_at",
+        {
+          search: "Artemis",
+        },
+        "articles",
+        expect.any(Object),
+      );
+      expect(data.meta.total).toBe(134); // Matches across all pages, not just this one
+    });
+
+    it("should log validation issues from an invalid payload", async () => {
+      const consoleSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      mockFetchArticles.mockRejectedValue(
+        new SpaceflightApiError(
+          "Invalid response format from API",
+          200,
+          "INVALID_RESPONSE",
+          [{ path: "results", message: "no valid records" }],
+        ),
+      );
+
+      const request = new Request("http://localhost:3000/");
+      await loader({ request, params: {}, context: {} });
+
+      expect(consoleSpy).toHaveBeenCalledWith("Invalid API payload:", [
+        "results: no valid records",
+      ]);
+      consoleSpy.mockRestore();
+    });
+
+    it("should forward the news_site parameter as a list of sites", async () => {
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
+
+      const request = new Request(
+        "http://localhost:3000/?news_site=SpaceNews,NASA,%20SpaceNews",
+      );
+      await loader({ request, params: {}, context: {} });
+
+      expect(mockFetchArticles).toHaveBeenCalledWith(
+        20,
+        0,
+        "-published_at",
+        {
+          newsSites: ["SpaceNews", "NASA"],
+        },
+        "articles",
+        expect.any(Object),
+      );
+    });
+
+    it("should forward the from and to parameters as a date range", async () => {
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
+
+      const request = new Request(
+        "http://localhost:3000/?from=2024-03-10&to=2024-03-16",
+      );
+      await loader({ request, params: {}, context: {} });
+
+      expect(mockFetchArticles).toHaveBeenCalledWith(
+        20,
+        0,
+        "-published_at",
+        {
+          publishedAfter: "2024-03-10T00:00:00.000Z",
+          publishedBefore: "2024-03-16T23:59:59.999Z",
+        },
+        "articles",
+        expect.any(Object),
+      );
+    });
+
+    it("should resolve a range preset relative to the request time", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2024-03-20T12:00:00.000Z"));
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
+
+      const request = new Request("http://localhost:3000/?range=24h");
+      await loader({ request, params: {}, context: {} });
+
+      expect(mockFetchArticles).toHaveBeenCalledWith(
+        20,
+        0,
+        "-published_at",
+        {
+          publishedAfter: "2024-03-19T12:00:00.000Z",
+        },
+        "articles",
+        expect.any(Object),
+      );
+      vi.useRealTimers();
+    });
+
+    it("should not wait on the news site facets", async () => {
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
+
+      const request = new Request(
+        "http://localhost:3000/?q=Artemis&news_site=NASA",
+      );
+      const response = await loader({ request, params: {}, context: {} });
+      const data = await response.json();
+
+      // The page fetches them from /api/news-sites after it renders
+      expect(mockFetchNewsSiteFacets).not.toHaveBeenCalled();
+      expect(data.articles).toEqual(mockArticles);
+      expect(data).not.toHaveProperty("newsSiteFacets");
+    });
+
+    it("should load blogs or reports when a content type is requested", async () => {
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
+
+      const request = new Request("http://localhost:3000/?type=reports");
+      const response = await loader({ request, params: {}, context: {} });
+      const data = await response.json();
+
+      expect(mockFetchArticles).toHaveBeenCalledWith(
+        20,
+        0,
+        "-published_at",
+        {},
+        "reports",
+        expect.any(Object),
+      );
+      expect(data.contentType).toBe("reports");
+    });
+
+    it("should fall back to articles for an unknown content type", async () => {
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
+
+      const request = new Request("http://localhost:3000/?type=podcasts");
+      const response = await loader({ request, params: {}, context: {} });
+      const data = await response.json();
+
+      expect(data.contentType).toBe("articles");
     });
 
     it("should set appropriate cache headers for successful responses", async () => {
-      mockFetchLatestArticles.mockResolvedValue(mockArticles);
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
 
       const request = new Request("http://localhost:3000/");
       const response = await loader({ request, params: {}, context: {} });
@@ -129,7 +354,7 @@ describe("Server-side data loading", () => {
 
     it("should set no-cache headers for error responses", async () => {
       const apiError = new SpaceflightApiError("API error", 500);
-      mockFetchLatestArticles.mockRejectedValue(apiError);
+      mockFetchArticles.mockRejectedValue(apiError);
 
       const request = new Request("http://localhost:3000/");
       const response = await loader({ request, params: {}, context: {} });
@@ -141,7 +366,7 @@ describe("Server-side data loading", () => {
 
     it("should set retry-after header for rate limiting errors", async () => {
       const rateLimitError = new SpaceflightApiError("Rate limited", 429);
-      mockFetchLatestArticles.mockRejectedValue(rateLimitError);
+      mockFetchArticles.mockRejectedValue(rateLimitError);
 
       const request = new Request("http://localhost:3000/");
       const response = await loader({ request, params: {}, context: {} });
@@ -156,20 +381,36 @@ describe("Server-side data loading", () => {
         title: `Article ${i + 1}`,
       }));
 
-      mockFetchLatestArticles.mockResolvedValue(fullLimitArticles);
+      mockFetchArticles.mockResolvedValue(
+        mockResponse(fullLimitArticles, 45, "https://example.com/?offset=20"),
+      );
 
       const request = new Request("http://localhost:3000/?limit=20");
       const response = await loader({ request, params: {}, context: {} });
       const data = await response.json();
 
-      expect(data.meta.total).toBe(20);
-      expect(data.meta.hasMore).toBe(true); // Should be true when we get the full limit
+      expect(data.meta.total).toBe(45); // Total comes from the API count
+      expect(data.meta.hasMore).toBe(true); // Driven by the API's next cursor
       expect(data.meta.loadedAt).toBeDefined();
       expect(new Date(data.meta.loadedAt)).toBeInstanceOf(Date);
     });
 
+    it("should drop view, sort and page size params from the canonical URL", async () => {
+      mockFetchArticles.mockResolvedValue(mockResponse(mockArticles));
+
+      const request = new Request(
+        "http://localhost:3000/?type=blogs&q=Artemis&view=scroll&limit=10&page=3",
+      );
+      const response = await loader({ request, params: {}, context: {} });
+      const data = await response.json();
+
+      expect(data.canonicalUrl).toBe(
+        "http://localhost:3000/?type=blogs&q=Artemis&page=3",
+      );
+    });
+
     it("should handle empty results", async () => {
-      mockFetchLatestArticles.mockResolvedValue([]);
+      mockFetchArticles.mockResolvedValue(mockResponse([]));
 
       const request = new Request("http://localhost:3000/");
       const response = await loader({ request, params: {}, context: {} });
@@ -185,7 +426,7 @@ describe("Server-side data loading", () => {
   describe("Error handling", () => {
     it("should differentiate between client and server errors", async () => {
       const clientError = new SpaceflightApiError("Bad request", 400);
-      mockFetchLatestArticles.mockRejectedValue(clientError);
+      mockFetchArticles.mockRejectedValue(clientError);
 
       const request = new Request("http://localhost:3000/");
       const response = await loader({ request, params: {}, context: {} });
@@ -199,7 +440,7 @@ describe("Server-side data loading", () => {
 
     it("should return 500 for server errors", async () => {
       const serverError = new SpaceflightApiError("Internal server error", 500);
-      mockFetchLatestArticles.mockRejectedValue(serverError);
+      mockFetchArticles.mockRejectedValue(serverError);
 
       const request = new Request("http://localhost:3000/");
       const response = await loader({ request, params: {}, context: {} });
@@ -211,3 +452,50 @@ describe("Server-side data loading", () => {
     });
   });
 });
+
+describe("Index meta function", () => {
+  const canonicalUrl = "http://localhost:3000/?page=2";
+
+  function getTags(articles: SpaceflightArticle[]) {
+    return (
+      meta({
+        data: {
+          articles,
+          contentType: "articles",
+          error: null,
+          canonicalUrl,
+          meta: { offset: 20 },
+        },
+        location: { search: "?page=2" },
+      } as Parameters<typeof meta>[0]) ?? []
+    );
+  }
+
+  it("should link the canonical URL and preview the lead story's image", () => {
+    const tags = getTags(mockArticles);
+
+    expect(tags).toContainEqual({
+      tagName: "link",
+      rel: "canonical",
+      href: canonicalUrl,
+    });
+    expect(tags).toContainEqual({
+      property: "og:image",
+      content: "https://example.com/image1.jpg",
+    });
+  });
+
+  it("should leave the ItemList to the page, which escapes it", () => {
+    const tags = getTags(mockArticles);
+
+    expect(tags.some((tag) => "script:ld+json" in tag)).toBe(false);
+  });
+
+  it("should leave out the image when nothing loaded", () => {
+    const tags = getTags([]);
+
+    expect(tags).not.toContainEqual(
+      expect.objectContaining({ property: "og:image" }),
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { loader as sitemapLoader } from "~/routes/sitemap.xml";
+import { isIndexingAllowed, loadRobotsTxt } from "~/services/sitemap-loader";
+import { fetchArticles, fetchNewsSites } from "~/services/spaceflight-api";
+import type { SpaceflightApiResponse, SpaceflightArticle } from "~/types";
+
+vi.mock("~/services/spaceflight-api");
+
+const mockFetchArticles = vi.mocked(fetchArticles);
+const mockFetchNewsSites = vi.mocked(fetchNewsSites);
+
+const mockArticle: SpaceflightArticle = {
+  id: 21,
+  title: "SpaceX Launches Starship",
+  summary: "SpaceX launched its Starship rocket on a test flight.",
+  image_url: "https://example.com/image1.jpg",
+  news_site: "SpaceNews",
+  published_at: "2024-01-15T10:00:00Z",
+  updated_at: "2024-01-20T10:00:00Z",
+  url: "https://example.com/article1",
+};
+
+function pageOf(count: number): SpaceflightApiResponse {
+  return {
+    count,
+    next: null,
+    previous: null,
+    results: count > 0 ? [mockArticle] : [],
+  };
+}
+
+function loadSitemap(search = "") {
+  const request = new Request(`http://localhost:3000/sitemap.xml${search}`);
+  return sitemapLoader({ request, params: {}, context: {} });
+}
+
+function getLocs(xml: string) {
+  return [...xml.matchAll(/<loc>(.*?)<\/loc>/g)].map((match) => match[1]);
+}
+
+describe("/sitemap.xml resource route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFetchNewsSites.mockResolvedValue(["NASA"]);
+    mockFetchArticles.mockImplementation(async (...args) =>
+      pageOf(args[4] === "articles" ? 1 : 0),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should list landing and detail pages while they fit in one sitemap", async () => {
+    const response = await loadSitemap();
+    const xml = await response.text();
+
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/xml; charset=utf-8",
+    );
+    expect(xml).toContain("<urlset");
+    expect(getLocs(xml)).toEqual([
+      "http://localhost:3000/",
+      "http://localhost:3000/?type=blogs",
+      "http://localhost:3000/?type=reports",
+      "http://localhost:3000/?news_site=NASA",
+      "http://localhost:3000/articles/21",
+    ]);
+    // lastmod comes from published_at, not updated_at
+    expect(xml).toContain("<lastmod>2024-01-15T10:00:00.000Z</lastmod>");
+    expect(xml).not.toContain("2024-01-20");
+  });
+
+  it("should become a sitemap index once detail pages are paged", async () => {
+    mockFetchArticles.mockImplementation(async (...args) =>
+      pageOf(args[4] === "articles" ? 250 : 0),
+    );
+
+    const xml = await (await loadSitemap()).text();
+
+    expect(xml).toContain("<sitemapindex");
+    expect(getLocs(xml)).toEqual([
+      "http://localhost:3000/sitemap.xml?section=pages",
+      "http://localhost:3000/sitemap.xml?section=articles&amp;page=1",
+      "http://localhost:3000/sitemap.xml?section=articles&amp;page=2",
+      "http://localhost:3000/sitemap.xml?section=articles&amp;page=3",
+    ]);
+  });
+
+  it("should serve one page of detail pages", async () => {
+    const xml = await (await loadSitemap("?section=articles&page=2")).text();
+
+    expect(mockFetchArticles).toHaveBeenCalledWith(
+      100,
+      100,
+      "-published_at",
+      {},
+      "articles",
+      expect.any(Object),
+    );
+    expect(getLocs(xml)).toEqual(["http://localhost:3000/articles/21"]);
+  });
+
+  it("should answer 404 for unknown sections and pages past the end", async () => {
+    expect((await loadSitemap("?section=launches")).status).toBe(404);
+    expect((await loadSitemap("?section=blogs&page=2")).status).toBe(404);
+    expect((await loadSitemap("?section=articles&page=0")).status).toBe(404);
+  });
+
+  it("should answer 503 without caching when the API fails", async () => {
+    mockFetchNewsSites.mockRejectedValue(new Error("Network failure"));
+
+    const response = await loadSitemap();
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get("Cache-Control")).toContain("no-store");
+  });
+});
+
+describe("/robots.txt", () => {
+  const request = new Request("http://localhost:3000/robots.txt");
+
+  it("should allow crawling and advertise the sitemap in production", async () => {
+    const text = await loadRobotsTxt(request, {
+      NODE_ENV: "production",
+    }).text();
+
+    expect(text).toContain("Allow: /\n");
+    expect(text).toContain("Disallow: /api/\n");
+    expect(text).toContain("Sitemap: http://localhost:3000/sitemap.xml");
+  });
+
+  it("should keep crawlers out of other environments", async () => {
+    const text = await loadRobotsTxt(request, {
+      NODE_ENV: "production",
+      DEPLOY_ENV: "staging",
+    }).text();
+
+    expect(text).toBe("User-agent: *\nDisallow: /\n");
+  });
+
+  it("should fall back to NODE_ENV when DEPLOY_ENV is unset", () => {
+    expect(isIndexingAllowed({ NODE_ENV: "development" })).toBe(false);
+    expect(isIndexingAllowed({ DEPLOY_ENV: "production" })).toBe(true);
+  });
+});
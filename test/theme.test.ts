@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { action } from "~/routes/theme";
+import { getThemePreference } from "~/services/theme";
+
+function postTheme(fields: Record<string, string>) {
+  const request = new Request("https://example.com/theme", {
+    method: "POST",
+    body: new URLSearchParams(fields),
+  });
+  return action({ request, params: {}, context: {} });
+}
+
+function requestWithSetCookie(response: Response): Request {
+  const cookie = (response.headers.get("Set-Cookie") ?? "").split(";")[0];
+  return new Request("https://example.com/", { headers: { Cookie: cookie } });
+}
+
+describe("/theme action", () => {
+  it("stores the theme in a cookie", async () => {
+    const response = await postTheme({ theme: "dark" });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ theme: "dark" });
+    expect(await getThemePreference(requestWithSetCookie(response))).toBe(
+      "dark",
+    );
+  });
+
+  it("redirects back to the page for forms posted without JavaScript", async () => {
+    const response = await postTheme({
+      theme: "light",
+      redirectTo: "/articles/7?type=blogs",
+    });
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Location")).toBe("/articles/7?type=blogs");
+    expect(await getThemePreference(requestWithSetCookie(response))).toBe(
+      "light",
+    );
+  });
+
+  it("does not redirect off the site", async () => {
+    const response = await postTheme({
+      theme: "light",
+      redirectTo: "//evil.example.com/",
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Location")).toBeNull();
+  });
+
+  it("rejects unknown themes", async () => {
+    const response = await postTheme({ theme: "sepia" });
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("Set-Cookie")).toBeNull();
+  });
+});